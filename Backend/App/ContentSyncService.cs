@@ -0,0 +1,85 @@
+using Serilog;
+using System.Text.Json;
+using Segra.Backend.Core.Models;
+
+namespace Segra.Backend.App
+{
+    /// <summary>
+    /// Keeps the frontend's content list in step with AppState.Content. The library is sent whole
+    /// once per connection (ContentSnapshot) and afterwards only as revisioned ContentDelta
+    /// messages, so a rename or bookmark doesn't resend and re-render thousands of items.
+    /// The frontend asks for a new snapshot (ResyncContent) when it sees a revision gap.
+    /// </summary>
+    public static class ContentSyncService
+    {
+        private static readonly SemaphoreSlim syncLock = new SemaphoreSlim(1, 1);
+        // Each item as last sent, serialized, so changes can be found without change tracking
+        // in every place that mutates content.
+        private static readonly Dictionary<string, string> sentContent = new();
+        private static long revision;
+
+        public static async Task SendSnapshot(string cause)
+        {
+            await syncLock.WaitAsync();
+            try
+            {
+                var content = AppState.Instance.Content.ToList();
+                sentContent.Clear();
+                foreach (var item in content)
+                {
+                    sentContent[item.Id] = JsonSerializer.Serialize(item);
+                }
+                revision++;
+
+                Log.Information("Sending content snapshot, revision {Revision} with {Count} items ({Cause})", revision, content.Count, cause);
+                await MessageService.SendFrontendMessage("ContentSnapshot", new { revision, content });
+            }
+            finally
+            {
+                syncLock.Release();
+            }
+        }
+
+        public static async Task SendChanges(string cause)
+        {
+            await syncLock.WaitAsync();
+            try
+            {
+                var added = new List<Content>();
+                var updated = new List<Content>();
+                var currentIds = new HashSet<string>();
+
+                foreach (var item in AppState.Instance.Content.ToList())
+                {
+                    currentIds.Add(item.Id);
+                    string serialized = JsonSerializer.Serialize(item);
+                    if (!sentContent.TryGetValue(item.Id, out string? previous))
+                        added.Add(item);
+                    else if (previous != serialized)
+                        updated.Add(item);
+                    else
+                        continue;
+                    sentContent[item.Id] = serialized;
+                }
+
+                var removed = sentContent.Keys.Where(id => !currentIds.Contains(id)).ToList();
+                foreach (var id in removed)
+                {
+                    sentContent.Remove(id);
+                }
+
+                if (added.Count == 0 && updated.Count == 0 && removed.Count == 0)
+                    return;
+
+                revision++;
+                Log.Information("Sending content delta, revision {Revision}: {Added} added, {Updated} updated, {Removed} removed ({Cause})",
+                    revision, added.Count, updated.Count, removed.Count, cause);
+                await MessageService.SendFrontendMessage("ContentDelta", new { revision, added, updated, removed });
+            }
+            finally
+            {
+                syncLock.Release();
+            }
+        }
+    }
+}
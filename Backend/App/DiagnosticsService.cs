@@ -403,6 +403,7 @@ namespace Segra.Backend.App
             LogDriveInfo("Cache folder drive", s.CacheFolder);
             Log.Information($"Current content size: {AppState.Instance.CurrentFolderSizeGb:F2} GB");
             Log.Information($"Storage limit: {s.StorageLimit} GB");
+            Log.Information($"Recycle bin: {AppState.Instance.RecycleBin.Count} items, {AppState.Instance.RecycleBinSizeGb:F2} GB, kept {s.RecycleBinRetentionDays} days");
 
             var byType = AppState.Instance.Content
                 .GroupBy(c => c.Type)
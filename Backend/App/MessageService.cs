@@ -1,4 +1,5 @@
 using Serilog;
+using System.Buffers.Binary;
 using System.Net;
 using System.Reflection;
 using System.Text;
@@ -16,6 +17,25 @@ using Segra.Backend.Windows.Storage;
 
 namespace Segra.Backend.App
 {
+    /// <summary>
+    /// Thrown by a command handler when a command can't be carried out. The message is
+    /// shown to the user, so it should read as a sentence rather than a log line.
+    /// </summary>
+    public class CommandException : Exception
+    {
+        public CommandException(string message) : base(message)
+        {
+        }
+    }
+
+    /// <summary>
+    /// First byte of a binary WebSocket frame. See SendFrontendBinary for the layout.
+    /// </summary>
+    public enum BinaryMessageKind : byte
+    {
+        RecordingPreviewFrame = 1
+    }
+
     public static class MessageService
     {
         private static WebSocket? activeWebSocket;
@@ -25,6 +45,67 @@ namespace Segra.Backend.App
             PropertyNamingPolicy = JsonNamingPolicy.CamelCase
         };
 
+        // Exchanged in the NewConnection handshake. Bump ProtocolVersion when a message or command
+        // changes shape in a way the other side can't ignore, together with PROTOCOL_VERSION in
+        // Frontend/src/Models/WebSocketMessages.ts. Frontends older than MinFrontendProtocolVersion
+        // only get the Handshake and show a mismatch screen.
+        public const int ProtocolVersion = 2;
+        public const int MinFrontendProtocolVersion = 2;
+
+        // Optional features the frontend can hide when a backend doesn't offer them.
+        private static readonly string[] capabilities = ["aiHighlights", "separateAudioTracks"];
+
+        // Commands whose outcome the frontend awaits. Their handlers throw on failure and return
+        // the value sent back in the CommandResult, instead of only logging.
+        private static readonly Dictionary<string, Func<JsonElement, Task<object?>>> requestHandlers = new()
+        {
+            ["RenameContent"] = async parameters => await ContentService.HandleRenameContent(parameters),
+            ["AddBookmark"] = async parameters => await ContentService.HandleAddBookmark(parameters),
+            ["DeleteBookmark"] = async parameters =>
+            {
+                await ContentService.HandleDeleteBookmark(parameters);
+                return null;
+            },
+            ["SetContentTags"] = async parameters =>
+            {
+                await ContentService.HandleSetContentTags(parameters);
+                return null;
+            },
+            ["SetFavorite"] = async parameters =>
+            {
+                await ContentService.HandleSetFavorite(parameters);
+                return null;
+            },
+            ["SetContentGame"] = async parameters =>
+            {
+                await ContentService.HandleSetContentGame(parameters);
+                return null;
+            },
+            ["RenameTag"] = async parameters =>
+            {
+                await ContentService.HandleRenameTag(parameters);
+                return null;
+            },
+            ["DeleteTag"] = async parameters =>
+            {
+                await ContentService.HandleDeleteTag(parameters);
+                return null;
+            },
+            ["DeleteContent"] = async parameters =>
+            {
+                await HandleDeleteContent(parameters);
+                return null;
+            },
+            ["DeleteMultipleContent"] = async parameters => await HandleDeleteMultipleContent(parameters),
+            ["RestoreFromRecycleBin"] = async parameters => await HandleRestoreFromRecycleBin(parameters),
+            ["DeleteFromRecycleBin"] = async parameters => await HandleDeleteFromRecycleBin(parameters),
+            ["CompressVideo"] = async parameters =>
+            {
+                await HandleCompressVideo(parameters);
+                return null;
+            },
+        };
+
         public static async Task HandleMessage(string message)
         {
             if (string.IsNullOrEmpty(message))
@@ -57,6 +138,23 @@ namespace Segra.Backend.App
                         return;
                     }
 
+                    // Messages sent through the frontend's rpc() carry a RequestId. Acknowledge receipt
+                    // right away, then report how the command went once it has run.
+                    string? requestId = root.TryGetProperty("RequestId", out JsonElement requestIdElement)
+                        ? requestIdElement.GetString()
+                        : null;
+                    if (requestId != null)
+                    {
+                        await SendFrontendMessage("CommandAck", new { requestId });
+                    }
+
+                    if (requestHandlers.TryGetValue(method, out var requestHandler))
+                    {
+                        root.TryGetProperty("Parameters", out JsonElement requestParameters);
+                        await RunRequestHandler(method, requestId, requestHandler, requestParameters);
+                        return;
+                    }
+
                     switch (method)
                     {
                         case "ToggleFullscreen":
@@ -104,10 +202,6 @@ namespace Segra.Backend.App
                             root.TryGetProperty("Parameters", out JsonElement aiClipParameterElement);
                             _ = Task.Run(() => HandleCreateAiClip(aiClipParameterElement));
                             break;
-                        case "CompressVideo":
-                            root.TryGetProperty("Parameters", out JsonElement compressParameterElement);
-                            _ = Task.Run(() => HandleCompressVideo(compressParameterElement));
-                            break;
                         case "ApplyUpdate":
                             UpdateService.ApplyUpdate();
                             break;
@@ -115,14 +209,6 @@ namespace Segra.Backend.App
                             Log.Information("CheckForUpdates command received.");
                             _ = Task.Run(() => UpdateService.UpdateAppIfNecessary(forceCheck: true));
                             break;
-                        case "DeleteContent":
-                            root.TryGetProperty("Parameters", out JsonElement deleteContentParameterElement);
-                            _ = Task.Run(() => HandleDeleteContent(deleteContentParameterElement));
-                            break;
-                        case "DeleteMultipleContent":
-                            root.TryGetProperty("Parameters", out JsonElement deleteMultipleContentParameterElement);
-                            _ = Task.Run(() => HandleDeleteMultipleContent(deleteMultipleContentParameterElement));
-                            break;
                         case "UploadContent":
                             root.TryGetProperty("Parameters", out JsonElement uploadContentParameterElement);
                             _ = Task.Run(() => UploadService.HandleUploadContent(uploadContentParameterElement));
@@ -208,7 +294,7 @@ namespace Segra.Backend.App
                             if (AppState.Instance.Recording != null || AppState.Instance.PreRecording != null)
                             {
                                 Log.Information("Recording already in progress. Skipping...");
-                                return;
+                                break;
                             }
 
                             _ = Task.Run(() => OBSService.StartRecording(startManually: true));
@@ -219,9 +305,37 @@ namespace Segra.Backend.App
                         case "RefreshStorageStats":
                             StorageService.UpdateRecordingDriveSpaceInState();
                             break;
+                        case "ResyncContent":
+                            await ContentSyncService.SendSnapshot("Frontend requested resync");
+                            break;
                         case "NewConnection":
-                            Log.Information("NewConnection command received.");
+                            int frontendProtocolVersion = 0;
+                            string frontendCapabilities = "";
+                            if (root.TryGetProperty("Parameters", out JsonElement connectionParameters))
+                            {
+                                if (connectionParameters.TryGetProperty("ProtocolVersion", out JsonElement versionElement))
+                                    frontendProtocolVersion = versionElement.GetInt32();
+                                if (connectionParameters.TryGetProperty("Capabilities", out JsonElement capabilitiesElement))
+                                    frontendCapabilities = string.Join(", ", capabilitiesElement.EnumerateArray().Select(c => c.GetString()));
+                            }
+                            Log.Information($"NewConnection command received (protocol {frontendProtocolVersion}, capabilities: {frontendCapabilities}).");
+
+                            await SendFrontendMessage("Handshake", new
+                            {
+                                protocolVersion = ProtocolVersion,
+                                minFrontendProtocolVersion = MinFrontendProtocolVersion,
+                                capabilities
+                            });
+
+                            if (frontendProtocolVersion < MinFrontendProtocolVersion)
+                            {
+                                Log.Warning($"Frontend protocol {frontendProtocolVersion} is older than {MinFrontendProtocolVersion}; not sending state.");
+                                break;
+                            }
+
                             await SendSettingsToFrontend("New connection");
+                            // The library has its own message; State doesn't carry it.
+                            await ContentSyncService.SendSnapshot("New connection");
                             await SendStateToFrontend("New connection");
 
                             await SendGameList();
@@ -259,21 +373,6 @@ namespace Segra.Backend.App
                             Log.Information("UpdateSettings command received.");
                             await SettingsService.HandleUpdateSettings(settingsParameterElement);
                             break;
-                        case "AddBookmark":
-                            root.TryGetProperty("Parameters", out JsonElement bookmarkParameterElement);
-                            await ContentService.HandleAddBookmark(bookmarkParameterElement);
-                            Log.Information("AddBookmark command received.");
-                            break;
-                        case "DeleteBookmark":
-                            root.TryGetProperty("Parameters", out JsonElement deleteBookmarkParameterElement);
-                            await ContentService.HandleDeleteBookmark(deleteBookmarkParameterElement);
-                            Log.Information("DeleteBookmark command received.");
-                            break;
-                        case "RenameContent":
-                            root.TryGetProperty("Parameters", out JsonElement renameContentParameterElement);
-                            await ContentService.HandleRenameContent(renameContentParameterElement);
-                            Log.Information("RenameContent command received.");
-                            break;
                         case "ImportFile":
                             root.TryGetProperty("Parameters", out JsonElement importParameterElement);
                             _ = Task.Run(() => ImportService.HandleImportFile(importParameterElement));
@@ -317,7 +416,17 @@ namespace Segra.Backend.App
                             break;
                         default:
                             Log.Information($"Unknown method: {method}");
-                            break;
+                            if (requestId != null)
+                            {
+                                await SendCommandResult(requestId, false, error: $"Unknown command: {method}");
+                            }
+                            return;
+                    }
+
+                    // Everything else is fire-and-forget on this side; the result only confirms dispatch.
+                    if (requestId != null)
+                    {
+                        await SendCommandResult(requestId, true);
                     }
                 }
                 else
@@ -336,40 +445,74 @@ namespace Segra.Backend.App
             }
         }
 
-        public static async Task HandleDeleteContent(JsonElement message)
+        private static async Task RunRequestHandler(string method, string? requestId, Func<JsonElement, Task<object?>> handler, JsonElement parameters)
         {
-            Log.Information($"Handling DeleteContent with message: {message}");
-
-            if (message.TryGetProperty("Id", out JsonElement idElement))
+            try
             {
-                string id = idElement.GetString()!;
-                Content? content = AppState.Instance.Content.FirstOrDefault(c => c.Id == id);
-
-                if (content != null && !string.IsNullOrEmpty(content.FilePath))
+                object? result = await handler(parameters);
+                if (requestId != null)
                 {
-                    await ContentService.DeleteContent(content.FilePath, content.Type, content.Id);
+                    await SendCommandResult(requestId, true, result);
                 }
-                else
+            }
+            catch (CommandException ex)
+            {
+                Log.Warning($"{method} failed: {ex.Message}");
+                if (requestId != null)
                 {
-                    Log.Warning($"Content not found in state for deletion: {id}");
+                    await SendCommandResult(requestId, false, error: ex.Message);
                 }
             }
-            else
+            catch (Exception ex)
             {
-                Log.Information("Id property not found in DeleteContent message.");
+                Log.Error(ex, $"Unhandled exception in {method} handler");
+                if (requestId != null)
+                {
+                    await SendCommandResult(requestId, false, error: ex.Message);
+                }
             }
         }
 
-        public static async Task HandleDeleteMultipleContent(JsonElement message)
+        private static Task SendCommandResult(string requestId, bool success, object? result = null, string? error = null)
+        {
+            return SendFrontendMessage("CommandResult", new { requestId, success, result, error });
+        }
+
+        public static async Task HandleDeleteContent(JsonElement message)
+        {
+            Log.Information($"Handling DeleteContent with message: {message}");
+
+            if (!message.TryGetProperty("Id", out JsonElement idElement))
+            {
+                throw new CommandException("Id property not found in DeleteContent message.");
+            }
+
+            string id = idElement.GetString()!;
+            Content? content = AppState.Instance.Content.FirstOrDefault(c => c.Id == id);
+
+            if (content == null || string.IsNullOrEmpty(content.FilePath))
+            {
+                throw new CommandException("This video no longer exists.");
+            }
+
+            if (!await RecycleBinService.MoveToRecycleBin(content))
+            {
+                throw new CommandException($"Could not delete {content.FileName}. The file may be open in another program.");
+            }
+        }
+
+        public static async Task<object> HandleDeleteMultipleContent(JsonElement message)
         {
             Log.Information($"Handling DeleteMultipleContent with message: {message}");
 
             if (!message.TryGetProperty("Ids", out JsonElement idsElement))
             {
-                Log.Information("Ids property not found in DeleteMultipleContent message.");
-                return;
+                throw new CommandException("Ids property not found in DeleteMultipleContent message.");
             }
 
+            var deletedIds = new List<string>();
+            var failedIds = new List<string>();
+
             // Use bulk update to prevent multiple frontend updates
             Settings.Instance._isBulkUpdating = true;
             try
@@ -381,12 +524,20 @@ namespace Segra.Backend.App
 
                     if (content != null && !string.IsNullOrEmpty(content.FilePath))
                     {
-                        await ContentService.DeleteContent(content.FilePath, content.Type, content.Id, sendToFrontend: false);
-                        Log.Information($"Deleted content: {content.FileName}");
+                        if (await RecycleBinService.MoveToRecycleBin(content, sendToFrontend: false))
+                        {
+                            deletedIds.Add(id);
+                            Log.Information($"Deleted content: {content.FileName}");
+                        }
+                        else
+                        {
+                            failedIds.Add(id);
+                        }
                     }
                     else
                     {
                         Log.Warning($"Content not found in state for deletion: {id}");
+                        failedIds.Add(id);
                     }
                 }
             }
@@ -396,6 +547,59 @@ namespace Segra.Backend.App
                 // Reload content and send single update to frontend
                 await SettingsService.LoadContentFromFolderIntoState(true);
             }
+
+            if (deletedIds.Count == 0 && failedIds.Count > 0)
+            {
+                throw new CommandException(failedIds.Count == 1
+                    ? "The selected video could not be deleted."
+                    : $"None of the {failedIds.Count} selected videos could be deleted.");
+            }
+
+            return new { deletedIds, failedIds };
+        }
+
+        public static async Task<object> HandleRestoreFromRecycleBin(JsonElement message)
+        {
+            Log.Information($"Handling RestoreFromRecycleBin with message: {message}");
+
+            if (!message.TryGetProperty("Ids", out JsonElement idsElement))
+            {
+                throw new CommandException("Ids property not found in RestoreFromRecycleBin message.");
+            }
+
+            var ids = idsElement.EnumerateArray().Select(idElement => idElement.GetString()!).ToList();
+            var (restoredIds, failedIds) = await RecycleBinService.Restore(ids);
+
+            if (restoredIds.Count == 0 && failedIds.Count > 0)
+            {
+                throw new CommandException(failedIds.Count == 1
+                    ? "The selected video could not be restored."
+                    : $"None of the {failedIds.Count} selected videos could be restored.");
+            }
+
+            return new { restoredIds, failedIds };
+        }
+
+        public static async Task<object> HandleDeleteFromRecycleBin(JsonElement message)
+        {
+            Log.Information($"Handling DeleteFromRecycleBin with message: {message}");
+
+            if (!message.TryGetProperty("Ids", out JsonElement idsElement))
+            {
+                throw new CommandException("Ids property not found in DeleteFromRecycleBin message.");
+            }
+
+            var ids = idsElement.EnumerateArray().Select(idElement => idElement.GetString()!).ToList();
+            var failedIds = await RecycleBinService.Purge(ids);
+
+            if (failedIds.Count == ids.Count && failedIds.Count > 0)
+            {
+                throw new CommandException(failedIds.Count == 1
+                    ? "The selected video could not be deleted. It may be open in another program."
+                    : $"None of the {failedIds.Count} selected videos could be deleted.");
+            }
+
+            return new { failedIds };
         }
 
         public static async Task StartWebsocket()
@@ -484,6 +688,48 @@ namespace Segra.Backend.App
             }
         }
 
+        private const int BinaryHeaderSize = 6;
+
+        /// <summary>
+        /// Sends a binary frame for high-rate payloads such as preview frames, skipping JSON and base64.
+        /// Layout (little-endian): kind (byte), reserved (byte), width (uint16), height (uint16), payload.
+        /// Decoded by Frontend/src/Utils/BinaryMessages.ts. Unlike SendFrontendMessage this doesn't
+        /// wait for a connection; a stale frame is worthless, so it is dropped instead.
+        /// </summary>
+        public static async Task SendFrontendBinary(BinaryMessageKind kind, int width, int height, ReadOnlyMemory<byte> payload)
+        {
+            if (activeWebSocket?.State != WebSocketState.Open)
+                return;
+
+            byte[] buffer = new byte[BinaryHeaderSize + payload.Length];
+            buffer[0] = (byte)kind;
+            BinaryPrimitives.WriteUInt16LittleEndian(buffer.AsSpan(2), (ushort)width);
+            BinaryPrimitives.WriteUInt16LittleEndian(buffer.AsSpan(4), (ushort)height);
+            payload.Span.CopyTo(buffer.AsSpan(BinaryHeaderSize));
+
+            await sendLock.WaitAsync();
+            try
+            {
+                if (activeWebSocket?.State == WebSocketState.Open)
+                {
+                    await activeWebSocket.SendAsync(
+                        buffer,
+                        WebSocketMessageType.Binary,
+                        endOfMessage: true,
+                        cancellationToken: CancellationToken.None
+                    );
+                }
+            }
+            catch (Exception ex)
+            {
+                Log.Error($"Error sending binary message: {ex.Message}");
+            }
+            finally
+            {
+                sendLock.Release();
+            }
+        }
+
         public static async Task ShowModal(string title, string description, string type = "info", string? subtitle = null)
         {
             if (type != "info" && type != "warning" && type != "error")
@@ -522,6 +768,16 @@ namespace Segra.Backend.App
             await SendFrontendMessage("State", AppState.Instance);
         }
 
+        // Content isn't part of State; changes to it go out as a delta. Anything that changes the
+        // library calls this instead of SendStateToFrontend, so State pushes never diff the library.
+        public static async Task SendContentChangesToFrontend(string cause)
+        {
+            if (!Program.hasLoadedInitialSettings || Settings.Instance._isBulkUpdating)
+                return;
+
+            await ContentSyncService.SendChanges(cause);
+        }
+
         public static async Task SendGameList()
         {
             try
@@ -544,28 +800,27 @@ namespace Segra.Backend.App
             await AiService.CreateHighlight(idElement.GetString()!);
         }
 
-        private static async Task HandleCompressVideo(JsonElement message)
+        // Resolves once the compression has been accepted; progress and the final outcome
+        // arrive as CompressionProgress messages.
+        private static Task HandleCompressVideo(JsonElement message)
         {
             Log.Information($"CompressVideo: {message}");
 
-            if (message.TryGetProperty("Id", out JsonElement idElement))
+            if (!message.TryGetProperty("Id", out JsonElement idElement))
             {
-                string id = idElement.GetString()!;
-                Content? content = AppState.Instance.Content.FirstOrDefault(c => c.Id == id);
-
-                if (content != null)
-                {
-                    await CompressionService.CompressVideo(content);
-                }
-                else
-                {
-                    Log.Warning($"Content not found in state for compression: {id}");
-                }
+                throw new CommandException("Id property not found in CompressVideo message.");
             }
-            else
+
+            string id = idElement.GetString()!;
+            Content? content = AppState.Instance.Content.FirstOrDefault(c => c.Id == id);
+
+            if (content == null)
             {
-                Log.Error("Id property not found in CompressVideo message.");
+                throw new CommandException("This video no longer exists.");
             }
+
+            _ = Task.Run(() => CompressionService.CompressVideo(content));
+            return Task.CompletedTask;
         }
 
         private static async Task HandleCreateClip(JsonElement message)
@@ -10,6 +10,7 @@ using System.Drawing;
 using Segra.Backend.Shared;
 using Segra.Backend.Platform;
 using Segra.Backend.Recorder;
+using Segra.Backend.Media;
 using Segra.Backend.Core.Models;
 using Segra.Backend.Windows.Storage;
 using System.Reflection;
@@ -279,6 +280,7 @@ namespace Segra.Backend.App
                 // Start WebSocket and Load Settings
                 Task.Run(MessageService.StartWebsocket);
                 Task.Run(StorageService.EnsureStorageBelowLimit);
+                RecycleBinService.StartPurgeTimer();
 
                 // Check for updates
                 Task.Run(() => UpdateService.UpdateAppIfNecessary(forceCheck: true));
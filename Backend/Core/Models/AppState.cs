@@ -28,6 +28,8 @@ namespace Segra.Backend.Core.Models
         private double _currentFolderSizeGb = 0;
         private double? _recordingDriveUsedGb = null;
         private double? _recordingDriveFreeGb = null;
+        private List<RecycleBinItem> _recycleBin = [];
+        private double _recycleBinSizeGb = 0;
 
         private IPlatformWatcher? _deviceWatcher;
         private IPlatformWatcher? _displayWatcher;
@@ -103,7 +105,8 @@ namespace Segra.Backend.Core.Models
             }
         }
 
-        [JsonPropertyName("content")]
+        // Sent separately by ContentSyncService, as a snapshot and then deltas.
+        [JsonIgnore]
         public List<Content> Content
         {
             get => _content;
@@ -112,7 +115,7 @@ namespace Segra.Backend.Core.Models
                 if (_content != value)
                 {
                     _content = value;
-                    SendToFrontend("State update: Content");
+                    SendContentToFrontend("Content");
                 }
             }
         }
@@ -258,6 +261,23 @@ namespace Segra.Backend.Core.Models
             }
         }
 
+        // Deleted videos, newest first. Not counted in CurrentFolderSizeGb.
+        [JsonPropertyName("recycleBin")]
+        public List<RecycleBinItem> RecycleBin => _recycleBin;
+
+        [JsonPropertyName("recycleBinSizeGb")]
+        public double RecycleBinSizeGb => _recycleBinSizeGb;
+
+        public void SetRecycleBin(List<RecycleBinItem> items, double sizeGb, bool sendToFrontend)
+        {
+            _recycleBin = items;
+            _recycleBinSizeGb = sizeGb;
+            if (sendToFrontend)
+            {
+                SendToFrontend("State update: RecycleBin");
+            }
+        }
+
         // Cache folder path for metadata, thumbnails, waveforms (read-only, exposed to frontend)
         [JsonPropertyName("cacheFolder")]
         public string CacheFolder => FolderNames.CacheFolder.Replace("\\", "/");
@@ -314,7 +334,7 @@ namespace Segra.Backend.Core.Models
 
         public void NotifyContentUpdated()
         {
-            SendToFrontend("State update: Content updated");
+            SendContentToFrontend("Content updated");
         }
 
         public void SetContent(List<Content> contents, bool sendToFrontend)
@@ -322,7 +342,7 @@ namespace Segra.Backend.Core.Models
             _content = contents;
             if (sendToFrontend)
             {
-                SendToFrontend("State update: Content");
+                SendContentToFrontend("Content");
             }
         }
 
@@ -354,6 +374,14 @@ namespace Segra.Backend.Core.Models
             }
         }
 
+        private static void SendContentToFrontend(string cause)
+        {
+            if (Settings.Instance != null && !Settings.Instance._isBulkUpdating)
+            {
+                _ = MessageService.SendContentChangesToFrontend(cause);
+            }
+        }
+
         private void OnAudioDevicesChanged()
         {
             _audioDeviceDebounceTimer?.Dispose();
@@ -0,0 +1,25 @@
+using System.Text.Json.Serialization;
+
+namespace Segra.Backend.Core.Models
+{
+    /// <summary>
+    /// A deleted video waiting in the recycle bin. Saved as entry.json in the item's bin folder,
+    /// next to the video, with the metadata it had, so restoring puts everything back as it was.
+    /// </summary>
+    internal class RecycleBinItem
+    {
+        // Content.FilePath keeps where the video was, to restore it to.
+        [JsonPropertyName("content")]
+        public required Content Content { get; set; }
+
+        [JsonPropertyName("deletedAt")]
+        public DateTime DeletedAt { get; set; }
+
+        // Where the video is while it's in the bin. Set when the bin is read.
+        [JsonPropertyName("filePath")]
+        public string FilePath { get; set; } = string.Empty;
+
+        [JsonPropertyName("thumbnailPath")]
+        public string? ThumbnailPath { get; set; }
+    }
+}
@@ -15,6 +15,8 @@ namespace Segra.Backend.Core.Models
             "Replay Buffer",
             "Clips",
             "Highlights",
+            "Stats",
+            "Recycle Bin",
             "Settings"
         };
 
@@ -81,6 +83,7 @@ namespace Segra.Backend.Core.Models
         private string _videoQualityPreset = "high";
         private string _clipQualityPreset = "standard";
         private bool _confirmBeforeDeleting = false;
+        private int _recycleBinRetentionDays = 30;
         private bool _removeOriginalAfterCompression = false;
         private bool _discardSessionsWithoutBookmarks = false;
         private GameIntegrations _gameIntegrations = new GameIntegrations();
@@ -89,6 +92,7 @@ namespace Segra.Backend.Core.Models
             .Select(id => new MenuItemPreference { Id = id, Visible = true })
             .ToList();
         private string _defaultMenuItem = "Full Sessions";
+        private List<SavedSearch> _savedSearches = new List<SavedSearch>();
 
         private static List<Keybind> GetDefaultKeybindings()
         {
@@ -862,6 +866,17 @@ namespace Segra.Backend.Core.Models
             }
         }
 
+        // Deleted videos are purged from the recycle bin this many days after they were deleted
+        [JsonPropertyName("recycleBinRetentionDays")]
+        public int RecycleBinRetentionDays
+        {
+            get => _recycleBinRetentionDays;
+            set
+            {
+                _recycleBinRetentionDays = Math.Clamp(value, 1, 365);
+            }
+        }
+
         [JsonPropertyName("removeOriginalAfterCompression")]
         public bool RemoveOriginalAfterCompression
         {
@@ -969,6 +984,21 @@ namespace Segra.Backend.Core.Models
             }
         }
 
+        [JsonPropertyName("savedSearches")]
+        public List<SavedSearch> SavedSearches
+        {
+            get => _savedSearches;
+            set
+            {
+                // Drop nameless entries and repeated ids; the frontend owns the rest of the shape
+                var seen = new HashSet<string>();
+                _savedSearches = (value ?? new List<SavedSearch>())
+                    .Where(search => search != null && !string.IsNullOrEmpty(search.Id) && !string.IsNullOrWhiteSpace(search.Name))
+                    .Where(search => seen.Add(search.Id))
+                    .ToList();
+            }
+        }
+
         [JsonPropertyName("keybindings")]
         public List<Keybind> Keybindings
         {
@@ -998,6 +1028,37 @@ namespace Segra.Backend.Core.Models
         public bool Visible { get; set; } = true;
     }
 
+    /// <summary>
+    /// A named search and filter view shown in the sidebar. Created and applied by the frontend;
+    /// the backend only stores it with the other settings.
+    /// </summary>
+    public class SavedSearch
+    {
+        [JsonPropertyName("id")]
+        public required string Id { get; set; }
+
+        [JsonPropertyName("name")]
+        public required string Name { get; set; }
+
+        [JsonPropertyName("contentType")]
+        public string ContentType { get; set; } = "Session";
+
+        [JsonPropertyName("query")]
+        public string Query { get; set; } = "";
+
+        [JsonPropertyName("games")]
+        public List<string> Games { get; set; } = new();
+
+        [JsonPropertyName("facets")]
+        public Dictionary<string, List<string>> Facets { get; set; } = new();
+
+        [JsonPropertyName("sort")]
+        public string Sort { get; set; } = "newest";
+
+        [JsonPropertyName("visible")]
+        public bool Visible { get; set; } = true;
+    }
+
     public class DeviceSetting
     {
         [JsonPropertyName("id")]
@@ -1194,6 +1255,35 @@ namespace Segra.Backend.Core.Models
         public bool IsImported { get; set; } = false;
 
         public bool Compressed { get; set; } = false;
+
+        // Starred by the user. Favorites are never deleted to stay under the storage limit.
+        public bool IsFavorite { get; set; } = false;
+
+        // Free-form user labels such as "tournament" or "for-edit". Stored normalized, so tags
+        // that differ only in case or spacing are the same tag.
+        private List<string> _tags = new List<string>();
+        public List<string> Tags
+        {
+            get => _tags;
+            set => _tags = NormalizeTags(value);
+        }
+
+        public const int MaxTagLength = 32;
+
+        public static string NormalizeTag(string? tag)
+        {
+            if (string.IsNullOrWhiteSpace(tag))
+                return string.Empty;
+
+            string normalized = string.Join(' ', tag.Replace(",", " ").Split(' ', StringSplitOptions.RemoveEmptyEntries | StringSplitOptions.TrimEntries))
+                .ToLowerInvariant();
+            return normalized.Length > MaxTagLength ? normalized[..MaxTagLength].TrimEnd() : normalized;
+        }
+
+        public static List<string> NormalizeTags(IEnumerable<string>? tags)
+        {
+            return (tags ?? []).Select(NormalizeTag).Where(t => t.Length > 0).Distinct().ToList();
+        }
     }
 
     internal class AudioDevice : IEquatable<AudioDevice>
@@ -350,6 +350,13 @@ namespace Segra.Backend.Core
                 hasChanges = true;
             }
 
+            if (settings.RecycleBinRetentionDays != updatedSettings.RecycleBinRetentionDays)
+            {
+                Log.Information($"RecycleBinRetentionDays changed from '{settings.RecycleBinRetentionDays}' to '{updatedSettings.RecycleBinRetentionDays}'");
+                settings.RecycleBinRetentionDays = updatedSettings.RecycleBinRetentionDays;
+                hasChanges = true;
+            }
+
             if (settings.RemoveOriginalAfterCompression != updatedSettings.RemoveOriginalAfterCompression)
             {
                 Log.Information($"RemoveOriginalAfterCompression changed from '{settings.RemoveOriginalAfterCompression}' to '{updatedSettings.RemoveOriginalAfterCompression}'");
@@ -761,6 +768,14 @@ namespace Segra.Backend.Core
                 }
             }
 
+            if (updatedSettings.SavedSearches != null &&
+                JsonSerializer.Serialize(settings.SavedSearches) != JsonSerializer.Serialize(updatedSettings.SavedSearches))
+            {
+                Log.Information($"SavedSearches changed ({updatedSettings.SavedSearches.Count} saved)");
+                settings.SavedSearches = updatedSettings.SavedSearches;
+                hasChanges = true;
+            }
+
             if (!string.IsNullOrEmpty(updatedSettings.DefaultMenuItem) && settings.DefaultMenuItem != updatedSettings.DefaultMenuItem)
             {
                 Log.Information($"DefaultMenuItem changed from '{settings.DefaultMenuItem}' to '{updatedSettings.DefaultMenuItem}'");
@@ -874,6 +889,7 @@ namespace Segra.Backend.Core
 
             // Honor sendToFrontend so a silent reload doesn't leak a state send via the folder size.
             Windows.Storage.StorageService.UpdateFolderSizeInState(sendToFrontend);
+            RecycleBinService.UpdateState(sendToFrontend);
         }
 
         public static void GetPrimaryMonitorResolution(out uint boundsWidth, out uint boundsHeight)
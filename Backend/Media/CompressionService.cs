@@ -115,13 +115,25 @@ namespace Segra.Backend.Media
             }
         }
 
+        // Compressions run one at a time, so compressing a multi-selection doesn't start an ffmpeg
+        // process per video. Waiting ones report a "queued" status.
+        private static readonly SemaphoreSlim _compressionQueue = new(1, 1);
+
         public static async Task CompressVideo(Content originalContent)
         {
             int processId = Guid.NewGuid().GetHashCode();
             string filePath = originalContent.FilePath;
+            bool acquired = false;
 
             try
             {
+                if (_compressionQueue.CurrentCount == 0)
+                {
+                    await MessageService.SendFrontendMessage("CompressionProgress", new { filePath, progress = 0, status = "queued" });
+                }
+                await _compressionQueue.WaitAsync();
+                acquired = true;
+
                 if (!File.Exists(filePath))
                 {
                     Log.Error($"File not found for compression: {filePath}");
@@ -200,6 +212,10 @@ namespace Segra.Backend.Media
                 Log.Error(ex, $"Error compressing video: {filePath}");
                 await MessageService.SendFrontendMessage("CompressionProgress", new { filePath, progress = -1, status = "error", message = ex.Message });
             }
+            finally
+            {
+                if (acquired) _compressionQueue.Release();
+            }
         }
 
         // Keeps the original name when it's free, otherwise appends " (1)", " (2)", ...
@@ -496,14 +496,17 @@ namespace Segra.Backend.Media
             }
         }
 
-        public static async Task DeleteContent(string filePath, Content.ContentType type, string? id, bool sendToFrontend = true)
+        /// <summary>
+        /// Deletes a video and its metadata, thumbnail and waveform. Returns false if the video file could not be removed.
+        /// </summary>
+        public static async Task<bool> DeleteContent(string filePath, Content.ContentType type, string? id, bool sendToFrontend = true)
         {
             try
             {
                 if (string.IsNullOrWhiteSpace(filePath))
                 {
                     Log.Warning("DeleteClip called with an invalid file path.");
-                    return;
+                    return false;
                 }
 
                 string normalizedFilePath = PathUtils.Normalize(Path.GetFullPath(filePath));
@@ -528,29 +531,7 @@ namespace Segra.Backend.Media
                         }
                     }
 
-                    if (!string.IsNullOrEmpty(videoDirectory) && Directory.Exists(videoDirectory))
-                    {
-                        try
-                        {
-                            // Only delete if the folder is empty and is a game subfolder (not the root video type folder)
-                            string contentRoot = Settings.Instance.ContentFolder;
-                            string normalizedVideoDirectory = PathUtils.Normalize(videoDirectory);
-                            string[] rootFolders = { FolderNames.Sessions, FolderNames.Buffers, FolderNames.Clips, FolderNames.Highlights };
-                            bool isGameSubfolder = rootFolders.Any(rf =>
-                                normalizedVideoDirectory.StartsWith(PathUtils.Combine(contentRoot, rf), StringComparison.OrdinalIgnoreCase) &&
-                                !normalizedVideoDirectory.Equals(PathUtils.Combine(contentRoot, rf), StringComparison.OrdinalIgnoreCase));
-
-                            if (isGameSubfolder && !Directory.EnumerateFileSystemEntries(videoDirectory).Any())
-                            {
-                                Directory.Delete(videoDirectory);
-                                Log.Information($"Deleted empty game folder: {videoDirectory}");
-                            }
-                        }
-                        catch (Exception ex)
-                        {
-                            Log.Warning($"Failed to clean up empty game folder: {ex.Message}");
-                        }
-                    }
+                    DeleteEmptyGameFolder(videoDirectory);
                 }
                 else
                 {
@@ -560,7 +541,7 @@ namespace Segra.Backend.Media
                 if (string.IsNullOrEmpty(id))
                 {
                     Log.Warning($"No content id for {normalizedFilePath}, leaving metadata, thumbnail and waveform in place");
-                    return;
+                    return true;
                 }
 
                 string metadataFilePath = FolderNames.GetMetadataFilePath(type, id);
@@ -595,18 +576,23 @@ namespace Segra.Backend.Media
                 {
                     Log.Warning($"Waveform file not found: {waveformFilePath}");
                 }
+
+                return true;
             }
             catch (UnauthorizedAccessException ex)
             {
                 Log.Error($"Access denied while deleting files: {ex.Message}");
+                return false;
             }
             catch (IOException ex)
             {
                 Log.Error($"I/O error while deleting files: {ex.Message}");
+                return false;
             }
             catch (Exception ex)
             {
                 Log.Error($"Unexpected error while deleting clip: {ex.Message}");
+                return false;
             }
             finally
             {
@@ -614,6 +600,38 @@ namespace Segra.Backend.Media
             }
         }
 
+        /// <summary>
+        /// Removes a game subfolder (e.g. "Clips/PUBG") once its last video has been moved or deleted.
+        /// </summary>
+        public static void DeleteEmptyGameFolder(string? videoDirectory)
+        {
+            if (string.IsNullOrEmpty(videoDirectory) || !Directory.Exists(videoDirectory))
+            {
+                return;
+            }
+
+            try
+            {
+                // Only delete if the folder is empty and is a game subfolder (not the root video type folder)
+                string contentRoot = Settings.Instance.ContentFolder;
+                string normalizedVideoDirectory = PathUtils.Normalize(videoDirectory);
+                string[] rootFolders = { FolderNames.Sessions, FolderNames.Buffers, FolderNames.Clips, FolderNames.Highlights };
+                bool isGameSubfolder = rootFolders.Any(rf =>
+                    normalizedVideoDirectory.StartsWith(PathUtils.Combine(contentRoot, rf), StringComparison.OrdinalIgnoreCase) &&
+                    !normalizedVideoDirectory.Equals(PathUtils.Combine(contentRoot, rf), StringComparison.OrdinalIgnoreCase));
+
+                if (isGameSubfolder && !Directory.EnumerateFileSystemEntries(videoDirectory).Any())
+                {
+                    Directory.Delete(videoDirectory);
+                    Log.Information($"Deleted empty game folder: {videoDirectory}");
+                }
+            }
+            catch (Exception ex)
+            {
+                Log.Warning($"Failed to clean up empty game folder: {ex.Message}");
+            }
+        }
+
         public static (string displaySize, long sizeKb) GetFileSize(string filePath)
         {
             try
@@ -639,7 +657,7 @@ namespace Segra.Backend.Media
             }
         }
 
-        public static async Task HandleAddBookmark(JsonElement message)
+        public static async Task<Bookmark> HandleAddBookmark(JsonElement message)
         {
             try
             {
@@ -655,8 +673,7 @@ namespace Segra.Backend.Media
 
                     if (string.IsNullOrEmpty(contentId) || string.IsNullOrEmpty(timeString))
                     {
-                        Log.Error("Required parameters are null or empty in AddBookmark message");
-                        return;
+                        throw new CommandException("Required parameters are null or empty in AddBookmark message.");
                     }
 
                     BookmarkType bookmarkType = BookmarkType.Manual;
@@ -669,16 +686,24 @@ namespace Segra.Backend.Media
 
                     if (contentItem == null)
                     {
-                        Log.Error($"Content item not found for {contentId}");
-                        return;
+                        throw new CommandException("This video no longer exists.");
                     }
 
                     string metadataFilePath = FolderNames.GetMetadataFilePath(contentItem.Type, contentItem.Id);
 
+                    // Only sent when undoing a delete, to put the bookmark back as it was
+                    BookmarkSubtype? subtype = null;
+                    if (message.TryGetProperty("Subtype", out JsonElement subtypeElement) &&
+                        Enum.TryParse<BookmarkSubtype>(subtypeElement.GetString(), out var parsedSubtype))
+                    {
+                        subtype = parsedSubtype;
+                    }
+
                     var bookmark = new Bookmark
                     {
                         Id = bookmarkId,
                         Type = bookmarkType,
+                        Subtype = subtype,
                         Time = TimeSpan.Parse(timeString)
                     };
 
@@ -690,22 +715,24 @@ namespace Segra.Backend.Media
 
                     if (content == null)
                     {
-                        return;
+                        throw new CommandException("Could not save the bookmark to the video's metadata.");
                     }
 
                     contentItem.AddBookmark(bookmark);
 
-                    await MessageService.SendStateToFrontend("Added bookmark");
+                    await MessageService.SendContentChangesToFrontend("Added bookmark");
                     Log.Information($"Added bookmark of type {bookmarkType} at {timeString} to {metadataFilePath}");
+                    return bookmark;
                 }
                 else
                 {
-                    Log.Error("Required properties missing in AddBookmark message.");
+                    throw new CommandException("Required properties missing in AddBookmark message.");
                 }
             }
-            catch (Exception ex)
+            catch (Exception ex) when (ex is not CommandException)
             {
                 Log.Error($"Error handling AddBookmark: {ex.Message}");
+                throw;
             }
         }
 
@@ -721,16 +748,14 @@ namespace Segra.Backend.Media
 
                     if (string.IsNullOrEmpty(contentId))
                     {
-                        Log.Error("Required parameters are null or empty in DeleteBookmark message");
-                        return;
+                        throw new CommandException("Required parameters are null or empty in DeleteBookmark message.");
                     }
 
                     var contentItem = AppState.Instance.Content.FirstOrDefault(c => c.Id == contentId);
 
                     if (contentItem == null)
                     {
-                        Log.Error($"Content item not found for {contentId}");
-                        return;
+                        throw new CommandException("This video no longer exists.");
                     }
 
                     string metadataFilePath = FolderNames.GetMetadataFilePath(contentItem.Type, contentItem.Id);
@@ -745,7 +770,7 @@ namespace Segra.Backend.Media
 
                     if (content == null)
                     {
-                        return;
+                        throw new CommandException("Could not remove the bookmark from the video's metadata.");
                     }
 
                     if (contentItem.Bookmarks != null)
@@ -753,21 +778,22 @@ namespace Segra.Backend.Media
                         contentItem.Bookmarks = contentItem.Bookmarks.Where(b => b.Id != bookmarkId).ToList();
                     }
 
-                    await MessageService.SendStateToFrontend("Deleted bookmark");
+                    await MessageService.SendContentChangesToFrontend("Deleted bookmark");
                     Log.Information($"Deleted bookmark with id {bookmarkId} from {metadataFilePath}");
                 }
                 else
                 {
-                    Log.Error("Required properties missing in DeleteBookmark message.");
+                    throw new CommandException("Required properties missing in DeleteBookmark message.");
                 }
             }
-            catch (Exception ex)
+            catch (Exception ex) when (ex is not CommandException)
             {
                 Log.Error($"Error handling DeleteBookmark: {ex.Message}");
+                throw;
             }
         }
 
-        public static async Task HandleRenameContent(JsonElement message)
+        public static async Task<Content> HandleRenameContent(JsonElement message)
         {
             try
             {
@@ -782,24 +808,21 @@ namespace Segra.Backend.Media
                     Content? contentItem = AppState.Instance.Content.FirstOrDefault(c => c.Id == id);
                     if (contentItem == null)
                     {
-                        Log.Error($"Content not found in state for rename: {id}");
-                        return;
+                        throw new CommandException("This video no longer exists.");
                     }
 
                     string metadataFilePath = FolderNames.GetMetadataFilePath(contentItem.Type, id);
 
                     if (!File.Exists(metadataFilePath))
                     {
-                        Log.Error($"Metadata file not found: {metadataFilePath}");
-                        return;
+                        throw new CommandException($"Metadata file not found: {metadataFilePath}");
                     }
 
                     string metadataJson = await File.ReadAllTextAsync(metadataFilePath);
                     var currentContent = JsonSerializer.Deserialize<Content>(metadataJson);
                     if (currentContent == null)
                     {
-                        Log.Error($"Failed to deserialize metadata: {metadataFilePath}");
-                        return;
+                        throw new CommandException($"Failed to read metadata: {metadataFilePath}");
                     }
 
                     string newFileName = currentContent.FileName;
@@ -845,17 +868,286 @@ namespace Segra.Backend.Media
 
                     Log.Information($"Updated title for {id} to '{newTitle}'");
                     await SettingsService.LoadContentFromFolderIntoState(true);
-                    await MessageService.SendStateToFrontend("Renamed content");
+                    await MessageService.SendContentChangesToFrontend("Renamed content");
+                    return currentContent;
                 }
                 else
                 {
-                    Log.Error("Id or Title property not found in RenameContent message.");
+                    throw new CommandException("Id or Title property not found in RenameContent message.");
                 }
             }
-            catch (Exception ex)
+            catch (Exception ex) when (ex is not CommandException)
             {
                 Log.Error($"Error handling RenameContent: {ex.Message}");
+                throw;
+            }
+        }
+
+        public static async Task HandleSetContentTags(JsonElement message)
+        {
+            try
+            {
+                Log.Information($"Handling SetContentTags with message: {message}");
+
+                if (!message.TryGetProperty("Ids", out JsonElement idsElement))
+                {
+                    throw new CommandException("Ids property not found in SetContentTags message.");
+                }
+
+                List<string> ids = idsElement.EnumerateArray().Select(id => id.GetString()!).ToList();
+                List<string> add = ReadTags(message, "Add");
+                HashSet<string> remove = ReadTags(message, "Remove").ToHashSet();
+
+                int failedCount = 0;
+                foreach (string id in ids)
+                {
+                    Content? contentItem = AppState.Instance.Content.FirstOrDefault(c => c.Id == id);
+                    if (contentItem == null || !await UpdateContentTags(contentItem, tags => tags.Where(t => !remove.Contains(t)).Concat(add)))
+                    {
+                        failedCount++;
+                    }
+                }
+
+                if (failedCount > 0 && failedCount == ids.Count)
+                {
+                    throw new CommandException(ids.Count == 1
+                        ? "This video no longer exists."
+                        : $"None of the {ids.Count} selected videos could be tagged.");
+                }
+
+                await MessageService.SendContentChangesToFrontend("Updated tags");
+                Log.Information($"Updated tags on {ids.Count - failedCount} of {ids.Count} videos");
+            }
+            catch (Exception ex) when (ex is not CommandException)
+            {
+                Log.Error($"Error handling SetContentTags: {ex.Message}");
+                throw;
+            }
+        }
+
+        public static async Task HandleSetFavorite(JsonElement message)
+        {
+            try
+            {
+                Log.Information($"Handling SetFavorite with message: {message}");
+
+                if (message.TryGetProperty("Ids", out JsonElement idsElement) &&
+                    message.TryGetProperty("Favorite", out JsonElement favoriteElement))
+                {
+                    List<string> ids = idsElement.EnumerateArray().Select(id => id.GetString()!).ToList();
+                    bool favorite = favoriteElement.GetBoolean();
+
+                    int failedCount = 0;
+                    foreach (string id in ids)
+                    {
+                        Content? contentItem = AppState.Instance.Content.FirstOrDefault(c => c.Id == id);
+                        if (contentItem == null)
+                        {
+                            failedCount++;
+                            continue;
+                        }
+
+                        string metadataFilePath = FolderNames.GetMetadataFilePath(contentItem.Type, contentItem.Id);
+                        if (await UpdateMetadataFile(metadataFilePath, c => c.IsFavorite = favorite) == null)
+                        {
+                            failedCount++;
+                            continue;
+                        }
+                        contentItem.IsFavorite = favorite;
+                    }
+
+                    if (failedCount > 0 && failedCount == ids.Count)
+                    {
+                        throw new CommandException(ids.Count == 1
+                            ? "This video no longer exists."
+                            : $"None of the {ids.Count} selected videos could be updated.");
+                    }
+
+                    await MessageService.SendContentChangesToFrontend(favorite ? "Added favorites" : "Removed favorites");
+                    Log.Information($"Set favorite to {favorite} on {ids.Count - failedCount} of {ids.Count} videos");
+                }
+                else
+                {
+                    throw new CommandException("Ids or Favorite property not found in SetFavorite message.");
+                }
+            }
+            catch (Exception ex) when (ex is not CommandException)
+            {
+                Log.Error($"Error handling SetFavorite: {ex.Message}");
+                throw;
+            }
+        }
+
+        // Moves videos to another game, e.g. when detection picked the wrong one. IgdbId is the
+        // catalog id of the new game, or absent for a custom game.
+        public static async Task HandleSetContentGame(JsonElement message)
+        {
+            try
+            {
+                Log.Information($"Handling SetContentGame with message: {message}");
+
+                if (message.TryGetProperty("Ids", out JsonElement idsElement) &&
+                    message.TryGetProperty("Game", out JsonElement gameElement))
+                {
+                    List<string> ids = idsElement.EnumerateArray().Select(id => id.GetString()!).ToList();
+                    string game = gameElement.GetString()!.Trim();
+                    int? igdbId = message.TryGetProperty("IgdbId", out JsonElement igdbIdElement) &&
+                                  igdbIdElement.ValueKind == JsonValueKind.Number
+                        ? igdbIdElement.GetInt32()
+                        : null;
+
+                    if (string.IsNullOrEmpty(game))
+                    {
+                        throw new CommandException("The game name can't be empty.");
+                    }
+
+                    int failedCount = 0;
+                    foreach (string id in ids)
+                    {
+                        Content? contentItem = AppState.Instance.Content.FirstOrDefault(c => c.Id == id);
+                        if (contentItem == null)
+                        {
+                            failedCount++;
+                            continue;
+                        }
+
+                        string metadataFilePath = FolderNames.GetMetadataFilePath(contentItem.Type, contentItem.Id);
+                        var updated = await UpdateMetadataFile(metadataFilePath, c =>
+                        {
+                            c.Game = game;
+                            c.IgdbId = igdbId;
+                        });
+                        if (updated == null)
+                        {
+                            failedCount++;
+                            continue;
+                        }
+                        contentItem.Game = game;
+                        contentItem.IgdbId = igdbId;
+                    }
+
+                    if (failedCount > 0 && failedCount == ids.Count)
+                    {
+                        throw new CommandException(ids.Count == 1
+                            ? "This video no longer exists."
+                            : $"None of the {ids.Count} selected videos could be updated.");
+                    }
+
+                    await MessageService.SendContentChangesToFrontend("Changed game");
+                    Log.Information($"Set game to {game} on {ids.Count - failedCount} of {ids.Count} videos");
+                }
+                else
+                {
+                    throw new CommandException("Ids or Game property not found in SetContentGame message.");
+                }
             }
+            catch (Exception ex) when (ex is not CommandException)
+            {
+                Log.Error($"Error handling SetContentGame: {ex.Message}");
+                throw;
+            }
+        }
+
+        // Renames a tag on every video that has it. Renaming onto a tag that already exists merges the two.
+        public static async Task HandleRenameTag(JsonElement message)
+        {
+            try
+            {
+                Log.Information($"Handling RenameTag with message: {message}");
+
+                if (message.TryGetProperty("From", out JsonElement fromElement) &&
+                    message.TryGetProperty("To", out JsonElement toElement))
+                {
+                    string from = Content.NormalizeTag(fromElement.GetString());
+                    string to = Content.NormalizeTag(toElement.GetString());
+
+                    if (from.Length == 0 || to.Length == 0)
+                    {
+                        throw new CommandException("Tag names can't be empty.");
+                    }
+
+                    await UpdateTagAcrossLibrary(from, tags => tags.Select(t => t == from ? to : t), "Renamed tag");
+                    Log.Information($"Renamed tag '{from}' to '{to}'");
+                }
+                else
+                {
+                    throw new CommandException("From or To property not found in RenameTag message.");
+                }
+            }
+            catch (Exception ex) when (ex is not CommandException)
+            {
+                Log.Error($"Error handling RenameTag: {ex.Message}");
+                throw;
+            }
+        }
+
+        public static async Task HandleDeleteTag(JsonElement message)
+        {
+            try
+            {
+                Log.Information($"Handling DeleteTag with message: {message}");
+
+                if (message.TryGetProperty("Tag", out JsonElement tagElement))
+                {
+                    string tag = Content.NormalizeTag(tagElement.GetString());
+                    await UpdateTagAcrossLibrary(tag, tags => tags.Where(t => t != tag), "Deleted tag");
+                    Log.Information($"Deleted tag '{tag}'");
+                }
+                else
+                {
+                    throw new CommandException("Tag property not found in DeleteTag message.");
+                }
+            }
+            catch (Exception ex) when (ex is not CommandException)
+            {
+                Log.Error($"Error handling DeleteTag: {ex.Message}");
+                throw;
+            }
+        }
+
+        private static List<string> ReadTags(JsonElement message, string property)
+        {
+            if (!message.TryGetProperty(property, out JsonElement tagsElement) || tagsElement.ValueKind != JsonValueKind.Array)
+            {
+                return [];
+            }
+            return Content.NormalizeTags(tagsElement.EnumerateArray().Select(t => t.GetString() ?? string.Empty));
+        }
+
+        // Rewrites the tags of every video carrying `tag`. Videos that were updated are sent to the
+        // frontend even when others failed.
+        private static async Task UpdateTagAcrossLibrary(string tag, Func<List<string>, IEnumerable<string>> update, string cause)
+        {
+            var tagged = AppState.Instance.Content.Where(c => c.Tags.Contains(tag)).ToList();
+            int updatedCount = 0;
+            foreach (var contentItem in tagged)
+            {
+                if (await UpdateContentTags(contentItem, update))
+                {
+                    updatedCount++;
+                }
+            }
+
+            await MessageService.SendContentChangesToFrontend(cause);
+
+            if (updatedCount < tagged.Count)
+            {
+                throw new CommandException($"Could not update {tagged.Count - updatedCount} of {tagged.Count} videos tagged '{tag}'.");
+            }
+        }
+
+        // Applies the change to the metadata file, then mirrors the result in memory.
+        private static async Task<bool> UpdateContentTags(Content contentItem, Func<List<string>, IEnumerable<string>> update)
+        {
+            string metadataFilePath = FolderNames.GetMetadataFilePath(contentItem.Type, contentItem.Id);
+            var content = await UpdateMetadataFile(metadataFilePath, c => c.Tags = update(c.Tags).ToList());
+            if (content == null)
+            {
+                return false;
+            }
+
+            contentItem.Tags = content.Tags;
+            return true;
         }
 
         private static string SanitizeFileName(string title)
@@ -109,10 +109,10 @@ namespace Segra.Backend.Media
                 progressCallback?.Invoke(98, "Creating waveform...");
                 await ContentService.CreateWaveformFile(outputFilePath, Content.ContentType.Highlight, highlightId);
 
-                // Load silently then await the state send before "Done" removes the loading card, so the
+                // Load silently then await the content send before "Done" removes the loading card, so the
                 // highlight is on screen first (avoids a skeleton-removed-before-content flicker).
                 await SettingsService.LoadContentFromFolderIntoState(sendToFrontend: false);
-                await MessageService.SendStateToFrontend("Highlight created");
+                await MessageService.SendContentChangesToFrontend("Highlight created");
 
                 progressCallback?.Invoke(100, "Done");
                 Log.Information($"Highlight created successfully: {outputFilePath}");
@@ -0,0 +1,369 @@
+using Serilog;
+using System.Text.Json;
+using Segra.Backend.Core;
+using Segra.Backend.Shared;
+using Segra.Backend.Core.Models;
+using Segra.Backend.Windows.Storage;
+
+namespace Segra.Backend.Media
+{
+    /// <summary>
+    /// Deleting from the library moves the video into the recycle bin in the content folder instead,
+    /// with its metadata, thumbnail and waveform, until it is restored or purged. Items are purged
+    /// Settings.RecycleBinRetentionDays after they were deleted. The bin counts toward the storage
+    /// limit, and storage cleanup purges it oldest first before deleting any recording. Storage
+    /// cleanup and compression still delete for good through <see cref="ContentService.DeleteContent"/>.
+    /// </summary>
+    internal static class RecycleBinService
+    {
+        private const string EntryFileName = "entry.json";
+        private const string ThumbnailFileName = "thumbnail.jpeg";
+        private const string WaveformFileName = "waveform.peaks.json";
+
+        // Expired items are purged within this long of their retention running out.
+        private static readonly TimeSpan PurgeInterval = TimeSpan.FromHours(1);
+
+        private static readonly JsonSerializerOptions _jsonOptions = new()
+        {
+            WriteIndented = true
+        };
+
+        // Moves into and out of the bin run one at a time, so a purge never deletes a folder mid-restore.
+        private static readonly SemaphoreSlim binLock = new SemaphoreSlim(1, 1);
+        private static System.Threading.Timer? _purgeTimer;
+
+        private static string BinFolder => FolderNames.GetRecycleBinFolderPath(Settings.Instance.ContentFolder);
+
+        public static void StartPurgeTimer()
+        {
+            _purgeTimer?.Dispose();
+            _purgeTimer = new System.Threading.Timer(_ => _ = PurgeExpired(), null, TimeSpan.Zero, PurgeInterval);
+        }
+
+        /// <summary>
+        /// Moves a video and its metadata, thumbnail and waveform into the bin. Returns false if the video file could not be moved.
+        /// </summary>
+        public static async Task<bool> MoveToRecycleBin(Content content, bool sendToFrontend = true)
+        {
+            string filePath = PathUtils.Normalize(content.FilePath);
+            if (!File.Exists(filePath))
+            {
+                // Nothing left to restore, so there's no point keeping the metadata around
+                Log.Warning($"Video file not found (already deleted?), deleting its metadata: {filePath}");
+                return await ContentService.DeleteContent(filePath, content.Type, content.Id, sendToFrontend);
+            }
+
+            await binLock.WaitAsync();
+            string entryFolder = PathUtils.Combine(BinFolder, content.Id);
+            string binFilePath = PathUtils.Combine(entryFolder, Path.GetFileName(filePath));
+            bool moved = false;
+            try
+            {
+                if (Directory.Exists(entryFolder))
+                {
+                    Directory.Delete(entryFolder, true);
+                }
+                Directory.CreateDirectory(entryFolder);
+
+                int maxRetries = 3;
+                for (int i = 0; i < maxRetries; i++)
+                {
+                    try
+                    {
+                        File.Move(filePath, binFilePath);
+                        moved = true;
+                        Log.Information($"Moved video to recycle bin: {filePath}");
+                        break;
+                    }
+                    catch (IOException)
+                    {
+                        if (i == maxRetries - 1) throw;
+                        Log.Warning($"File is locked, retrying move to recycle bin in 500ms... (Attempt {i + 1}/{maxRetries})");
+                        await Task.Delay(500);
+                    }
+                }
+
+                var item = new RecycleBinItem { Content = content, DeletedAt = DateTime.Now };
+                await File.WriteAllTextAsync(PathUtils.Combine(entryFolder, EntryFileName), JsonSerializer.Serialize(item, _jsonOptions));
+
+                string metadataFilePath = FolderNames.GetMetadataFilePath(content.Type, content.Id);
+                if (File.Exists(metadataFilePath))
+                {
+                    File.Delete(metadataFilePath);
+                }
+
+                MoveIfExists(FolderNames.GetThumbnailFilePath(content.Type, content.Id), PathUtils.Combine(entryFolder, ThumbnailFileName));
+                MoveIfExists(FolderNames.GetWaveformFilePath(content.Type, content.Id), PathUtils.Combine(entryFolder, WaveformFileName));
+                ContentService.DeleteEmptyGameFolder(Path.GetDirectoryName(filePath));
+
+                return true;
+            }
+            catch (Exception ex)
+            {
+                Log.Error($"Error moving {filePath} to the recycle bin: {ex.Message}");
+                // Put the video back, since a bin folder without its entry can't be restored
+                if (moved)
+                {
+                    MoveIfExists(binFilePath, filePath);
+                }
+                TryDeleteFolder(entryFolder);
+                return false;
+            }
+            finally
+            {
+                binLock.Release();
+                await SettingsService.LoadContentFromFolderIntoState(sendToFrontend);
+            }
+        }
+
+        public static async Task<(List<string> restoredIds, List<string> failedIds)> Restore(IEnumerable<string> ids)
+        {
+            var restoredIds = new List<string>();
+            var failedIds = new List<string>();
+
+            await binLock.WaitAsync();
+            try
+            {
+                foreach (string id in ids)
+                {
+                    if (await RestoreItem(id))
+                        restoredIds.Add(id);
+                    else
+                        failedIds.Add(id);
+                }
+            }
+            finally
+            {
+                binLock.Release();
+                await SettingsService.LoadContentFromFolderIntoState(true);
+            }
+
+            return (restoredIds, failedIds);
+        }
+
+        private static async Task<bool> RestoreItem(string id)
+        {
+            string entryFolder = PathUtils.Combine(BinFolder, id);
+            RecycleBinItem? item = ReadItem(entryFolder);
+            if (item == null)
+            {
+                Log.Warning($"Recycle bin item not found: {id}");
+                return false;
+            }
+
+            try
+            {
+                Content content = item.Content;
+
+                // Another video may have taken the original name since
+                string directory = PathUtils.Normalize(Path.GetDirectoryName(content.FilePath) ?? Settings.Instance.ContentFolder);
+                string extension = Path.GetExtension(content.FilePath);
+                string targetPath = content.FilePath;
+                int counter = 1;
+                while (File.Exists(targetPath))
+                {
+                    targetPath = PathUtils.Combine(directory, $"{content.FileName} ({counter}){extension}");
+                    counter++;
+                }
+                if (targetPath != content.FilePath)
+                {
+                    content.FileName = Path.GetFileNameWithoutExtension(targetPath);
+                    content.FilePath = targetPath;
+                }
+
+                Directory.CreateDirectory(directory);
+                File.Move(item.FilePath, targetPath);
+
+                Directory.CreateDirectory(FolderNames.GetMetadataFolderPath(content.Type));
+                await File.WriteAllTextAsync(FolderNames.GetMetadataFilePath(content.Type, id), JsonSerializer.Serialize(content, _jsonOptions));
+
+                Directory.CreateDirectory(FolderNames.GetThumbnailsFolderPath(content.Type));
+                MoveIfExists(PathUtils.Combine(entryFolder, ThumbnailFileName), FolderNames.GetThumbnailFilePath(content.Type, id));
+                Directory.CreateDirectory(FolderNames.GetWaveformsFolderPath(content.Type));
+                MoveIfExists(PathUtils.Combine(entryFolder, WaveformFileName), FolderNames.GetWaveformFilePath(content.Type, id));
+
+                TryDeleteFolder(entryFolder);
+                Log.Information($"Restored {targetPath} from the recycle bin");
+                return true;
+            }
+            catch (Exception ex)
+            {
+                Log.Error($"Error restoring {id} from the recycle bin: {ex.Message}");
+                return false;
+            }
+        }
+
+        /// <summary>
+        /// Deletes items in the bin for good. Returns the ids that could not be deleted.
+        /// </summary>
+        public static async Task<List<string>> Purge(IEnumerable<string> ids)
+        {
+            var failedIds = new List<string>();
+
+            await binLock.WaitAsync();
+            try
+            {
+                foreach (string id in ids)
+                {
+                    string entryFolder = PathUtils.Combine(BinFolder, id);
+                    if (Directory.Exists(entryFolder) && !TryDeleteFolder(entryFolder))
+                    {
+                        failedIds.Add(id);
+                    }
+                }
+            }
+            finally
+            {
+                binLock.Release();
+                UpdateState(true);
+                // The bin counts toward the folder size shown against the storage limit
+                StorageService.UpdateFolderSizeInState();
+            }
+
+            return failedIds;
+        }
+
+        /// <summary>
+        /// Purges items, oldest deletion first, until at least spaceToFreeBytes is freed or the bin is empty.
+        /// Returns the bytes freed.
+        /// </summary>
+        public static async Task<long> PurgeOldest(long spaceToFreeBytes)
+        {
+            var sizesById = new Dictionary<string, long>();
+            long plannedBytes = 0;
+            foreach (var item in ReadItems().OrderBy(item => item.DeletedAt))
+            {
+                if (plannedBytes >= spaceToFreeBytes)
+                    break;
+
+                long size = StorageService.CalculateFolderSize(PathUtils.Combine(BinFolder, item.Content.Id));
+                sizesById[item.Content.Id] = size;
+                plannedBytes += size;
+            }
+
+            if (sizesById.Count == 0)
+            {
+                return 0;
+            }
+
+            Log.Information($"Purging the {sizesById.Count} oldest items from the recycle bin to stay under the storage limit");
+            var failedIds = await Purge(sizesById.Keys);
+            return sizesById.Where(entry => !failedIds.Contains(entry.Key)).Sum(entry => entry.Value);
+        }
+
+        private static async Task PurgeExpired()
+        {
+            try
+            {
+                DateTime cutoff = DateTime.Now.AddDays(-Settings.Instance.RecycleBinRetentionDays);
+                var expiredIds = ReadItems()
+                    .Where(item => item.DeletedAt < cutoff)
+                    .Select(item => item.Content.Id)
+                    .ToList();
+
+                if (expiredIds.Count == 0)
+                {
+                    return;
+                }
+
+                Log.Information($"Purging {expiredIds.Count} items deleted more than {Settings.Instance.RecycleBinRetentionDays} days ago from the recycle bin");
+                await Purge(expiredIds);
+            }
+            catch (Exception ex)
+            {
+                Log.Error($"Error purging the recycle bin: {ex.Message}");
+            }
+        }
+
+        public static void UpdateState(bool sendToFrontend)
+        {
+            var items = ReadItems().OrderByDescending(item => item.DeletedAt).ToList();
+            string binFolder = BinFolder;
+            long sizeBytes = Directory.Exists(binFolder) ? StorageService.CalculateFolderSize(binFolder) : 0;
+            AppState.Instance.SetRecycleBin(items, Math.Round((double)sizeBytes / StorageService.BYTES_PER_GB, 2), sendToFrontend);
+        }
+
+        private static List<RecycleBinItem> ReadItems()
+        {
+            var items = new List<RecycleBinItem>();
+            string binFolder = BinFolder;
+            if (!Directory.Exists(binFolder))
+            {
+                return items;
+            }
+
+            foreach (string entryFolder in Directory.EnumerateDirectories(binFolder))
+            {
+                RecycleBinItem? item = ReadItem(entryFolder);
+                if (item != null)
+                {
+                    items.Add(item);
+                }
+            }
+            return items;
+        }
+
+        private static RecycleBinItem? ReadItem(string entryFolder)
+        {
+            try
+            {
+                string entryFilePath = PathUtils.Combine(entryFolder, EntryFileName);
+                if (!File.Exists(entryFilePath))
+                {
+                    return null;
+                }
+
+                var item = JsonSerializer.Deserialize<RecycleBinItem>(File.ReadAllText(entryFilePath));
+                if (item == null)
+                {
+                    return null;
+                }
+
+                // The folder may have moved with the content folder since the entry was written
+                item.FilePath = PathUtils.Combine(entryFolder, Path.GetFileName(item.Content.FilePath));
+                if (!File.Exists(item.FilePath))
+                {
+                    Log.Warning($"Recycle bin entry without its video: {PathUtils.Normalize(entryFolder)}");
+                    return null;
+                }
+
+                string thumbnailPath = PathUtils.Combine(entryFolder, ThumbnailFileName);
+                item.ThumbnailPath = File.Exists(thumbnailPath) ? thumbnailPath : null;
+                return item;
+            }
+            catch (Exception ex)
+            {
+                Log.Warning($"Error reading recycle bin entry {PathUtils.Normalize(entryFolder)}: {ex.Message}");
+                return null;
+            }
+        }
+
+        private static void MoveIfExists(string from, string to)
+        {
+            try
+            {
+                if (File.Exists(from))
+                    File.Move(from, to, true);
+            }
+            catch (Exception ex)
+            {
+                Log.Warning($"Failed moving {from} -> {to}: {ex.Message}");
+            }
+        }
+
+        private static bool TryDeleteFolder(string folder)
+        {
+            try
+            {
+                if (Directory.Exists(folder))
+                    Directory.Delete(folder, true);
+                return true;
+            }
+            catch (Exception ex)
+            {
+                Log.Warning($"Failed deleting recycle bin folder {folder}: {ex.Message}");
+                return false;
+            }
+        }
+    }
+}
@@ -21,6 +21,10 @@ namespace Segra.Backend.Media
         private static readonly Dictionary<string, CancellationTokenSource> _activeUploads = new();
         private static readonly object _uploadLock = new();
 
+        // Uploads run one at a time, since each one reads its whole file into memory. Waiting ones
+        // report a "queued" status and can be cancelled like a running upload.
+        private static readonly SemaphoreSlim _uploadQueue = new(1, 1);
+
         public static void CancelUpload(string fileName)
         {
             Log.Information($"[Upload] Cancel requested for: {fileName}");
@@ -44,6 +48,7 @@ namespace Segra.Backend.Media
             string fileName = "";
             string title = "";
             CancellationTokenSource? cts = null;
+            bool acquired = false;
 
             try
             {
@@ -68,6 +73,21 @@ namespace Segra.Backend.Media
                     _activeUploads[fileName] = cts;
                 }
 
+                if (_uploadQueue.CurrentCount == 0)
+                {
+                    await MessageService.SendFrontendMessage("UploadProgress", new
+                    {
+                        title,
+                        fileName,
+                        thumbnailPath,
+                        progress = 0,
+                        status = "queued",
+                        message = "Waiting for other uploads..."
+                    });
+                }
+                await _uploadQueue.WaitAsync(cts.Token);
+                acquired = true;
+
                 byte[] fileBytes = await File.ReadAllBytesAsync(filePath, cts.Token);
                 using var formData = new MultipartFormDataContent();
 
@@ -271,6 +291,7 @@ namespace Segra.Backend.Media
             }
             finally
             {
+                if (acquired) _uploadQueue.Release();
                 cts?.Dispose();
             }
         }
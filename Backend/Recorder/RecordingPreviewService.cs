@@ -248,13 +248,7 @@ namespace Segra.Backend.Recorder
                 jpegBytes = ms.ToArray();
             }
 
-            var b64 = Convert.ToBase64String(jpegBytes);
-            await MessageService.SendFrontendMessage("RecordingPreviewFrame", new
-            {
-                jpegBase64 = b64,
-                width,
-                height
-            });
+            await MessageService.SendFrontendBinary(BinaryMessageKind.RecordingPreviewFrame, width, height, jpegBytes);
         }
     }
 }
@@ -14,6 +14,9 @@ namespace Segra.Backend.Shared
         public const string Clips = "Clips";
         public const string Highlights = "Highlights";
 
+        // Deleted content waiting to be restored or purged, inside the content folder
+        public const string RecycleBin = "Recycle Bin";
+
         // Legacy folder names (for migration purposes)
         public const string LegacySessions = "sessions";
         public const string LegacyBuffers = "buffers";
@@ -83,6 +86,14 @@ namespace Segra.Backend.Shared
             return PathUtils.Combine(contentFolder, GetVideoFolderName(type));
         }
 
+        /// <summary>
+        /// Gets the full path to the recycle bin. Each deleted video has a folder in it named by content id.
+        /// </summary>
+        public static string GetRecycleBinFolderPath(string contentFolder)
+        {
+            return PathUtils.Combine(contentFolder, RecycleBin);
+        }
+
         /// <summary>
         /// Gets the full path to the metadata folder for a content type.
         /// Metadata is stored in AppData/Roaming/Segra/metadata/{ContentType}
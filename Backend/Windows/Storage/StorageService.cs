@@ -1,5 +1,6 @@
 using Serilog;
 using System.Diagnostics;
+using System.Text.Json;
 using Segra.Backend.Media;
 using Segra.Backend.Shared;
 using Segra.Backend.Core.Models;
@@ -36,7 +37,7 @@ namespace Segra.Backend.Windows.Storage
                 return 0;
             }
 
-            long currentUsageBytes = CalculateFolderSize(contentFolder);
+            long currentUsageBytes = CalculateContentUsage(contentFolder);
             double currentUsageGb = Math.Round((double)currentUsageBytes / BYTES_PER_GB, 2);
             return currentUsageGb;
         }
@@ -185,7 +186,7 @@ namespace Segra.Backend.Windows.Storage
                 return;
             }
 
-            long currentUsageBytes = CalculateFolderSize(contentFolder);
+            long currentUsageBytes = CalculateContentUsage(contentFolder);
             double currentUsageGB = (double)currentUsageBytes / BYTES_PER_GB;
 
             Log.Information($"Current storage usage: {currentUsageGB:F2} GB, limit: {storageLimit} GB");
@@ -194,7 +195,14 @@ namespace Segra.Backend.Windows.Storage
             {
                 double excessGB = (currentUsageBytes - (storageLimit * BYTES_PER_GB)) / (double)BYTES_PER_GB;
                 Log.Information($"Storage limit exceeded by {excessGB:F2} GB, starting cleanup");
-                await DeleteOldestContent(contentFolder, currentUsageBytes - (storageLimit * BYTES_PER_GB));
+                long spaceToFreeBytes = currentUsageBytes - (storageLimit * BYTES_PER_GB);
+
+                // What's in the recycle bin was already deleted, so it goes before any recording
+                spaceToFreeBytes -= await RecycleBinService.PurgeOldest(spaceToFreeBytes);
+                if (spaceToFreeBytes > 0)
+                {
+                    await DeleteOldestContent(contentFolder, spaceToFreeBytes);
+                }
             }
             else
             {
@@ -223,6 +231,13 @@ namespace Segra.Backend.Windows.Storage
             return size;
         }
 
+        // The recycle bin lives in the content folder and counts against the storage limit, since its
+        // files take up the same disk until they're purged.
+        private static long CalculateContentUsage(string contentFolder)
+        {
+            return CalculateFolderSize(contentFolder);
+        }
+
         private static async Task DeleteOldestContent(string contentFolder, long spaceToFreeBytes)
         {
             double spaceToFreeGB = (double)spaceToFreeBytes / BYTES_PER_GB;
@@ -256,6 +271,21 @@ namespace Segra.Backend.Windows.Storage
                 Log.Information($"Found {bufferFiles.Count()} eligible buffer files older than 1 hour");
             }
 
+            // Favorites are kept even if that leaves the folder over the limit. They're read from the
+            // metadata files because the startup check runs while AppState's content is still loading.
+            // A file whose metadata can't be read might be a favorite, so it's kept too.
+            var metadataByPath = ReadMetadataByFilePath(Content.ContentType.Session, Content.ContentType.Buffer);
+            int untrackedCount = deletionCandidates.RemoveAll(f => !metadataByPath.ContainsKey(PathUtils.Normalize(f.FullName)));
+            if (untrackedCount > 0)
+            {
+                Log.Information($"Skipping {untrackedCount} files without readable metadata");
+            }
+            int favoriteCount = deletionCandidates.RemoveAll(f => metadataByPath[PathUtils.Normalize(f.FullName)].IsFavorite);
+            if (favoriteCount > 0)
+            {
+                Log.Information($"Skipping {favoriteCount} favorite files");
+            }
+
             deletionCandidates = deletionCandidates.OrderBy(f => f.CreationTime).ToList();
             Log.Information($"Total files eligible for deletion: {deletionCandidates.Count}, ordered by creation time");
 
@@ -282,9 +312,7 @@ namespace Segra.Backend.Windows.Storage
                     }
                     Content.ContentType contentType = detectedType.Value;
 
-                    string? contentId = AppState.Instance.Content.FirstOrDefault(c =>
-                        c.Type == contentType &&
-                        string.Equals(PathUtils.Normalize(c.FilePath), fileFullName, StringComparison.OrdinalIgnoreCase))?.Id;
+                    string contentId = metadataByPath[fileFullName].Id;
 
                     Log.Information($"Deleting {contentType} file: {fileFullName} ({fileSizeMB:F2} MB)");
                     await ContentService.DeleteContent(fileFullName, contentType, contentId);
@@ -310,5 +338,31 @@ namespace Segra.Backend.Windows.Storage
                 Log.Information($"Warning: Could not free enough space. Still needed: {stillNeededGB:F2} GB");
             }
         }
+
+        // Metadata is named by content id, so it's keyed here by the file it describes.
+        private static Dictionary<string, Content> ReadMetadataByFilePath(params Content.ContentType[] types)
+        {
+            var metadataByPath = new Dictionary<string, Content>(StringComparer.OrdinalIgnoreCase);
+            var metadataFiles = types
+                .Select(FolderNames.GetMetadataFolderPath)
+                .Where(Directory.Exists)
+                .SelectMany(folder => Directory.EnumerateFiles(folder, "*.json", SearchOption.TopDirectoryOnly));
+
+            foreach (var metadataFile in metadataFiles)
+            {
+                try
+                {
+                    var metadata = JsonSerializer.Deserialize<Content>(File.ReadAllText(metadataFile));
+                    if (!string.IsNullOrEmpty(metadata?.FilePath))
+                        metadataByPath[PathUtils.Normalize(metadata.FilePath)] = metadata;
+                }
+                catch (Exception ex)
+                {
+                    Log.Warning($"Failed to read metadata {PathUtils.Normalize(metadataFile)}: {ex.Message}");
+                }
+            }
+
+            return metadataByPath;
+        }
     }
 }
@@ -0,0 +1,410 @@
+import { createContent } from './library.mjs';
+
+// Simulated versions of the commands in Backend/App/MessageService.cs. Each handler receives
+// the command's Parameters and may return a value, which becomes the rpc() result. Throwing
+// reports the command as failed.
+
+// Like Content.NormalizeTag in Backend/Core/Models/Settings.cs.
+const normalizeTag = (tag) =>
+  tag.replace(/,/g, ' ').trim().split(/\s+/).join(' ').toLowerCase().slice(0, 32).trimEnd();
+
+const normalizeTags = (tags) => [...new Set(tags.map(normalizeTag).filter(Boolean))];
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Calls onStep with 0..100 over roughly durationMs, stopping early if isCancelled() turns true.
+async function runProgress(durationMs, onStep, isCancelled = () => false) {
+  const steps = 20;
+  for (let step = 0; step <= steps; step++) {
+    if (isCancelled()) return false;
+    onStep(Math.round((step / steps) * 100));
+    await sleep(durationMs / steps);
+  }
+  return true;
+}
+
+// Runs tasks one at a time, like the backend's compression and upload queues. onQueued is called
+// for a task that has to wait for an earlier one.
+function createQueue() {
+  let tail = Promise.resolve();
+  let pending = 0;
+  return (task, onQueued) => {
+    if (pending > 0) onQueued();
+    pending++;
+    const run = tail.then(task).finally(() => pending--);
+    tail = run.catch(() => {});
+    return run;
+  };
+}
+
+export function createCommandHandlers(sim) {
+  const findContent = (id) => {
+    const content = sim.state.content.find((item) => item.id === id);
+    if (!content) throw new Error('This video no longer exists.');
+    return content;
+  };
+
+  const addContent = (content) => {
+    sim.state.content = [content, ...sim.state.content];
+    sim.sendState();
+    return content;
+  };
+
+  // Like RecycleBinService: deleting moves content into the bin, which is still part of the
+  // folder size.
+  const setRecycleBin = (recycleBin) => {
+    sim.state.recycleBin = recycleBin;
+    sim.state.recycleBinSizeGb =
+      recycleBin.reduce((sum, item) => sum + item.content.fileSizeKb, 0) / 1024 / 1024;
+    sim.state.currentFolderSizeGb =
+      sim.state.content.reduce((sum, item) => sum + item.fileSizeKb, 0) / 1024 / 1024 +
+      sim.state.recycleBinSizeGb;
+    sim.sendState();
+  };
+
+  const moveToRecycleBin = (items) => {
+    const ids = items.map((item) => item.id);
+    const deletedAt = new Date().toISOString();
+    sim.state.content = sim.state.content.filter((item) => !ids.includes(item.id));
+    setRecycleBin([
+      ...items.map((content) => ({
+        content,
+        deletedAt,
+        filePath: content.filePath,
+        thumbnailPath: null,
+      })),
+      ...sim.state.recycleBin,
+    ]);
+  };
+
+  const cancelledClips = new Set();
+  const cancelledUploads = new Set();
+  const queueCompression = createQueue();
+  const queueUpload = createQueue();
+  let recordingTimer = null;
+
+  return {
+    NewConnection: ({ ProtocolVersion = 0 }) => {
+      sim.send('Handshake', {
+        protocolVersion: sim.protocol.version,
+        minFrontendProtocolVersion: sim.protocol.minFrontendVersion,
+        capabilities: sim.protocol.capabilities,
+      });
+      if (ProtocolVersion < sim.protocol.minFrontendVersion) return;
+      sim.send('Settings', sim.settings);
+      sim.sendContentSnapshot();
+      sim.sendState();
+      sim.send('GameList', sim.gameList);
+      sim.send('AppVersion', { version: 'Simulator', canSelfUpdate: false });
+    },
+
+    Login: () => {},
+    Logout: () => {},
+
+    UpdateSettings: (parameters) => {
+      sim.settings = { ...sim.settings, ...parameters, ...sim.fixedSettings };
+      sim.send('Settings', sim.settings);
+    },
+
+    StartRecording: () => {
+      if (sim.state.recording || sim.state.preRecording) return;
+      const game = sim.gameList[0]?.name ?? 'Simulated Game';
+      sim.state.preRecording = { game, status: 'Starting' };
+      sim.sendState();
+      recordingTimer = setTimeout(() => {
+        sim.state.preRecording = null;
+        sim.state.recording = {
+          startTime: new Date().toISOString(),
+          endTime: null,
+          game,
+          isUsingGameHook: true,
+        };
+        sim.sendState();
+      }, 1500);
+    },
+
+    StopRecording: () => {
+      clearTimeout(recordingTimer);
+      const { recording } = sim.state;
+      sim.state.preRecording = null;
+      sim.state.recording = null;
+      if (!recording) {
+        sim.sendState();
+        return;
+      }
+      const durationSeconds = Math.max(1, (Date.now() - Date.parse(recording.startTime)) / 1000);
+      addContent(createContent({ type: 'Session', game: recording.game, durationSeconds }));
+    },
+
+    CreateClip: async ({ Segments }) => {
+      const id = Date.now();
+      const segments = Segments.map((segment) => ({
+        ...segment,
+        type: findContent(segment.contentId).type,
+        isLoading: false,
+        fileName: findContent(segment.contentId).fileName,
+        filePath: findContent(segment.contentId).filePath,
+      }));
+      const finished = await runProgress(
+        4000,
+        (progress) => sim.send('ClipProgress', { id, progress, segments }),
+        () => cancelledClips.has(id),
+      );
+      if (!finished) return;
+
+      const source = findContent(Segments[0].contentId);
+      const durationSeconds = Segments.reduce((sum, s) => sum + (s.endTime - s.startTime), 0);
+      addContent(
+        createContent({
+          type: 'Clip',
+          game: source.game,
+          igdbId: source.igdbId,
+          durationSeconds,
+        }),
+      );
+    },
+
+    CancelClip: ({ id }) => {
+      cancelledClips.add(id);
+      sim.send('ClipProgress', { id, progress: -1, segments: [], error: 'Cancelled' });
+    },
+
+    CreateAiClip: async ({ Id }) => {
+      const content = findContent(Id);
+      // Like the backend, a session without kill or goal bookmarks fails through progress.
+      if (!content.bookmarks.some((bookmark) => ['Kill', 'Goal'].includes(bookmark.type))) {
+        sim.send('AiProgress', {
+          id: Id,
+          progress: -1,
+          status: 'error',
+          message: 'No highlight moments found in this session',
+          content,
+        });
+        return;
+      }
+      await runProgress(5000, (progress) =>
+        sim.send('AiProgress', {
+          id: Id,
+          progress,
+          status: 'processing',
+          message: 'Finding highlights',
+          content,
+        }),
+      );
+      const highlight = addContent(
+        createContent({
+          type: 'Highlight',
+          game: content.game,
+          igdbId: content.igdbId,
+          durationSeconds: 30,
+        }),
+      );
+      sim.send('AiProgress', {
+        id: Id,
+        progress: 100,
+        status: 'done',
+        message: 'Done',
+        content: highlight,
+      });
+    },
+
+    DeleteContent: ({ Id }) => {
+      moveToRecycleBin([findContent(Id)]);
+    },
+
+    DeleteMultipleContent: ({ Ids }) => {
+      const deleted = sim.state.content.filter((item) => Ids.includes(item.id));
+      const deletedIds = deleted.map((item) => item.id);
+      const failedIds = Ids.filter((id) => !deletedIds.includes(id));
+      moveToRecycleBin(deleted);
+      if (deletedIds.length === 0 && failedIds.length > 0) {
+        throw new Error('None of the selected videos could be deleted.');
+      }
+      return { deletedIds, failedIds };
+    },
+
+    RestoreFromRecycleBin: ({ Ids }) => {
+      const restored = sim.state.recycleBin.filter((item) => Ids.includes(item.content.id));
+      const restoredIds = restored.map((item) => item.content.id);
+      const failedIds = Ids.filter((id) => !restoredIds.includes(id));
+      sim.state.content = [...sim.state.content, ...restored.map((item) => item.content)].sort(
+        (a, b) => b.createdAt.localeCompare(a.createdAt),
+      );
+      setRecycleBin(sim.state.recycleBin.filter((item) => !restoredIds.includes(item.content.id)));
+      if (restoredIds.length === 0 && failedIds.length > 0) {
+        throw new Error('None of the selected videos could be restored.');
+      }
+      return { restoredIds, failedIds };
+    },
+
+    DeleteFromRecycleBin: ({ Ids }) => {
+      setRecycleBin(sim.state.recycleBin.filter((item) => !Ids.includes(item.content.id)));
+      return { failedIds: [] };
+    },
+
+    RenameContent: ({ Id, Title }) => {
+      const content = findContent(Id);
+      content.title = Title;
+      sim.sendState();
+      return content;
+    },
+
+    SetFavorite: ({ Ids, Favorite }) => {
+      for (const id of Ids) findContent(id).isFavorite = Favorite;
+      sim.sendState();
+    },
+
+    SetContentGame: ({ Ids, Game, IgdbId }) => {
+      if (!Game?.trim()) throw new Error("The game name can't be empty.");
+      for (const id of Ids) {
+        const content = findContent(id);
+        content.game = Game.trim();
+        content.igdbId = IgdbId;
+      }
+      sim.sendState();
+    },
+
+    SetContentTags: ({ Ids, Add = [], Remove = [] }) => {
+      const add = normalizeTags(Add);
+      const remove = normalizeTags(Remove);
+      for (const id of Ids) {
+        const content = findContent(id);
+        content.tags = normalizeTags([
+          ...content.tags.filter((tag) => !remove.includes(tag)),
+          ...add,
+        ]);
+      }
+      sim.sendState();
+    },
+
+    RenameTag: ({ From, To }) => {
+      const from = normalizeTag(From);
+      const to = normalizeTag(To);
+      if (!from || !to) throw new Error("Tag names can't be empty.");
+      for (const content of sim.state.content) {
+        content.tags = normalizeTags(content.tags.map((tag) => (tag === from ? to : tag)));
+      }
+      sim.sendState();
+    },
+
+    DeleteTag: ({ Tag }) => {
+      const tag = normalizeTag(Tag);
+      for (const content of sim.state.content) {
+        content.tags = content.tags.filter((t) => t !== tag);
+      }
+      sim.sendState();
+    },
+
+    AddBookmark: ({ ContentId, Type, Subtype, Time, Id }) => {
+      const content = findContent(ContentId);
+      const bookmark = { id: Id, type: Type, ...(Subtype ? { subtype: Subtype } : {}), time: Time };
+      content.bookmarks = [...content.bookmarks, bookmark];
+      sim.sendState();
+      return bookmark;
+    },
+
+    DeleteBookmark: ({ ContentId, Id }) => {
+      const content = findContent(ContentId);
+      content.bookmarks = content.bookmarks.filter((bookmark) => bookmark.id !== Id);
+      sim.sendState();
+    },
+
+    CompressVideo: ({ Id }) => {
+      const content = findContent(Id);
+      // Accepted immediately, like the backend; the outcome arrives as progress messages.
+      void queueCompression(
+        () =>
+          runProgress(3000, (progress) =>
+            sim.send('CompressionProgress', {
+              filePath: content.filePath,
+              progress,
+              status: progress === 100 ? 'done' : 'compressing',
+            }),
+          ).then(() => {
+            content.compressed = true;
+            content.fileSizeKb = Math.round(content.fileSizeKb / 3);
+            content.fileSize = `${(content.fileSizeKb / 1024).toFixed(2)} MB`;
+            sim.sendState();
+          }),
+        () =>
+          sim.send('CompressionProgress', {
+            filePath: content.filePath,
+            progress: 0,
+            status: 'queued',
+          }),
+      );
+    },
+
+    UploadContent: async ({ Id, Title }) => {
+      const content = findContent(Id);
+      const fileName = `${content.fileName}.mp4`;
+      cancelledUploads.delete(fileName);
+      await queueUpload(
+        async () => {
+          const finished = await runProgress(
+            5000,
+            (progress) =>
+              sim.send('UploadProgress', {
+                title: Title,
+                fileName,
+                progress,
+                status: progress === 100 ? 'processing' : 'uploading',
+              }),
+            () => cancelledUploads.has(fileName),
+          );
+          if (!finished) return;
+          await sleep(1000);
+          content.uploadId = `sim-${content.id.slice(0, 8)}`;
+          sim.send('UploadProgress', { title: Title, fileName, progress: 100, status: 'done' });
+          sim.sendState();
+        },
+        () =>
+          sim.send('UploadProgress', {
+            title: Title,
+            fileName,
+            progress: 0,
+            status: 'queued',
+            message: 'Waiting for other uploads...',
+          }),
+      );
+    },
+
+    CancelUpload: ({ fileName }) => {
+      cancelledUploads.add(fileName);
+      sim.send('UploadProgress', {
+        title: '',
+        fileName,
+        progress: 0,
+        status: 'error',
+        message: 'Upload cancelled',
+      });
+    },
+
+    ImportFile: async ({ sectionId }) => {
+      const type = { sessions: 'Session', replayBuffer: 'Buffer', highlights: 'Highlight' }[
+        sectionId
+      ];
+      const id = `import-${Date.now()}`;
+      const fileName = 'Imported footage.mp4';
+      await runProgress(3000, (progress) =>
+        sim.send('ImportProgress', {
+          id,
+          fileName,
+          progress,
+          status: progress === 100 ? 'done' : 'importing',
+          totalFiles: 1,
+          currentFileIndex: 1,
+        }),
+      );
+      addContent({
+        ...createContent({ type: type ?? 'Clip', game: 'Unknown', durationSeconds: 95 }),
+        title: 'Imported footage',
+        isImported: true,
+      });
+    },
+
+    RefreshStorageStats: () => sim.sendState(),
+
+    ResyncContent: () => sim.sendContentSnapshot(),
+  };
+}
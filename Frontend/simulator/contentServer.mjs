@@ -0,0 +1,145 @@
+import { createReadStream, existsSync, statSync } from 'node:fs';
+import { createServer } from 'node:http';
+import path from 'node:path';
+import { durationToSeconds, mediaDir } from './library.mjs';
+
+// Stand-in for Backend/Api/ContentServer.cs. Videos and thumbnails come from fixtures/media
+// when present; otherwise thumbnails and waveforms are generated so the UI still has
+// something to show.
+
+const escapeXml = (value) =>
+  String(value).replace(
+    /[<>&"']/g,
+    (char) => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&apos;' })[char],
+  );
+
+// Stable per-id number, so placeholders and waveforms look the same on every request.
+const hash = (value) => {
+  let result = 0;
+  for (const char of value) result = (result * 31 + char.charCodeAt(0)) >>> 0;
+  return result;
+};
+
+const placeholderThumbnail = (id, content, time) => {
+  const hue = hash(id) % 360;
+  const label = content ? content.title || content.game : 'Simulated video';
+  const caption = time != null ? `${Number(time).toFixed(1)}s` : content ? content.type : '';
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="640" height="360" viewBox="0 0 640 360">
+  <defs>
+    <linearGradient id="bg" x1="0" y1="0" x2="1" y2="1">
+      <stop offset="0" stop-color="hsl(${hue}, 45%, 28%)"/>
+      <stop offset="1" stop-color="hsl(${(hue + 60) % 360}, 45%, 14%)"/>
+    </linearGradient>
+  </defs>
+  <rect width="640" height="360" fill="url(#bg)"/>
+  <text x="32" y="300" font-family="Roboto, sans-serif" font-size="30" fill="#fff">${escapeXml(label)}</text>
+  <text x="32" y="336" font-family="Roboto, sans-serif" font-size="20" fill="#ffffffaa">${escapeXml(caption)}</text>
+</svg>`;
+};
+
+// Same layout as the backend's .peaks.json: interleaved min/max pairs, 8-bit range.
+const syntheticPeaks = (id, durationSeconds) => {
+  const columns = Math.min(4000, Math.max(100, Math.round(durationSeconds * 10)));
+  let seed = hash(id) || 1;
+  const data = [];
+  for (let i = 0; i < columns; i++) {
+    seed = (seed * 1103515245 + 12345) >>> 0;
+    const swell = 0.5 + 0.5 * Math.sin(i / 37);
+    const amplitude = Math.round((20 + (seed % 60)) * swell);
+    data.push(-amplitude, amplitude);
+  }
+  return { version: 2, channels: 1, sample_rate: 48000, bits: 8, length: columns, data };
+};
+
+const sendText = (response, status, text) => {
+  response.writeHead(status, { 'Content-Type': 'text/plain' });
+  response.end(text);
+};
+
+const streamVideo = (request, response, filePath) => {
+  const fileLength = statSync(filePath).size;
+  const headers = {
+    'Content-Type': 'video/mp4',
+    'Accept-Ranges': 'bytes',
+    // The frontend reads Content-Range to learn the full size from a small probe request.
+    'Access-Control-Expose-Headers': 'Content-Range, Accept-Ranges',
+  };
+
+  const range = /^bytes=(\d*)-(\d*)$/.exec(request.headers.range ?? '');
+  if (!range) {
+    response.writeHead(200, { ...headers, 'Content-Length': fileLength });
+    createReadStream(filePath).pipe(response);
+    return;
+  }
+
+  const start = range[1] ? Number(range[1]) : 0;
+  const end = range[2] ? Number(range[2]) : fileLength - 1;
+  if (start > end || end >= fileLength) {
+    response.writeHead(416, { 'Content-Range': `bytes */${fileLength}` });
+    response.end();
+    return;
+  }
+
+  response.writeHead(206, {
+    ...headers,
+    'Content-Range': `bytes ${start}-${end}/${fileLength}`,
+    'Content-Length': end - start + 1,
+  });
+  createReadStream(filePath, { start, end }).pipe(response);
+};
+
+// findContent(id) looks an item up in the simulator's current library.
+export function startContentServer({ port, findContent, findContentByFileName }) {
+  const server = createServer((request, response) => {
+    response.setHeader('Access-Control-Allow-Origin', '*');
+
+    const url = new URL(request.url ?? '/', `http://localhost:${port}`);
+    const input = url.searchParams.get('input') ?? '';
+    const baseName = path.basename(input.replaceAll('\\', '/'));
+
+    if (url.pathname === '/api/thumbnail') {
+      const id = baseName.replace(/\.jpeg$/i, '');
+      const jpegPath = path.join(mediaDir, `${id}.jpeg`);
+      if (!url.searchParams.has('time') && existsSync(jpegPath)) {
+        response.writeHead(200, { 'Content-Type': 'image/jpeg' });
+        createReadStream(jpegPath).pipe(response);
+        return;
+      }
+      const content = findContent(id) ?? findContentByFileName(baseName.replace(/\.mp4$/i, ''));
+      response.writeHead(200, { 'Content-Type': 'image/svg+xml' });
+      response.end(placeholderThumbnail(id, content, url.searchParams.get('time')));
+      return;
+    }
+
+    if (url.pathname === '/api/content') {
+      if (baseName.endsWith('.peaks.json')) {
+        const id = baseName.replace(/\.peaks\.json$/, '');
+        const content = findContent(id);
+        response.writeHead(200, { 'Content-Type': 'application/json' });
+        response.end(
+          JSON.stringify(syntheticPeaks(id, content ? durationToSeconds(content.duration) : 60)),
+        );
+        return;
+      }
+
+      if (baseName.toLowerCase().endsWith('.mp4')) {
+        const candidates = [path.join(mediaDir, baseName), path.join(mediaDir, 'sample.mp4')];
+        const filePath = candidates.find((candidate) => existsSync(candidate));
+        if (!filePath) {
+          sendText(response, 404, 'No fixture video. Add simulator/fixtures/media/sample.mp4.');
+          return;
+        }
+        streamVideo(request, response, filePath);
+        return;
+      }
+
+      sendText(response, 400, 'Unsupported file type.');
+      return;
+    }
+
+    sendText(response, 404, 'Invalid endpoint.');
+  });
+
+  server.listen(port);
+  return server;
+}
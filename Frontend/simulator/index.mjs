@@ -0,0 +1,138 @@
+import { WebSocketServer } from 'ws';
+import { createCommandHandlers } from './commands.mjs';
+import { startContentServer } from './contentServer.mjs';
+import { loadLibrary } from './library.mjs';
+
+// Simulated Segra backend for running the UI in a plain browser (`npm run simulator`, then
+// `npm run dev`). Speaks the same WebSocket protocol as Backend/App/MessageService.cs on
+// 44030 and serves /api/content and /api/thumbnail on 2222 like Backend/Api/ContentServer.cs.
+//
+// The desktop host delivers commands through window.external.sendMessage. In the browser,
+// src/Utils/DevBackendShim.ts stands in for it by sending commands over a second socket that
+// connects with ?role=external; backend messages are only sent to the other sockets.
+
+const WEBSOCKET_PORT = 44030;
+const CONTENT_PORT = 2222;
+
+// Matches MessageService.ProtocolVersion. SIM_PROTOCOL_VERSION and SIM_CAPABILITIES (comma
+// separated) pretend to be an older or newer backend, to try the mismatch screen and hidden
+// features.
+const protocol = {
+  version: Number(process.env.SIM_PROTOCOL_VERSION ?? 2),
+  minFrontendVersion: 2,
+  capabilities: (process.env.SIM_CAPABILITIES ?? 'aiHighlights,separateAudioTracks')
+    .split(',')
+    .filter(Boolean),
+};
+
+const library = loadLibrary();
+const frontends = new Set();
+
+// Like Backend/App/ContentSyncService.cs: the library goes out as a snapshot, then as deltas
+// found by comparing each item with what was last sent.
+const contentSync = { revision: 0, sent: new Map() };
+
+const sim = {
+  settings: library.settings,
+  // Pinned to the fixtures whatever the UI sends in UpdateSettings.
+  fixedSettings: {
+    contentFolder: library.settings.contentFolder,
+    cacheFolder: library.settings.cacheFolder,
+  },
+  state: library.state,
+  gameList: library.gameList,
+  protocol,
+  send(method, content) {
+    const message = JSON.stringify({ method, content });
+    frontends.forEach((socket) => socket.send(message));
+  },
+  // Content isn't part of State; changes to it follow as a ContentDelta.
+  sendState() {
+    const { content, ...state } = sim.state;
+    sim.send('State', state);
+
+    const added = [];
+    const updated = [];
+    for (const item of content) {
+      const serialized = JSON.stringify(item);
+      const previous = contentSync.sent.get(item.id);
+      if (previous === serialized) continue;
+      (previous === undefined ? added : updated).push(item);
+      contentSync.sent.set(item.id, serialized);
+    }
+    const currentIds = new Set(content.map((item) => item.id));
+    const removed = [...contentSync.sent.keys()].filter((id) => !currentIds.has(id));
+    removed.forEach((id) => contentSync.sent.delete(id));
+
+    if (added.length > 0 || updated.length > 0 || removed.length > 0) {
+      sim.send('ContentDelta', { revision: ++contentSync.revision, added, updated, removed });
+    }
+  },
+  sendContentSnapshot() {
+    contentSync.sent = new Map(sim.state.content.map((item) => [item.id, JSON.stringify(item)]));
+    sim.send('ContentSnapshot', { revision: ++contentSync.revision, content: sim.state.content });
+  },
+};
+
+const handlers = createCommandHandlers(sim);
+
+async function handleCommand(text) {
+  let command;
+  try {
+    command = JSON.parse(text);
+  } catch {
+    console.warn('Ignoring message that is not JSON:', text);
+    return;
+  }
+
+  const { Method: method, Parameters: parameters, RequestId: requestId } = command;
+  if (requestId) {
+    sim.send('CommandAck', { requestId });
+  }
+
+  const handler = handlers[method];
+  if (!handler) {
+    console.log(`${method} is not simulated`);
+    if (requestId) sim.send('CommandResult', { requestId, success: true });
+    return;
+  }
+
+  console.log(`${method}`, parameters ?? '');
+  try {
+    const result = await handler(parameters ?? {});
+    if (requestId) sim.send('CommandResult', { requestId, success: true, result });
+  } catch (error) {
+    console.warn(`${method} failed: ${error.message}`);
+    if (requestId) sim.send('CommandResult', { requestId, success: false, error: error.message });
+  }
+}
+
+const wss = new WebSocketServer({ port: WEBSOCKET_PORT });
+wss.on('connection', (socket, request) => {
+  const isExternal =
+    new URL(request.url ?? '/', 'http://localhost').searchParams.get('role') === 'external';
+  if (!isExternal) {
+    frontends.add(socket);
+    socket.on('close', () => frontends.delete(socket));
+  }
+
+  socket.on('message', (data) => {
+    const text = data.toString();
+    // Heartbeat from react-use-websocket, answered on the same socket like the backend does.
+    if (text === 'ping') {
+      socket.send(JSON.stringify({ method: 'pong', content: {} }));
+      return;
+    }
+    void handleCommand(text);
+  });
+});
+
+startContentServer({
+  port: CONTENT_PORT,
+  findContent: (id) => sim.state.content.find((item) => item.id === id),
+  findContentByFileName: (fileName) => sim.state.content.find((item) => item.fileName === fileName),
+});
+
+console.log(`Segra simulator: WebSocket on ws://localhost:${WEBSOCKET_PORT}`);
+console.log(`Segra simulator: content server on http://localhost:${CONTENT_PORT}`);
+console.log('Run `npm run dev` and open http://localhost:2882 in a browser.');
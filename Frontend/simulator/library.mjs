@@ -0,0 +1,109 @@
+import { randomUUID } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+export const fixturesDir = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures');
+export const mediaDir = path.join(fixturesDir, 'media');
+
+// Paths handed to the frontend. They only have to be stable and point inside the fixtures
+// folder; the content server maps them back to media files.
+export const contentFolder = path.join(fixturesDir, 'content').replaceAll('\\', '/');
+export const cacheFolder = path.join(fixturesDir, 'cache').replaceAll('\\', '/');
+
+const FOLDER_NAMES = {
+  Session: 'Full Sessions',
+  Buffer: 'Replay Buffers',
+  Clip: 'Clips',
+  Highlight: 'Highlights',
+};
+
+const pad = (value, length = 2) => String(value).padStart(length, '0');
+
+// Same shape as a serialized .NET TimeSpan ("HH:MM:SS.fff"), which the frontend parses.
+export const formatTimeSpan = (totalSeconds) => {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = Math.floor(totalSeconds % 60);
+  const milliseconds = Math.round((totalSeconds % 1) * 1000);
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}.${pad(milliseconds, 3)}`;
+};
+
+const formatFileName = (date) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}_${pad(date.getHours())}-${pad(date.getMinutes())}-${pad(date.getSeconds())}`;
+
+let nextBookmarkId = 1;
+
+// Builds a Content item the way the backend reports it. Roughly 8 Mbit/s of "footage".
+export function createContent({
+  type,
+  title = '',
+  game,
+  igdbId,
+  durationSeconds,
+  createdAt = new Date(),
+  bookmarks = [],
+  tags = [],
+  isFavorite = false,
+}) {
+  const fileName = formatFileName(new Date(createdAt.getTime() - durationSeconds * 1000));
+  const fileSizeKb = Math.round(durationSeconds * 1000);
+  const fileSizeMb = fileSizeKb / 1024;
+  return {
+    id: randomUUID(),
+    type,
+    title,
+    game,
+    igdbId,
+    bookmarks: bookmarks.map(({ type: bookmarkType, subtype, at }) => ({
+      id: nextBookmarkId++,
+      type: bookmarkType,
+      subtype,
+      time: formatTimeSpan(at),
+    })),
+    fileName,
+    filePath: `${contentFolder}/${FOLDER_NAMES[type]}/${fileName}.mp4`,
+    fileSize:
+      fileSizeMb > 1000 ? `${(fileSizeMb / 1024).toFixed(2)} GB` : `${fileSizeMb.toFixed(2)} MB`,
+    fileSizeKb,
+    duration: formatTimeSpan(durationSeconds),
+    createdAt: createdAt.toISOString(),
+    isImported: false,
+    compressed: false,
+    isFavorite,
+    tags,
+    audioTrackNames: ['Full Mix'],
+    audioTrackTypes: ['mix'],
+  };
+}
+
+export const durationToSeconds = (duration) => {
+  const [hours, minutes, seconds] = duration.split(':').map(Number);
+  return hours * 3600 + minutes * 60 + seconds;
+};
+
+// Reads fixtures/library.json into the initial settings, state and game list. Settings and
+// State are sent whole, like the backend does; the frontend validates every field it reads.
+export function loadLibrary() {
+  const fixture = JSON.parse(readFileSync(path.join(fixturesDir, 'library.json'), 'utf8'));
+  const now = Date.now();
+
+  const content = fixture.content.map(({ hoursAgo, ...item }) =>
+    createContent({ ...item, createdAt: new Date(now - hoursAgo * 3600 * 1000) }),
+  );
+
+  return {
+    settings: { ...fixture.settings, contentFolder, cacheFolder },
+    state: {
+      ...fixture.state,
+      content,
+      cacheFolder,
+      preRecording: null,
+      recording: null,
+      currentFolderSizeGb: content.reduce((sum, item) => sum + item.fileSizeKb, 0) / 1024 / 1024,
+      recycleBin: [],
+      recycleBinSizeGb: 0,
+    },
+    gameList: fixture.games,
+  };
+}
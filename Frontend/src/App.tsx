@@ -5,6 +5,8 @@ import Sessions from './Pages/sessions';
 import Clips from './Pages/clips';
 import ReplayBuffer from './Pages/replay-buffer';
 import Highlights from './Pages/highlights';
+import RecycleBin from './Pages/recycle-bin';
+import Stats from './Pages/stats';
 import { SettingsProvider } from './Context/SettingsContext';
 import { AppStateProvider } from './Context/AppStateContext';
 import Video from './Pages/video';
@@ -13,7 +15,14 @@ import { useSelectedMenu } from './Context/SelectedMenuContext';
 import { themeChange } from 'theme-change';
 import { useSettings } from './Context/SettingsContext';
 import { useAppState } from './Context/AppStateContext';
-import { DEFAULT_MENU_ITEMS, MenuItemId, menuItemHasContent } from './Models/types';
+import {
+  DEFAULT_MENU_ITEMS,
+  MenuItemId,
+  findSavedSearchByMenuId,
+  menuItemHasContent,
+} from './Models/types';
+import ContentPage from './Components/ContentPage';
+import { ListFilter } from 'lucide-react';
 import { HTML5Backend } from 'react-dnd-html5-backend';
 import { DndProvider } from 'react-dnd';
 import { SegmentsProvider } from './Context/SegmentsContext';
@@ -24,13 +33,17 @@ import { WebSocketProvider } from './Context/WebSocketContext';
 import { ClippingProvider } from './Context/ClippingContext';
 import { AiHighlightsProvider } from './Context/AiHighlightsContext';
 import { CompressionProvider } from './Context/CompressionContext';
+import { BulkJobsProvider } from './Context/BulkJobsContext';
 import { UpdateProvider } from './Context/UpdateContext';
 import { ObsDownloadProvider } from './Context/ObsDownloadContext';
 import { ReleaseNote } from './Models/WebSocketMessages';
 import { ScrollProvider } from './Context/ScrollContext';
 import { ModalProvider } from './Context/ModalContext';
 import { GeneralMessagesProvider } from './Context/GeneralMessagesContext';
+import { UndoProvider } from './Context/UndoContext';
 import MigrationOverlay from './Components/MigrationOverlay';
+import ProtocolMismatchScreen from './Components/ProtocolMismatchScreen';
+import TrafficInspector from './Components/TrafficInspector';
 import SetupProfileModal from './Components/SetupProfileModal';
 import { useAuth } from './Hooks/useAuth';
 import { useProfile } from './Hooks/useUserProfile';
@@ -77,6 +90,7 @@ function App() {
       menuItemHasContent(id, appState.content);
 
     if (isReachable(selectedMenu as MenuItemId)) return;
+    if (findSavedSearchByMenuId(selectedMenu, settings.savedSearches)?.visible) return;
 
     const defaultId = (settings.defaultMenuItem ?? 'Full Sessions') as MenuItemId;
     const fallback =
@@ -88,6 +102,7 @@ function App() {
   }, [
     settings.menuItems,
     settings.defaultMenuItem,
+    settings.savedSearches,
     selectedMenu,
     setSelectedMenu,
     appState.content,
@@ -107,6 +122,20 @@ function App() {
       );
     }
 
+    const savedSearch = findSavedSearchByMenuId(selectedMenu, settings.savedSearches);
+    if (savedSearch) {
+      return (
+        <ContentPage
+          key={savedSearch.id}
+          contentType={savedSearch.contentType}
+          sectionId={selectedMenu}
+          title={savedSearch.name}
+          Icon={ListFilter}
+          savedSearch={savedSearch}
+        />
+      );
+    }
+
     switch (selectedMenu) {
       case 'Full Sessions':
         return <Sessions />;
@@ -116,6 +145,10 @@ function App() {
         return <Clips />;
       case 'Highlights':
         return <Highlights />;
+      case 'Stats':
+        return <Stats />;
+      case 'Recycle Bin':
+        return <RecycleBin />;
       case 'Settings':
         return <Settings />;
       default:
@@ -140,33 +173,39 @@ export default function AppWrapper() {
   return (
     <WebSocketProvider>
       <MigrationOverlay />
+      <ProtocolMismatchScreen />
+      <TrafficInspector />
       <ScrollProvider>
         <SettingsProvider>
           <AppStateProvider>
             <ReleaseNotesContext.Provider value={{ releaseNotes, setReleaseNotes }}>
               <ModalProvider>
                 <GeneralMessagesProvider>
-                  <SegmentsProvider>
-                    <DndProvider backend={HTML5Backend}>
-                      <UploadProvider>
-                        <ImportProvider>
-                          <ContentMigrationProvider>
-                            <ClippingProvider>
-                              <AiHighlightsProvider>
-                                <CompressionProvider>
-                                  <UpdateProvider>
-                                    <ObsDownloadProvider>
-                                      <App />
-                                    </ObsDownloadProvider>
-                                  </UpdateProvider>
-                                </CompressionProvider>
-                              </AiHighlightsProvider>
-                            </ClippingProvider>
-                          </ContentMigrationProvider>
-                        </ImportProvider>
-                      </UploadProvider>
-                    </DndProvider>
-                  </SegmentsProvider>
+                  <UndoProvider>
+                    <SegmentsProvider>
+                      <DndProvider backend={HTML5Backend}>
+                        <UploadProvider>
+                          <ImportProvider>
+                            <ContentMigrationProvider>
+                              <ClippingProvider>
+                                <AiHighlightsProvider>
+                                  <CompressionProvider>
+                                    <BulkJobsProvider>
+                                      <UpdateProvider>
+                                        <ObsDownloadProvider>
+                                          <App />
+                                        </ObsDownloadProvider>
+                                      </UpdateProvider>
+                                    </BulkJobsProvider>
+                                  </CompressionProvider>
+                                </AiHighlightsProvider>
+                              </ClippingProvider>
+                            </ContentMigrationProvider>
+                          </ImportProvider>
+                        </UploadProvider>
+                      </DndProvider>
+                    </SegmentsProvider>
+                  </UndoProvider>
                 </GeneralMessagesProvider>
               </ModalProvider>
             </ReleaseNotesContext.Provider>
@@ -0,0 +1,39 @@
+import { ReactNode } from 'react';
+import { useWebSocketContext } from '../Context/WebSocketContext';
+
+type TooltipSide = 'top' | 'right' | 'bottom' | 'left';
+
+// Spelled out so Tailwind sees the class names; it doesn't generate ones built at runtime.
+const sideStyles: Record<TooltipSide, string> = {
+  top: 'tooltip-top',
+  right: 'tooltip-right',
+  bottom: 'tooltip-bottom',
+  left: 'tooltip-left',
+};
+
+interface BackendActionTooltipProps {
+  children: ReactNode;
+  side?: TooltipSide;
+  className?: string;
+}
+
+// Explains why an action that needs the backend is disabled. Renders the children untouched
+// while the connection is healthy.
+export default function BackendActionTooltip({
+  children,
+  side = 'top',
+  className = '',
+}: BackendActionTooltipProps) {
+  const { unavailableReason } = useWebSocketContext();
+  if (!unavailableReason) return <>{children}</>;
+
+  return (
+    <div
+      className={`tooltip ${sideStyles[side]} tooltip-warning ${className}`}
+      data-tip={unavailableReason}
+      aria-label={unavailableReason}
+    >
+      {children}
+    </div>
+  );
+}
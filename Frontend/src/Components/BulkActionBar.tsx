@@ -0,0 +1,227 @@
+import { useMemo } from 'react';
+import type { LucideIcon } from 'lucide-react';
+import { Crown, FolderOpen, Gamepad2, Minimize2, PenLine, Tag, Trash2, Upload } from 'lucide-react';
+import { useAppState } from '../Context/AppStateContext';
+import { useSettings } from '../Context/SettingsContext';
+import { useModal } from '../Context/ModalContext';
+import { useBulkJobs } from '../Context/BulkJobsContext';
+import { useWebSocketContext } from '../Context/WebSocketContext';
+import { useUndo } from '../Context/UndoContext';
+import { useCommandFailure } from '../Hooks/useCommandFailure';
+import { includeInHighlight } from '../Models/types';
+import { rpc, sendMessageToBackend } from '../Utils/MessageUtils';
+import { openFileLocation } from '../Utils/FileUtils';
+import Button from './Button';
+import BackendActionTooltip from './BackendActionTooltip';
+import TagEditorModal from './TagEditorModal';
+import ChangeGameModal from './ChangeGameModal';
+import RenameTemplateModal from './RenameTemplateModal';
+import BulkUploadModal from './BulkUploadModal';
+
+interface BulkActionBarProps {
+  selectedIds: string[];
+  onDelete: () => void;
+  onClear: () => void;
+}
+
+// Opening a window per folder gets out of hand quickly, so only the first few are opened.
+const MAX_FOLDERS_TO_OPEN = 5;
+
+const fileNameOf = (filePath: string) => filePath.split(/[\\/]/).pop() ?? filePath;
+const folderOf = (filePath: string) => filePath.replace(/[\\/][^\\/]*$/, '');
+
+// Actions for the page's multi-selection. Each one applies to the selected items it makes sense
+// for, e.g. compressing skips sessions and anything already compressed.
+export default function BulkActionBar({ selectedIds, onDelete, onClear }: BulkActionBarProps) {
+  const { content } = useAppState();
+  const { enableAi, airplaneMode } = useSettings();
+  const { openModal, closeModal } = useModal();
+  const { startJob, failJobItem } = useBulkJobs();
+  const { unavailableReason, supports } = useWebSocketContext();
+  const showCommandFailure = useCommandFailure();
+  const { record } = useUndo();
+
+  // In selection order, so templates number them the way they were picked.
+  const items = useMemo(() => {
+    const byId = new Map(content.map((item) => [item.id, item]));
+    return selectedIds.map((id) => byId.get(id)).filter((item) => !!item);
+  }, [content, selectedIds]);
+
+  const isClip = (type: string) => type === 'Clip' || type === 'Highlight';
+  const compressible = items.filter((item) => isClip(item.type) && !item.compressed);
+  const uploadable = airplaneMode ? [] : items.filter((item) => isClip(item.type));
+  const highlightable =
+    enableAi && supports('aiHighlights')
+      ? items.filter(
+          (item) =>
+            item.type === 'Session' &&
+            item.bookmarks.some((bookmark) => includeInHighlight(bookmark.type)),
+        )
+      : [];
+  const folders = [...new Map(items.map((item) => [folderOf(item.filePath), item])).values()];
+
+  const handleCompress = () => {
+    startJob(
+      'compress',
+      compressible.map((item) => item.filePath),
+    );
+    for (const item of compressible) {
+      rpc('CompressVideo', { Id: item.id }).catch((error) => {
+        failJobItem('compress', item.filePath);
+        showCommandFailure(`Couldn't start compressing ${item.title || item.fileName}`, error);
+      });
+    }
+  };
+
+  const handleUpload = () => {
+    openModal(
+      <BulkUploadModal
+        items={uploadable}
+        onClose={closeModal}
+        onUpload={(visibility) => {
+          startJob(
+            'upload',
+            uploadable.map((item) => fileNameOf(item.filePath)),
+          );
+          for (const item of uploadable) {
+            sendMessageToBackend('UploadContent', {
+              Id: item.id,
+              Title: item.title || item.game,
+              Description: '',
+              Visibility: visibility,
+            });
+          }
+        }}
+      />,
+      { size: 'md' },
+    );
+  };
+
+  const handleCreateHighlights = () => {
+    startJob(
+      'highlight',
+      highlightable.map((item) => item.id),
+    );
+    for (const item of highlightable) {
+      sendMessageToBackend('CreateAiClip', { Id: item.id });
+    }
+  };
+
+  const handleOpenFolders = () => {
+    for (const item of folders.slice(0, MAX_FOLDERS_TO_OPEN)) openFileLocation(item.filePath);
+  };
+
+  const ids = items.map((item) => item.id);
+  const actions: {
+    label: string;
+    Icon: LucideIcon;
+    onClick: () => void;
+    count?: number;
+    needsBackend?: boolean;
+    hidden?: boolean;
+  }[] = [
+    {
+      label: 'Tags',
+      Icon: Tag,
+      onClick: () => openModal(<TagEditorModal ids={ids} onClose={closeModal} />, { size: 'md' }),
+    },
+    {
+      label: 'Game',
+      Icon: Gamepad2,
+      onClick: () =>
+        openModal(<ChangeGameModal ids={ids} recordUndo={record} onClose={closeModal} />, {
+          size: 'md',
+        }),
+    },
+    {
+      label: 'Rename',
+      Icon: PenLine,
+      onClick: () =>
+        openModal(<RenameTemplateModal ids={ids} recordUndo={record} onClose={closeModal} />, {
+          size: 'md',
+        }),
+    },
+    {
+      label: 'Compress',
+      Icon: Minimize2,
+      onClick: handleCompress,
+      count: compressible.length,
+      needsBackend: true,
+    },
+    {
+      label: 'Upload',
+      Icon: Upload,
+      onClick: handleUpload,
+      count: uploadable.length,
+      needsBackend: true,
+      hidden: airplaneMode,
+    },
+    {
+      label: 'Highlights',
+      Icon: Crown,
+      onClick: handleCreateHighlights,
+      count: highlightable.length,
+      needsBackend: true,
+      hidden: !enableAi || !supports('aiHighlights'),
+    },
+    {
+      label: 'Open folder',
+      Icon: FolderOpen,
+      onClick: handleOpenFolders,
+      count: folders.length,
+    },
+  ];
+
+  return (
+    <>
+      <span className="text-sm text-gray-300 whitespace-nowrap" aria-live="polite">
+        {items.length} Selected
+      </span>
+      {actions
+        .filter((action) => !action.hidden)
+        .map(({ label, Icon, onClick, count, needsBackend }) => {
+          const disabled = count === 0 || (needsBackend && !!unavailableReason);
+          const title =
+            count === undefined || count === items.length
+              ? label
+              : count === 0
+                ? `${label}: nothing selected applies`
+                : `${label} ${count} of ${items.length}`;
+          const button = (
+            <Button
+              key={label}
+              variant="primary"
+              size="sm"
+              className="h-8"
+              title={title}
+              disabled={disabled}
+              onClick={onClick}
+            >
+              <Icon size={16} />
+              <span className="hidden xl:inline">{label}</span>
+            </Button>
+          );
+          return needsBackend ? (
+            <BackendActionTooltip key={label}>{button}</BackendActionTooltip>
+          ) : (
+            button
+          );
+        })}
+      <BackendActionTooltip>
+        <Button
+          variant="danger"
+          size="sm"
+          className="h-8"
+          disabled={!!unavailableReason}
+          onClick={onDelete}
+        >
+          <Trash2 size={16} />
+          <span className="hidden xl:inline">Delete</span>
+        </Button>
+      </BackendActionTooltip>
+      <Button variant="primary" size="sm" className="h-8" onClick={onClear}>
+        Cancel
+      </Button>
+    </>
+  );
+}
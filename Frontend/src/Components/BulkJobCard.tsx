@@ -0,0 +1,77 @@
+import { X } from 'lucide-react';
+import { BulkJob, BulkJobKind, isJobFinished, useBulkJobs } from '../Context/BulkJobsContext';
+
+interface BulkJobCardProps {
+  job: BulkJob;
+}
+
+const JOB_LABELS: Record<BulkJobKind, { running: string; finished: string }> = {
+  compress: { running: 'Compressing', finished: 'Compressed' },
+  upload: { running: 'Uploading', finished: 'Uploaded' },
+  highlight: { running: 'Creating highlights for', finished: 'Created highlights for' },
+};
+
+// Combined progress of the compressions, uploads or highlights started from one bulk action.
+export default function BulkJobCard({ job }: BulkJobCardProps) {
+  const { dismissJob } = useBulkJobs();
+  const states = Object.values(job.items);
+  const total = states.length;
+  const done = states.filter((state) => state === 'done').length;
+  const failed = states.filter((state) => state === 'failed').length;
+  const finished = isJobFinished(job);
+  const label = JOB_LABELS[job.kind];
+  const countLabel = `${total} ${total === 1 ? 'video' : 'videos'}`;
+
+  // Finished items count as complete whichever way they ended, so the bar still reaches the end.
+  const progress =
+    states.reduce<number>(
+      (sum, state) => sum + (typeof state === 'number' ? Math.min(Math.max(state, 0), 100) : 100),
+      0,
+    ) / Math.max(total, 1);
+
+  const statusText = finished
+    ? `${label.finished} ${done} of ${countLabel}`
+    : `${label.running} ${done + failed + 1} of ${countLabel}`;
+
+  return (
+    <div className="w-full px-2">
+      <div className="bg-base-300 border border-base-400 border-opacity-75 rounded-lg p-3">
+        <div className="flex items-center gap-3 w-full">
+          {!finished && <span className="loading loading-spinner text-primary"></span>}
+          {finished && (
+            <div
+              className={`w-5 h-5 shrink-0 rounded-full flex items-center justify-center ${failed > 0 ? 'bg-red-500' : 'bg-green-500'}`}
+            >
+              <svg className="w-3 h-3 text-white" fill="currentColor" viewBox="0 0 20 20">
+                <path
+                  fillRule="evenodd"
+                  d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z"
+                  clipRule="evenodd"
+                />
+              </svg>
+            </div>
+          )}
+
+          <div className="min-w-0 flex-1 relative">
+            <button
+              onClick={() => dismissJob(job.id)}
+              className="absolute right-0 top-0 p-1 transition-colors cursor-pointer"
+              aria-label="Dismiss"
+            >
+              <X size={16} />
+            </button>
+            <div className="text-gray-200 text-sm font-medium truncate pr-6">{statusText}</div>
+            {failed > 0 && <div className="text-red-400 text-xs truncate">{failed} failed</div>}
+            <div className="w-full bg-base-200 rounded-full h-1.5 mt-2">
+              <div
+                className={`h-1.5 rounded-full transition-all duration-300 ${finished ? (failed > 0 ? 'bg-red-500' : 'bg-green-500') : 'bg-primary'}`}
+                style={{ width: `${progress}%` }}
+              ></div>
+            </div>
+            <div className="text-gray-500 text-xs mt-1">{progress.toFixed(0)}%</div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import { useState } from 'react';
+import { EyeOff, Globe, Upload } from 'lucide-react';
+import { Content } from '../Models/types';
+import { useAuth } from '../Hooks/useAuth.tsx';
+import Button from './Button';
+import DropdownSelect from './DropdownSelect';
+
+interface BulkUploadModalProps {
+  items: Content[];
+  onUpload: (visibility: 'Public' | 'Unlisted') => void;
+  onClose: () => void;
+}
+
+// Uploads several clips with their current titles. The backend uploads them one after another.
+export default function BulkUploadModal({ items, onUpload, onClose }: BulkUploadModalProps) {
+  const { session } = useAuth();
+  const [visibility, setVisibility] = useState<'Public' | 'Unlisted'>(() =>
+    localStorage.getItem('uploadVisibility') === 'Unlisted' ? 'Unlisted' : 'Public',
+  );
+
+  const handleVisibilityChange = (value: string) => {
+    const next = value === 'Unlisted' ? 'Unlisted' : 'Public';
+    setVisibility(next);
+    localStorage.setItem('uploadVisibility', next);
+  };
+
+  return (
+    <>
+      <div className="modal-header pb-4 border-b border-gray-700">
+        <h2 className="font-bold text-2xl mb-0 flex items-center gap-2">
+          <Upload size={22} />
+          Upload {items.length} {items.length === 1 ? 'video' : 'videos'}
+        </h2>
+        <Button
+          variant="ghost"
+          size="sm"
+          icon
+          className="absolute right-4 top-4 z-10"
+          onClick={onClose}
+        >
+          ✕
+        </Button>
+      </div>
+
+      <div className="modal-body mt-4 space-y-4">
+        <ul className="text-sm space-y-1 max-h-48 overflow-y-auto">
+          {items.map((item) => (
+            <li key={item.id} className="truncate">
+              {item.title || item.game}
+              {!item.title && <span className="text-gray-500"> (untitled, uses the game)</span>}
+            </li>
+          ))}
+        </ul>
+
+        <div className="form-control w-full">
+          <label className="label">
+            <span className="label-text text-base-content">Visibility</span>
+          </label>
+          <DropdownSelect
+            items={[
+              {
+                value: 'Public',
+                label: (
+                  <span className="flex items-center gap-2">
+                    <Globe size={16} />
+                    Public
+                  </span>
+                ),
+              },
+              {
+                value: 'Unlisted',
+                label: (
+                  <span className="flex items-center gap-2">
+                    <EyeOff size={16} />
+                    Unlisted
+                  </span>
+                ),
+              },
+            ]}
+            value={visibility}
+            onChange={handleVisibilityChange}
+            align="start"
+          />
+        </div>
+      </div>
+
+      <div className="modal-action mt-6">
+        <Button
+          variant="primary"
+          className="w-full"
+          disabled={session === null}
+          onClick={() => {
+            onUpload(visibility);
+            onClose();
+          }}
+        >
+          <Upload className="w-5 h-5" />
+          {session === null ? 'Login to upload' : 'Upload all'}
+        </Button>
+      </div>
+    </>
+  );
+}
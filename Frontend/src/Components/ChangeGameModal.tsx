@@ -0,0 +1,148 @@
+import { useMemo, useState } from 'react';
+import { Gamepad2 } from 'lucide-react';
+import { useAppState, usePatchContent } from '../Context/AppStateContext';
+import { useSettings } from '../Context/SettingsContext';
+import { rpc } from '../Utils/MessageUtils';
+import { useCommandFailure } from '../Hooks/useCommandFailure';
+import type { UndoAction } from '../Context/UndoContext';
+import { setContentGameAction } from '../Utils/UndoActions';
+import Button from './Button';
+import GameIcon from './GameIcon';
+
+interface ChangeGameModalProps {
+  ids: string[];
+  // Modals render outside the undo provider, so the opener passes its record function in.
+  recordUndo: (action: UndoAction) => void;
+  onClose: () => void;
+}
+
+const MAX_SUGGESTIONS = 8;
+
+// Moves the selected items to another game, e.g. for recordings detected as the wrong one.
+export default function ChangeGameModal({ ids, recordUndo, onClose }: ChangeGameModalProps) {
+  const { content, gameList } = useAppState();
+  const { games } = useSettings();
+  const patchContent = usePatchContent();
+  const showCommandFailure = useCommandFailure();
+
+  const items = useMemo(() => content.filter((item) => ids.includes(item.id)), [content, ids]);
+  const currentGames = [...new Set(items.map((item) => item.game))];
+  const [input, setInput] = useState(currentGames.length === 1 ? currentGames[0] : '');
+
+  // Games already in the library come first, then the rest of the catalog.
+  const knownGames = useMemo(() => {
+    const names = new Map<string, number | undefined>();
+    for (const item of content) if (!names.has(item.game)) names.set(item.game, item.igdbId);
+    for (const entry of gameList) if (!names.has(entry.name)) names.set(entry.name, entry.igdbId);
+    return [...names].map(([name, igdbId]) => ({ name, igdbId }));
+  }, [content, gameList]);
+
+  const query = input.trim().toLowerCase();
+  const suggestions = query
+    ? knownGames
+        .filter(({ name }) => name.toLowerCase().includes(query) && name.toLowerCase() !== query)
+        .slice(0, MAX_SUGGESTIONS)
+    : [];
+
+  const apply = (name: string) => {
+    const game = name.trim();
+    if (!game || items.length === 0) return;
+    const igdbId = knownGames.find((known) => known.name === game)?.igdbId;
+    const previous = items.map((item) => ({ id: item.id, game: item.game, igdbId: item.igdbId }));
+    // Show the change immediately; the backend's State push confirms it.
+    for (const item of items) patchContent(item.id, { game, igdbId });
+    rpc('SetContentGame', { Ids: items.map((item) => item.id), Game: game, IgdbId: igdbId })
+      .then(() =>
+        recordUndo(
+          setContentGameAction(
+            previous,
+            game,
+            igdbId,
+            `Moved ${items.length} ${items.length === 1 ? 'item' : 'items'} to ${game}`,
+          ),
+        ),
+      )
+      .catch((error) => {
+        for (const { id, game, igdbId } of previous) patchContent(id, { game, igdbId });
+        showCommandFailure("Couldn't change the game", error);
+      });
+    onClose();
+  };
+
+  const iconFor = (name: string, igdbId?: number) => {
+    const setting = games.find((g) => g.name === name);
+    const entry = gameList.find(
+      (candidate) => (igdbId != null && candidate.igdbId === igdbId) || candidate.name === name,
+    );
+    return { iconId: setting?.icon ?? entry?.icon, customIcon: setting?.customIcon };
+  };
+
+  return (
+    <>
+      <div className="modal-header pb-4 border-b border-gray-700">
+        <h2 className="font-bold text-2xl mb-0 flex items-center gap-2">
+          <Gamepad2 size={22} />
+          Change Game
+        </h2>
+        <Button
+          variant="ghost"
+          size="sm"
+          icon
+          className="absolute right-4 top-4 z-10"
+          onClick={onClose}
+        >
+          ✕
+        </Button>
+      </div>
+
+      <div className="modal-body mt-4 space-y-4">
+        <p className="text-sm text-gray-400 truncate">
+          {items.length === 1
+            ? items[0].title || items[0].game || items[0].fileName
+            : `${items.length} selected items`}
+          {currentGames.length > 1 && ` from ${currentGames.length} games`}
+        </p>
+
+        <input
+          autoFocus
+          type="text"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              apply(input);
+            }
+          }}
+          placeholder="Game name"
+          className="input input-sm input-bordered w-full bg-base-200"
+        />
+
+        {suggestions.length > 0 && (
+          <ul className="menu menu-sm bg-base-200 rounded-box p-1">
+            {suggestions.map(({ name, igdbId }) => {
+              const { iconId, customIcon } = iconFor(name, igdbId);
+              return (
+                <li key={name}>
+                  <button type="button" onClick={() => apply(name)}>
+                    <GameIcon iconId={iconId} customIcon={customIcon} name={name} size={20} />
+                    {name}
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+
+      <div className="modal-action mt-6">
+        <Button variant="ghost" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button variant="primary" disabled={!input.trim()} onClick={() => apply(input)}>
+          Change game
+        </Button>
+      </div>
+    </>
+  );
+}
@@ -5,7 +5,7 @@ import { contentTypeToFolderName } from '../Utils/FileUtils';
 import { X } from 'lucide-react';
 import CircularProgress from './CircularProgress';
 
-import { ClippingProgress } from '../Context/ClippingContext';
+import { ClippingProgress } from '../Models/WebSocketMessages';
 
 interface ClippingCardProps {
   clipping: ClippingProgress;
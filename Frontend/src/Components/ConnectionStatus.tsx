@@ -0,0 +1,46 @@
+import { useEffect, useState } from 'react';
+import { ConnectionHealth, useWebSocketContext } from '../Context/WebSocketContext';
+
+const HEALTH_STYLES: Record<ConnectionHealth, { dot: string; label: string }> = {
+  connected: { dot: 'bg-success', label: 'Connected' },
+  unresponsive: { dot: 'bg-warning', label: 'Not responding' },
+  disconnected: { dot: 'bg-error', label: 'Reconnecting' },
+};
+
+const formatAge = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  if (seconds < 60) return `${seconds}s ago`;
+  return `${Math.floor(seconds / 60)}m ago`;
+};
+
+export default function ConnectionStatus() {
+  const { connectionHealth, reconnectAttempts, getLastMessageAt } = useWebSocketContext();
+  const [now, setNow] = useState(() => Date.now());
+
+  // Tick so the last-message age stays current between messages.
+  useEffect(() => {
+    const intervalId = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(intervalId);
+  }, []);
+
+  const { dot, label } = HEALTH_STYLES[connectionHealth];
+  const lastMessageAt = getLastMessageAt();
+  const detail =
+    connectionHealth === 'disconnected'
+      ? reconnectAttempts > 0
+        ? `Attempt ${reconnectAttempts}`
+        : null
+      : lastMessageAt !== null
+        ? `Last message ${formatAge(Math.max(0, now - lastMessageAt))}`
+        : null;
+
+  return (
+    <div className="flex items-center gap-2 px-1 text-xs cursor-default">
+      <span className={`w-2 h-2 shrink-0 rounded-full ${dot}`}></span>
+      <span className={connectionHealth === 'connected' ? 'text-gray-400' : 'text-gray-200'}>
+        {label}
+      </span>
+      {detail && <span className="ml-auto text-gray-500">{detail}</span>}
+    </div>
+  );
+}
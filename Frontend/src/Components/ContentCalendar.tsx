@@ -0,0 +1,216 @@
+import { HTMLAttributes, ReactNode, useMemo, useState } from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { Content, ContentType } from '../Models/types';
+import {
+  ContentDay,
+  dayKey,
+  formatPlaytime,
+  formatSizeKb,
+  groupByDay,
+  monthWeeks,
+  parseDayKey,
+} from '../Utils/ContentCalendar';
+
+interface ContentCalendarProps {
+  // Items of every type, already searched and filtered by the page.
+  items: Content[];
+  renderCard: (item: Content) => ReactNode;
+  // Makes each type's cards a keyboard-reachable list.
+  listboxProps: (label: string) => HTMLAttributes<HTMLElement>;
+}
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const TYPE_ORDER: ContentType[] = ['Session', 'Buffer', 'Clip', 'Highlight'];
+
+const TYPE_LABELS: Record<ContentType, string> = {
+  Session: 'Full Sessions',
+  Buffer: 'Replay Buffers',
+  Clip: 'Clips',
+  Highlight: 'Highlights',
+};
+
+// Heatmap shades, from a little playtime to the month's longest day.
+const PLAYTIME_SHADES = ['bg-primary/20', 'bg-primary/40', 'bg-primary/65', 'bg-primary/90'];
+
+const countLabel = (count: number) => `${count} ${count === 1 ? 'item' : 'items'}`;
+
+function DayCell({
+  date,
+  day,
+  maxPlaytime,
+  isSelected,
+  isToday,
+  onSelect,
+}: {
+  date: Date;
+  day?: ContentDay;
+  maxPlaytime: number;
+  isSelected: boolean;
+  isToday: boolean;
+  onSelect: () => void;
+}) {
+  const shade =
+    day && day.playtimeSeconds > 0 && maxPlaytime > 0
+      ? PLAYTIME_SHADES[
+          Math.min(
+            PLAYTIME_SHADES.length - 1,
+            Math.ceil((day.playtimeSeconds / maxPlaytime) * PLAYTIME_SHADES.length) - 1,
+          )
+        ]
+      : 'bg-base-200';
+
+  return (
+    <button
+      type="button"
+      disabled={!day}
+      onClick={onSelect}
+      title={
+        day
+          ? `${date.toLocaleDateString()}: ${formatPlaytime(day.playtimeSeconds)} played, ${countLabel(day.items.length)}`
+          : undefined
+      }
+      className={`relative aspect-square rounded-md text-xs tabular-nums transition-colors ${shade} ${day ? 'cursor-pointer text-white hover:outline hover:outline-1 hover:outline-primary' : 'text-gray-500'} ${isSelected ? '!outline !outline-2 !outline-primary' : ''} ${isToday ? 'font-bold' : ''}`}
+    >
+      {date.getDate()}
+      {/* Days with only clips or highlights have no playtime, so mark them instead */}
+      {day && day.playtimeSeconds === 0 && (
+        <span className="absolute bottom-1 left-1/2 -translate-x-1/2 w-1 h-1 rounded-full bg-primary" />
+      )}
+    </button>
+  );
+}
+
+// The library by the day it was recorded: a month heatmap of playtime, and everything from the
+// chosen day grouped by type.
+export default function ContentCalendar({ items, renderCard, listboxProps }: ContentCalendarProps) {
+  const days = useMemo(() => groupByDay(items), [items]);
+  const latestDay = useMemo(() => [...days.keys()].sort().pop(), [days]);
+  const todayKey = dayKey(new Date());
+
+  const [month, setMonth] = useState(() => {
+    const date = latestDay ? parseDayKey(latestDay) : new Date();
+    return { year: date.getFullYear(), month: date.getMonth() };
+  });
+  const [selectedDay, setSelectedDay] = useState<string | undefined>(latestDay);
+
+  const weeks = useMemo(() => monthWeeks(month.year, month.month), [month]);
+  const monthDays = weeks
+    .flat()
+    .map((date) => (date ? days.get(dayKey(date)) : undefined))
+    .filter((day): day is ContentDay => !!day);
+  const maxPlaytime = Math.max(0, ...monthDays.map((day) => day.playtimeSeconds));
+  const monthPlaytime = monthDays.reduce((sum, day) => sum + day.playtimeSeconds, 0);
+  const monthLabel = new Date(month.year, month.month, 1).toLocaleDateString(undefined, {
+    month: 'long',
+    year: 'numeric',
+  });
+
+  const shiftMonth = (delta: number) => {
+    const date = new Date(month.year, month.month + delta, 1);
+    setMonth({ year: date.getFullYear(), month: date.getMonth() });
+  };
+
+  const day = selectedDay ? days.get(selectedDay) : undefined;
+
+  return (
+    <div className="flex flex-col lg:flex-row gap-6 items-start">
+      <div className="w-full lg:w-80 shrink-0 p-4 bg-base-300 rounded-lg border border-custom">
+        <div className="flex items-center justify-between mb-3">
+          <button
+            type="button"
+            className="btn btn-ghost btn-xs btn-square"
+            onClick={() => shiftMonth(-1)}
+            aria-label="Previous month"
+          >
+            <ChevronLeft size={16} />
+          </button>
+          <span className="font-semibold">{monthLabel}</span>
+          <button
+            type="button"
+            className="btn btn-ghost btn-xs btn-square"
+            onClick={() => shiftMonth(1)}
+            aria-label="Next month"
+          >
+            <ChevronRight size={16} />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-7 gap-1">
+          {WEEKDAYS.map((weekday) => (
+            <span key={weekday} className="text-center text-[10px] uppercase text-gray-400">
+              {weekday}
+            </span>
+          ))}
+          {weeks
+            .flat()
+            .map((date, i) =>
+              date ? (
+                <DayCell
+                  key={i}
+                  date={date}
+                  day={days.get(dayKey(date))}
+                  maxPlaytime={maxPlaytime}
+                  isSelected={dayKey(date) === selectedDay}
+                  isToday={dayKey(date) === todayKey}
+                  onSelect={() => setSelectedDay(dayKey(date))}
+                />
+              ) : (
+                <span key={i} />
+              ),
+            )}
+        </div>
+
+        <p className="text-xs text-gray-400 mt-3">
+          {monthDays.length > 0
+            ? `${formatPlaytime(monthPlaytime)} played over ${monthDays.length} ${monthDays.length === 1 ? 'day' : 'days'}`
+            : 'Nothing recorded this month'}
+        </p>
+      </div>
+
+      <div className="flex-1 min-w-0 w-full">
+        {day ? (
+          <>
+            <div className="flex items-baseline justify-between mb-4">
+              <h2 className="text-xl font-semibold">
+                {parseDayKey(day.key).toLocaleDateString(undefined, {
+                  weekday: 'long',
+                  month: 'long',
+                  day: 'numeric',
+                  year: 'numeric',
+                })}
+              </h2>
+              <span className="text-sm text-gray-400 tabular-nums">
+                {countLabel(day.items.length)} &bull; {formatPlaytime(day.durationSeconds)} &bull;{' '}
+                {formatSizeKb(day.sizeKb)}
+              </span>
+            </div>
+            <div className="space-y-6">
+              {TYPE_ORDER.map((type) => {
+                const typeItems = day.items.filter((item) => item.type === type);
+                if (typeItems.length === 0) return null;
+                return (
+                  <section key={type}>
+                    <p className="text-xs uppercase tracking-wide text-gray-400 mb-2">
+                      {TYPE_LABELS[type]} ({typeItems.length})
+                    </p>
+                    <div
+                      {...listboxProps(TYPE_LABELS[type])}
+                      className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 2xl:grid-cols-4 gap-4 outline-none"
+                    >
+                      {typeItems.map(renderCard)}
+                    </div>
+                  </section>
+                );
+              })}
+            </div>
+          </>
+        ) : (
+          <div className="flex items-center justify-center h-32 text-gray-500">
+            <p className="text-lg">Pick a day to see what was recorded</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
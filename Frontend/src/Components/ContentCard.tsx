@@ -2,7 +2,7 @@ import { useMemo, useRef, useState, useEffect, useLayoutEffect, useCallback } fr
 import { useSettings } from '../Context/SettingsContext';
 import { useAppState, usePatchContent } from '../Context/AppStateContext';
 import { BookmarkType, Content, includeInHighlight } from '../Models/types';
-import { sendMessageToBackend } from '../Utils/MessageUtils';
+import { rpc, sendMessageToBackend } from '../Utils/MessageUtils';
 import { openFileLocation, contentTypeToFolderName } from '../Utils/FileUtils';
 import { useModal } from '../Context/ModalContext';
 import UploadModal from './UploadModal';
@@ -19,11 +19,24 @@ import {
   ExternalLink,
   Copy,
   Bookmark,
+  Tag,
 } from 'lucide-react';
 import { useAiHighlights } from '../Context/AiHighlightsContext';
 import { useCompression } from '../Context/CompressionContext';
 import Button from './Button';
 import { useDeleteConfirmation } from '../Hooks/useDeleteConfirmation';
+import { useCommandFailure } from '../Hooks/useCommandFailure';
+import { useWebSocketContext } from '../Context/WebSocketContext';
+import { useUndo } from '../Context/UndoContext';
+import { deleteContentAction, renameContentAction } from '../Utils/UndoActions';
+import BackendActionTooltip from './BackendActionTooltip';
+import HighlightedText from './HighlightedText';
+import { ContentSearchMatch } from '../Utils/ContentSearch';
+import { durationToSeconds } from '../Utils/ContentFacets';
+import { frameAt, useScrubFrames } from '../Hooks/useScrubFrames';
+import TagChip from './TagChip';
+import FavoriteButton from './FavoriteButton';
+import TagEditorModal from './TagEditorModal';
 
 type VideoType = 'Session' | 'Buffer' | 'Clip' | 'Highlight';
 
@@ -35,14 +48,8 @@ let hasSeededKnownContent = false;
 // Thumbnails already loaded this session, so a remounted card shows instantly without re-animating.
 const loadedThumbnailKeys = new Set<string>();
 
-// Shared observer that collapses far off-screen cards to fixed-size placeholders.
-const offscreenCallbacks = new Map<Element, (entry: IntersectionObserverEntry) => void>();
-const offscreenObserver = new IntersectionObserver(
-  (entries) => {
-    for (const entry of entries) offscreenCallbacks.get(entry.target)?.(entry);
-  },
-  { rootMargin: '600px 0px' },
-);
+// Chips shown on a card before the rest are summed up as "+N".
+const MAX_CARD_TAGS = 3;
 
 interface VideoCardProps {
   content?: Content; // Optional for skeleton cards
@@ -52,6 +59,10 @@ interface VideoCardProps {
   isSelected?: boolean; // Whether this card is selected in multi-select mode
   isSelectionMode?: boolean; // Whether multi-select mode is active
   isHighlighted?: boolean; // Briefly pulse the card to draw attention (e.g. after import)
+  searchMatch?: ContentSearchMatch; // Spans to highlight while the page is being searched
+  isFocused?: boolean; // Holds the page's keyboard focus (the grid's one tab stop)
+  onFocus?: (video: Content) => void; // The card itself received focus, e.g. by clicking it
+  positionInSet?: { index: number; size: number }; // Place in a virtualized grid, for screen readers
 }
 
 export default function ContentCard({
@@ -62,6 +73,10 @@ export default function ContentCard({
   isSelected = false,
   isSelectionMode = false,
   isHighlighted = false,
+  searchMatch,
+  isFocused = false,
+  onFocus,
+  positionInSet,
 }: VideoCardProps) {
   const { enableAi, showNewBadgeOnVideos, airplaneMode } = useSettings();
   const { cacheFolder, content: allContent } = useAppState();
@@ -70,6 +85,10 @@ export default function ContentCard({
   const { aiProgress } = useAiHighlights();
   const { compressionProgress, isCompressing } = useCompression();
   const confirmDelete = useDeleteConfirmation();
+  const showCommandFailure = useCommandFailure();
+  const { record } = useUndo();
+  const { unavailableReason, supports } = useWebSocketContext();
+  const canCreateHighlight = type === 'Session' && enableAi && supports('aiHighlights');
 
   const isBeingCompressed = content?.filePath ? isCompressing(content.filePath) : false;
   const currentCompressionProgress = content?.filePath
@@ -88,32 +107,17 @@ export default function ContentCard({
     y: number;
   } | null>(null);
   const renameInputRef = useRef<HTMLInputElement>(null);
-  const uploadModalSequenceRef = useRef(0);
-
   const cardRef = useRef<HTMLDivElement>(null);
-  // Card height while collapsed to a placeholder, or null when fully rendered.
-  const [placeholderHeight, setPlaceholderHeight] = useState<number | null>(null);
-  // An open menu opts the card out, so the dropdown/context menu never unmounts mid-use.
-  const showPlaceholder =
-    placeholderHeight !== null && !isDropdownOpen && contextMenuPosition === null;
 
-  useEffect(() => {
-    const el = cardRef.current;
-    if (!el) return;
-    offscreenCallbacks.set(el, (entry) => {
-      if (entry.isIntersecting) {
-        setPlaceholderHeight(null);
-      } else {
-        const { height } = entry.boundingClientRect;
-        setPlaceholderHeight((prev) => (height > 0 ? height : prev));
-      }
-    });
-    offscreenObserver.observe(el);
-    return () => {
-      offscreenObserver.unobserve(el);
-      offscreenCallbacks.delete(el);
-    };
-  }, [isLoading, showPlaceholder]);
+  // How far across the thumbnail the mouse is (0-1) while hovering it, to scrub through the video.
+  const [scrubPosition, setScrubPosition] = useState<number | null>(null);
+  const durationSeconds = content ? durationToSeconds(content.duration) : 0;
+  const scrubFrames = useScrubFrames(
+    content?.filePath,
+    durationSeconds,
+    scrubPosition !== null && !isBeingCompressed,
+  );
+  const uploadModalSequenceRef = useRef(0);
 
   const thumbnailRef = useRef<HTMLImageElement>(null);
   const thumbnailKey = `${type}:${content?.id ?? ''}`;
@@ -152,8 +156,8 @@ export default function ContentCard({
     if (dropdownRef.current) {
       const rect = dropdownRef.current.getBoundingClientRect();
       const spaceBelow = window.innerHeight - rect.bottom;
-      // If less than 245px below, open upward
-      if (spaceBelow < 245) {
+      // If less than 285px below, open upward
+      if (spaceBelow < 285) {
         dropdownRef.current.classList.add('dropdown-top');
       } else {
         dropdownRef.current.classList.remove('dropdown-top');
@@ -261,6 +265,7 @@ export default function ContentCard({
   const formattedDuration = formatDuration(content!.duration);
   const manualBookmarkCount =
     content?.bookmarks?.filter((b) => b.type === BookmarkType.Manual).length ?? 0;
+  const scrubFrame = scrubPosition === null ? undefined : frameAt(scrubFrames, scrubPosition);
 
   // Check if content was created within the last hour and hasn't been viewed yet
   const isRecent = useMemo((): boolean => {
@@ -327,12 +332,19 @@ export default function ContentCard({
       title: `Delete ${type.toLowerCase()}?`,
       description: (
         <>
-          Are you sure you want to permanently delete <strong>{displayName}</strong>?
+          Move <strong>{displayName}</strong> to the recycle bin?
           <br />
-          <span className="text-sm text-gray-400">This action cannot be undone.</span>
+          <span className="text-sm text-gray-400">
+            You can restore it from there until it is deleted for good.
+          </span>
         </>
       ),
-      onConfirm: () => sendMessageToBackend('DeleteContent', parameters),
+      onConfirm: () =>
+        rpc('DeleteContent', parameters)
+          .then(() =>
+            record(deleteContentAction([parameters.Id], `Moved ${displayName} to the recycle bin`)),
+          )
+          .catch((error) => showCommandFailure(`Couldn't delete ${displayName}`, error)),
     });
   };
 
@@ -351,12 +363,28 @@ export default function ContentCard({
     const trimmed = renameValue.trim();
     const invalidChars = /[<>:"/\\|?*]/;
     if (trimmed && invalidChars.test(trimmed)) return;
-    sendMessageToBackend('RenameContent', {
-      Id: content!.id,
-      Title: trimmed,
-    });
+    const previousTitle = content!.title;
+    const id = content!.id;
+    if (trimmed === previousTitle) return;
     // Show the new title immediately; the backend's State push confirms it.
-    patchContent(content!.id, { title: trimmed });
+    patchContent(id, { title: trimmed });
+    rpc('RenameContent', { Id: id, Title: trimmed })
+      .then(() =>
+        record(
+          renameContentAction(
+            [{ id, from: previousTitle, to: trimmed }],
+            `Renamed ${previousTitle || content!.fileName}`,
+          ),
+        ),
+      )
+      .catch((error) => {
+        patchContent(id, { title: previousTitle });
+        showCommandFailure("Couldn't rename video", error);
+      });
+  };
+
+  const handleEditTags = () => {
+    openModal(<TagEditorModal ids={[content!.id]} onClose={closeModal} />, { size: 'md' });
   };
 
   const handleOpenFileLocation = () => openFileLocation(content!.filePath);
@@ -396,6 +424,17 @@ export default function ContentCard({
     };
   }, []);
 
+  // Follow the page's keyboard focus, including onto a card that was scrolled out and remounted.
+  // Focus isn't taken from anything outside the grids, like the search box.
+  useEffect(() => {
+    if (!isFocused || isRenaming) return;
+    const active = document.activeElement;
+    if (active === cardRef.current) return;
+    if (!active || active === document.body || active.closest('[role="listbox"]')) {
+      cardRef.current?.focus({ preventScroll: true });
+    }
+  }, [isFocused, isRenaming]);
+
   const openContextMenu = (event: React.MouseEvent) => {
     if (isBeingCompressed) return;
 
@@ -406,10 +445,10 @@ export default function ContentCard({
 
     const menuWidth = 208;
     const actionCount =
-      3 +
+      4 +
       (!airplaneMode && (type === 'Clip' || type === 'Highlight') ? 1 : 0) +
       (type === 'Clip' || type === 'Highlight' || type === 'Buffer' ? 1 : 0) +
-      (type === 'Session' && enableAi ? 1 : 0) +
+      (canCreateHighlight ? 1 : 0) +
       ((type === 'Clip' || type === 'Highlight') && !content?.compressed ? 1 : 0);
     const menuHeight = actionCount * 40 + 16;
     setContextMenuPosition({
@@ -429,16 +468,19 @@ export default function ContentCard({
     <>
       {!airplaneMode && (type === 'Clip' || type === 'Highlight') && (
         <li>
-          <Button
-            variant="menuPrimary"
-            onClick={() => {
-              closeMenu();
-              handleUpload();
-            }}
-          >
-            <Upload size={20} />
-            <span>Upload</span>
-          </Button>
+          <BackendActionTooltip side="left">
+            <Button
+              variant="menuPrimary"
+              disabled={!!unavailableReason}
+              onClick={() => {
+                closeMenu();
+                handleUpload();
+              }}
+            >
+              <Upload size={20} />
+              <span>Upload</span>
+            </Button>
+          </BackendActionTooltip>
         </li>
       )}
       {(type === 'Clip' || type === 'Highlight' || type === 'Buffer') && (
@@ -457,7 +499,7 @@ export default function ContentCard({
           </Button>
         </li>
       )}
-      {type === 'Session' && enableAi && (
+      {canCreateHighlight && (
         <li>
           <Button
             variant="menuPurple"
@@ -491,6 +533,18 @@ export default function ContentCard({
           <span>Rename</span>
         </Button>
       </li>
+      <li>
+        <Button
+          variant="menu"
+          onClick={() => {
+            closeMenu();
+            handleEditTags();
+          }}
+        >
+          <Tag size={20} />
+          <span>Tags</span>
+        </Button>
+      </li>
       <li>
         <Button
           variant="menu"
@@ -509,7 +563,9 @@ export default function ContentCard({
             variant="menu"
             onClick={() => {
               closeMenu();
-              sendMessageToBackend('CompressVideo', { Id: content!.id });
+              rpc('CompressVideo', { Id: content!.id }).catch((error) =>
+                showCommandFailure("Couldn't start compression", error),
+              );
             }}
           >
             <Minimize2 size={20} />
@@ -518,36 +574,43 @@ export default function ContentCard({
         </li>
       )}
       <li>
-        <Button
-          variant="menuDanger"
-          onClick={() => {
-            closeMenu();
-            handleDelete();
-          }}
-        >
-          <Trash2 size={20} />
-          <span>Delete</span>
-        </Button>
+        <BackendActionTooltip side="left">
+          <Button
+            variant="menuDanger"
+            disabled={!!unavailableReason}
+            onClick={() => {
+              closeMenu();
+              handleDelete();
+            }}
+          >
+            <Trash2 size={20} />
+            <span>Delete</span>
+          </Button>
+        </BackendActionTooltip>
       </li>
     </>
   );
 
-  if (showPlaceholder) {
-    return (
-      <div
-        ref={cardRef}
-        data-content-id={content!.id}
-        className={`card card-compact bg-base-300 w-full border border-[#49515b] ${isSelected ? '!outline !outline-1 !outline-primary' : ''}`}
-        style={{ height: placeholderHeight! }}
-      />
-    );
-  }
-
   return (
     <div
       ref={cardRef}
       data-content-id={content!.id}
-      className={`card card-compact bg-base-300 text-gray-300 w-full border border-[#49515b] ${isSelected ? '!outline !outline-1 !outline-primary' : ''} ${isHighlighted ? 'import-pulse' : ''} ${isBeingCompressed ? 'cursor-default opacity-75' : 'cursor-pointer'} ${isSelectionMode ? 'select-none' : ''}`}
+      role="option"
+      aria-selected={isSelected}
+      aria-label={content!.title || content!.game || content!.fileName}
+      aria-posinset={positionInSet && positionInSet.index + 1}
+      aria-setsize={positionInSet?.size}
+      tabIndex={isFocused ? 0 : -1}
+      className={`group/card card card-compact bg-base-300 text-gray-300 w-full border border-[#49515b] outline-none focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2 focus-visible:ring-offset-base-200 ${isSelected ? '!outline !outline-1 !outline-primary' : ''} ${isHighlighted ? 'import-pulse' : ''} ${isBeingCompressed ? 'cursor-default opacity-75' : 'cursor-pointer'} ${isSelectionMode ? 'select-none' : ''}`}
+      onFocus={(e) => {
+        if (e.target === e.currentTarget) onFocus?.(content!);
+      }}
+      onKeyDown={(e) => {
+        if (e.key === 'F2' && e.target === e.currentTarget && !isBeingCompressed) {
+          e.preventDefault();
+          startRenaming();
+        }
+      }}
       onClick={(e) => {
         if (isBeingCompressed) return;
         if (!isSelectionMode && !e.ctrlKey) markAsViewed();
@@ -555,7 +618,14 @@ export default function ContentCard({
       }}
       onContextMenu={openContextMenu}
     >
-      <figure className="relative aspect-video bg-black">
+      <figure
+        className="relative aspect-video bg-black"
+        onMouseMove={(e) => {
+          const rect = e.currentTarget.getBoundingClientRect();
+          setScrubPosition(Math.min(Math.max((e.clientX - rect.left) / rect.width, 0), 1));
+        }}
+        onMouseLeave={() => setScrubPosition(null)}
+      >
         {/* Shimmer crossfades out as the image fades in, so the figure never flashes black. */}
         <div
           className={`absolute inset-0 rounded-none bg-base-200/75 transition-opacity duration-200 ${thumbnailLoaded ? 'opacity-0' : 'skeleton opacity-100'}`}
@@ -572,6 +642,29 @@ export default function ContentCard({
           onLoad={markThumbnailLoaded}
           onError={markThumbnailLoaded}
         />
+        {scrubFrame && (
+          <img
+            src={scrubFrame}
+            alt=""
+            className="absolute inset-0 w-full h-full object-contain select-none"
+            draggable={false}
+          />
+        )}
+        {/* Mini timeline with a tick per bookmark, to tell recordings apart at a glance */}
+        {scrubPosition !== null && durationSeconds > 0 && (
+          <div className="absolute inset-x-0 bottom-0 h-1 bg-white/20 pointer-events-none">
+            <div className="h-full bg-primary" style={{ width: `${scrubPosition * 100}%` }} />
+            {content!.bookmarks.map((bookmark) => (
+              <span
+                key={bookmark.id}
+                className={`absolute bottom-0 w-0.5 h-2.5 -translate-x-1/2 rounded-full ${bookmark.type === BookmarkType.Death ? 'bg-error' : 'bg-[#EFAF2B]'}`}
+                style={{
+                  left: `${Math.min(durationToSeconds(bookmark.time) / durationSeconds, 1) * 100}%`,
+                }}
+              />
+            ))}
+          </div>
+        )}
         <span className="absolute bottom-2 right-2 bg-black/75 text-white text-xs px-2 py-1 rounded">
           {formattedDuration}
         </span>
@@ -599,11 +692,13 @@ export default function ContentCard({
             <p className="text-white text-sm mb-2">
               {currentCompressionProgress.status === 'compressing'
                 ? 'Compressing...'
-                : currentCompressionProgress.status === 'done'
-                  ? 'Done!'
-                  : currentCompressionProgress.status === 'skipped'
-                    ? 'Skipped'
-                    : 'Error'}
+                : currentCompressionProgress.status === 'queued'
+                  ? 'Queued'
+                  : currentCompressionProgress.status === 'done'
+                    ? 'Done!'
+                    : currentCompressionProgress.status === 'skipped'
+                      ? 'Skipped'
+                      : 'Error'}
             </p>
             {currentCompressionProgress.status === 'compressing' && (
               <div className="w-2/3 h-1.5 bg-white/20 rounded-full overflow-hidden">
@@ -644,9 +739,19 @@ export default function ContentCard({
             />
           ) : (
             <h2 className="card-title !block truncate">
-              {content!.title || content!.game || 'Untitled'}
+              {content!.title ? (
+                <HighlightedText text={content!.title} ranges={searchMatch?.ranges.title} />
+              ) : content!.game ? (
+                <HighlightedText text={content!.game} ranges={searchMatch?.ranges.game} />
+              ) : (
+                'Untitled'
+              )}
             </h2>
           )}
+          <FavoriteButton
+            content={content!}
+            className={`ml-auto mr-1 shrink-0 ${content!.isFavorite ? '' : 'opacity-0 group-hover/card:opacity-100 focus-visible:opacity-100'}`}
+          />
           <div
             ref={dropdownRef}
             className={`dropdown dropdown-end ${isBeingCompressed ? 'pointer-events-none opacity-50' : ''}`}
@@ -689,6 +794,12 @@ export default function ContentCard({
             </ul>
           </div>
         </div>
+        {/* The file name isn't shown otherwise, so say why the search matched this card */}
+        {searchMatch?.ranges.fileName && (
+          <div className="text-xs text-gray-400 truncate">
+            <HighlightedText text={content!.fileName} ranges={searchMatch.ranges.fileName} />
+          </div>
+        )}
         <div className="text-sm text-gray-200 flex items-center justify-between w-full">
           <span>
             {content!.fileSize} &bull; {new Date(content!.createdAt).toLocaleDateString()}
@@ -741,6 +852,21 @@ export default function ContentCard({
             </div>
           )}
         </div>
+        {content!.tags.length > 0 && (
+          <div className="flex flex-wrap gap-1 pt-1">
+            {content!.tags.slice(0, MAX_CARD_TAGS).map((tag) => (
+              <TagChip key={tag} tag={tag} />
+            ))}
+            {content!.tags.length > MAX_CARD_TAGS && (
+              <span
+                className="badge badge-sm h-5 bg-transparent border-base-400 text-gray-400"
+                title={content!.tags.slice(MAX_CARD_TAGS).join(', ')}
+              >
+                +{content!.tags.length - MAX_CARD_TAGS}
+              </span>
+            )}
+          </div>
+        )}
       </div>
 
       {contextMenuPosition && (
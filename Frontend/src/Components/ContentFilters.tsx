@@ -1,34 +1,80 @@
-import { useEffect } from 'react';
 import { ListFilter, ArrowUpDown, Clock, HardDrive, Timer, Gamepad2 } from 'lucide-react';
+import { useSettings } from '../Context/SettingsContext';
+import { SortOption } from '../Models/types';
+import {
+  FacetCounts,
+  FacetKey,
+  FacetSelection,
+  contentFacets,
+  countSelectedFacetOptions,
+  visibleFacetSelection,
+} from '../Utils/ContentFacets';
 
-export type SortOption = 'newest' | 'oldest' | 'size' | 'duration' | 'game';
+export type { SortOption };
 
 export interface ContentFiltersProps {
   uniqueGames: string[];
   onGameFilterChange: (selectedGames: string[]) => void;
   onSortChange: (sortOption: SortOption) => void;
-  sectionId: string;
   selectedGames: string[];
   sortOption: SortOption;
+  // Items each game would show with the other filters applied.
+  gameCounts: Record<string, number>;
+  facetSelection: FacetSelection;
+  facetCounts: FacetCounts;
+  onFacetChange: (selection: FacetSelection) => void;
+  // Tags on the page's items, listed as the Tags facet.
+  tags: string[];
+}
+
+function FilterCheckbox({
+  label,
+  count,
+  checked,
+  onChange,
+}: {
+  label: string;
+  count: number;
+  checked: boolean;
+  onChange: () => void;
+}) {
+  return (
+    <div className="form-control">
+      <label className="cursor-pointer flex w-full items-center justify-start gap-2 px-3 py-2.5 text-white hover:bg-white/5 active:bg-base-200/20 rounded-lg transition-all duration-200 hover:pl-4 outline-none">
+        <input
+          type="checkbox"
+          className="checkbox checkbox-sm checkbox-primary"
+          checked={checked}
+          onChange={onChange}
+        />
+        <span className={`label-text text-sm ${count === 0 && !checked ? 'opacity-50' : ''}`}>
+          {label}
+        </span>
+        <span className="ml-auto text-xs text-gray-400 tabular-nums">{count}</span>
+      </label>
+    </div>
+  );
 }
 
 export default function ContentFilters({
   uniqueGames,
   onGameFilterChange,
   onSortChange,
-  sectionId,
   selectedGames,
   sortOption,
+  gameCounts,
+  facetSelection,
+  facetCounts,
+  onFacetChange,
+  tags,
 }: ContentFiltersProps) {
-  // Persist changes to localStorage
-  useEffect(() => {
-    try {
-      localStorage.setItem(`${sectionId}-filters`, JSON.stringify(selectedGames));
-      localStorage.setItem(`${sectionId}-sort`, JSON.stringify(sortOption));
-    } catch {
-      /* no-op */
-    }
-  }, [selectedGames, sortOption, sectionId]);
+  const { airplaneMode } = useSettings();
+  const facets = contentFacets(tags).filter(
+    (facet) =>
+      !(facet.key === 'uploaded' && airplaneMode) && !(facet.key === 'tags' && tags.length === 0),
+  );
+  const visibleSelection = visibleFacetSelection(facetSelection, airplaneMode);
+  const activeFilterCount = selectedGames.length + countSelectedFacetOptions(visibleSelection);
 
   // UI handlers
   const toggleGameSelection = (game: string) => {
@@ -38,8 +84,17 @@ export default function ContentFilters({
     onGameFilterChange(newSelectedGames);
   };
 
+  const toggleFacetOption = (key: FacetKey, value: string) => {
+    const selected = facetSelection[key] ?? [];
+    onFacetChange({
+      ...facetSelection,
+      [key]: selected.includes(value) ? selected.filter((v) => v !== value) : [...selected, value],
+    });
+  };
+
   const clearFilters = () => {
     onGameFilterChange([]);
+    onFacetChange({});
   };
 
   const handleSortChange = (option: SortOption) => {
@@ -77,37 +132,31 @@ export default function ContentFilters({
         >
           <ListFilter size={16} />
           Filter
-          {selectedGames.length > 0 && (
-            <span className="badge badge-sm badge-primary text-base-300">
-              {selectedGames.length}
-            </span>
+          {activeFilterCount > 0 && (
+            <span className="badge badge-sm badge-primary text-base-300">{activeFilterCount}</span>
           )}
         </button>
         <div
-          className="dropdown-content bg-base-300 border border-base-400 rounded-box z-999 w-64 p-3 mt-1 shadow"
+          className="dropdown-content bg-base-300 border border-base-400 rounded-box z-999 w-72 p-3 mt-1 shadow"
           tabIndex={0}
         >
           <button
-            className={`text-sm ml-2 mb-2 ${selectedGames.length > 0 ? 'text-primary cursor-pointer' : 'text-gray-400 cursor-not-allowed'}`}
+            className={`text-sm ml-2 mb-2 ${activeFilterCount > 0 ? 'text-primary cursor-pointer' : 'text-gray-400 cursor-not-allowed'}`}
             onClick={clearFilters}
           >
             Clear all
           </button>
-          <div className="max-h-60 overflow-y-auto">
+          <div className="max-h-96 overflow-y-auto">
+            <p className="text-xs uppercase tracking-wide text-gray-400 px-3 pt-1 pb-1">Game</p>
             {/* Special "Imported" filter at top - only show if there are imported items */}
             {uniqueGames.includes('Imported') && (
               <>
-                <div className="form-control">
-                  <label className="cursor-pointer flex w-full items-center justify-start gap-2 px-3 py-2.5 text-white hover:bg-white/5 active:bg-base-200/20 rounded-lg transition-all duration-200 hover:pl-4 outline-none">
-                    <input
-                      type="checkbox"
-                      className="checkbox checkbox-sm checkbox-primary"
-                      checked={selectedGames.includes('Imported')}
-                      onChange={() => toggleGameSelection('Imported')}
-                    />
-                    <span className="label-text text-sm">Imported</span>
-                  </label>
-                </div>
+                <FilterCheckbox
+                  label="Imported"
+                  count={gameCounts['Imported'] ?? 0}
+                  checked={selectedGames.includes('Imported')}
+                  onChange={() => toggleGameSelection('Imported')}
+                />
                 <div className=" h-[1px] bg-base-400/60 my-1 mx-2.5 rounded"></div>
               </>
             )}
@@ -115,21 +164,34 @@ export default function ContentFilters({
               uniqueGames
                 .filter((game) => game !== 'Imported')
                 .map((game) => (
-                  <div key={game} className="form-control">
-                    <label className="cursor-pointer flex w-full items-center justify-start gap-2 px-3 py-2.5 text-white hover:bg-white/5 active:bg-base-200/20 rounded-lg transition-all duration-200 hover:pl-4 outline-none">
-                      <input
-                        type="checkbox"
-                        className="checkbox checkbox-sm checkbox-primary"
-                        checked={selectedGames.includes(game)}
-                        onChange={() => toggleGameSelection(game)}
-                      />
-                      <span className="label-text text-sm">{game}</span>
-                    </label>
-                  </div>
+                  <FilterCheckbox
+                    key={game}
+                    label={game}
+                    count={gameCounts[game] ?? 0}
+                    checked={selectedGames.includes(game)}
+                    onChange={() => toggleGameSelection(game)}
+                  />
                 ))
             ) : (
               <p className="text-sm text-base-content/70">No games available</p>
             )}
+            {facets.map((facet) => (
+              <div key={facet.key}>
+                <div className=" h-[1px] bg-base-400/60 my-1 mx-2.5 rounded"></div>
+                <p className="text-xs uppercase tracking-wide text-gray-400 px-3 pt-2 pb-1">
+                  {facet.label}
+                </p>
+                {facet.options.map((option) => (
+                  <FilterCheckbox
+                    key={option.value}
+                    label={option.label}
+                    count={facetCounts[facet.key][option.value] ?? 0}
+                    checked={facetSelection[facet.key]?.includes(option.value) ?? false}
+                    onChange={() => toggleFacetOption(facet.key, option.value)}
+                  />
+                ))}
+              </div>
+            ))}
           </div>
         </div>
       </div>
@@ -1,4 +1,4 @@
-import type { ContentMigrationProgress } from '../Context/ContentMigrationContext';
+import type { ContentMigrationProgress } from '../Models/WebSocketMessages';
 
 interface ContentMigrationCardProps {
   migration: ContentMigrationProgress;
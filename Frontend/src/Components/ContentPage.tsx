@@ -1,22 +1,71 @@
 import { useAppState } from '../Context/AppStateContext';
 import ContentCard from './ContentCard';
 import { useSelectedVideo } from '../Context/SelectedVideoContext';
-import { Content, ContentType } from '../Models/types';
+import { Content, ContentType, SavedSearch } from '../Models/types';
 import { useScroll } from '../Context/ScrollContext';
-import { useLayoutEffect, useRef, useState, useMemo, useEffect, useCallback } from 'react';
+import {
+  useLayoutEffect,
+  useRef,
+  useState,
+  useMemo,
+  useEffect,
+  useCallback,
+  useDeferredValue,
+} from 'react';
 import type { LucideIcon } from 'lucide-react';
-import { FileUp, Trash2 } from 'lucide-react';
+import { CalendarDays, Download, FileUp, Gamepad2, LayoutGrid, Save } from 'lucide-react';
 import { AnimatePresence, motion } from 'framer-motion';
-import { sendMessageToBackend } from '../Utils/MessageUtils';
+import { rpc, sendMessageToBackend } from '../Utils/MessageUtils';
 import ContentFilters, { SortOption } from './ContentFilters';
 import { useModal } from '../Context/ModalContext';
 import { useImports } from '../Context/ImportContext';
 import Button from './Button';
 import { useDeleteConfirmation } from '../Hooks/useDeleteConfirmation';
-
-// Escape a filename for use inside a CSS attribute-selector string. Windows
-// filenames can't contain " or \, but escape defensively all the same.
-const escapeAttrValue = (value: string) => value.replace(/["\\]/g, '\\$&');
+import { useCommandFailure } from '../Hooks/useCommandFailure';
+import { useWebSocketContext } from '../Context/WebSocketContext';
+import ContentSearchBox from './ContentSearchBox';
+import { isEmptySearchQuery, parseSearchQuery, searchContent } from '../Utils/ContentSearch';
+import {
+  FacetSelection,
+  applyFacets,
+  countFacetOptions,
+  durationToSeconds,
+  filterByGames,
+  sanitizeFacetSelection,
+  visibleFacetSelection,
+} from '../Utils/ContentFacets';
+import { useSettings, useSettingsUpdater } from '../Context/SettingsContext';
+import SaveSearchButton from './SaveSearchButton';
+import BulkActionBar from './BulkActionBar';
+import ExportModal from './ExportModal';
+import { useUndo } from '../Context/UndoContext';
+import { deleteContentAction } from '../Utils/UndoActions';
+import { countTags } from '../Utils/ContentTags';
+import { useVirtualGrid } from '../Hooks/useVirtualGrid';
+import ContentCalendar from './ContentCalendar';
+import GameGroupSection from './GameGroupSection';
+import { groupByGame } from '../Utils/GameGroups';
+import {
+  GRID_MOVE_KEYS,
+  GridPosition,
+  GridSection,
+  findInSections,
+  moveInSections,
+  sectionItemIds,
+} from '../Utils/GridNavigation';
+import {
+  SearchCriteria,
+  createSavedSearch,
+  hasSearchCriteria,
+  sameSearchCriteria,
+  savedSearchCriteria,
+} from '../Utils/SavedSearches';
+
+// Grid key of the progress card shown before the items.
+const PROGRESS_CELL = 'progress';
+
+const PAGE_LAYOUTS = ['grid', 'games', 'calendar'] as const;
+type PageLayout = (typeof PAGE_LAYOUTS)[number];
 
 interface ContentPageProps {
   contentType: ContentType;
@@ -26,6 +75,9 @@ interface ContentPageProps {
   progressItems?: Record<string, any>; // For AI highlights or clipping progress
   isProgressVisible?: boolean;
   progressCardElement?: React.ReactNode; // Direct element instead of component
+  // Shows a saved search: its criteria replace the page's remembered ones and changes can be
+  // saved back to it.
+  savedSearch?: SavedSearch;
 }
 
 export default function ContentPage({
@@ -36,12 +88,18 @@ export default function ContentPage({
   progressItems = {},
   isProgressVisible = false,
   progressCardElement,
+  savedSearch,
 }: ContentPageProps) {
   const state = useAppState();
+  const { airplaneMode, savedSearches } = useSettings();
+  const updateSettings = useSettingsUpdater();
   const { setSelectedVideo } = useSelectedVideo();
   const { scrollPositions, setScrollPosition } = useScroll();
-  const { isModalOpen } = useModal();
+  const { isModalOpen, openModal, closeModal } = useModal();
   const confirmDelete = useDeleteConfirmation();
+  const showCommandFailure = useCommandFailure();
+  const { record } = useUndo();
+  const { unavailableReason } = useWebSocketContext();
   const { imports } = useImports();
   const containerRef = useRef<HTMLDivElement>(null);
   const isSettingScroll = useRef(false);
@@ -55,6 +113,9 @@ export default function ContentPage({
   const [selectedItems, setSelectedItems] = useState<Set<string>>(new Set());
   const [isCtrlPressed, setIsCtrlPressed] = useState(false);
   const [highlightedContentId, setHighlightedContentId] = useState<string | null>(null);
+  // The card holding keyboard focus, and where a Shift+arrow range selection starts.
+  const [focusedId, setFocusedId] = useState<string | null>(null);
+  const selectionAnchorRef = useRef<string | null>(null);
   const highlightTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   const contentItems = useMemo(
@@ -62,6 +123,7 @@ export default function ContentPage({
     [state.content, contentType],
   );
   const [selectedGames, setSelectedGames] = useState<string[]>(() => {
+    if (savedSearch) return savedSearch.games;
     try {
       const saved = localStorage.getItem(`${sectionId}-filters`);
       return saved ? JSON.parse(saved) : [];
@@ -71,6 +133,7 @@ export default function ContentPage({
   });
 
   const [sortOption, setSortOption] = useState<SortOption>(() => {
+    if (savedSearch) return savedSearch.sort;
     try {
       const saved = localStorage.getItem(`${sectionId}-sort`);
       return saved ? JSON.parse(saved) : 'newest';
@@ -79,6 +142,31 @@ export default function ContentPage({
     }
   });
 
+  // The calendar groups the whole library by day; the search and filters still apply.
+  const [layout, setLayout] = useState<PageLayout>(() => {
+    const saved = localStorage.getItem(`${sectionId}-layout`);
+    return PAGE_LAYOUTS.find((value) => value === saved) ?? 'grid';
+  });
+  // Games whose section is collapsed in the grouped layout.
+  const [collapsedGames, setCollapsedGames] = useState<string[]>(() => {
+    try {
+      const saved = localStorage.getItem(`${sectionId}-collapsed-games`);
+      return saved ? JSON.parse(saved) : [];
+    } catch {
+      return [];
+    }
+  });
+
+  const [searchText, setSearchText] = useState(savedSearch?.query ?? '');
+  // Searching thousands of items shouldn't hold up typing.
+  const deferredSearchText = useDeferredValue(searchText);
+  const searchInputRef = useRef<HTMLInputElement>(null);
+  const searchQuery = useMemo(() => parseSearchQuery(deferredSearchText), [deferredSearchText]);
+  const searchMatches = useMemo(
+    () => (isEmptySearchQuery(searchQuery) ? null : searchContent(contentItems, searchQuery)),
+    [contentItems, searchQuery],
+  );
+
   const uniqueGames = useMemo(() => {
     const games = contentItems.map((item) => item.game);
     const uniqueGameList = [...new Set(games)].sort();
@@ -90,25 +178,65 @@ export default function ContentPage({
   }, [contentItems]);
 
   useEffect(() => {
+    // A saved search keeps its games until it's edited; pruning them would look like an edit.
+    if (savedSearch) return;
     const availableFilters = new Set(uniqueGames);
 
     setSelectedGames((prev) => {
       const validFilters = prev.filter((game) => availableFilters.has(game));
       return validFilters.length === prev.length ? prev : validFilters;
     });
-  }, [uniqueGames]);
+  }, [uniqueGames, savedSearch]);
 
-  const filteredItems = useMemo(() => {
-    let filtered = [...contentItems];
+  const [facetSelection, setFacetSelection] = useState<FacetSelection>(() => {
+    if (savedSearch) return sanitizeFacetSelection(savedSearch.facets);
+    try {
+      const saved = localStorage.getItem(`${sectionId}-facets`);
+      return saved ? sanitizeFacetSelection(JSON.parse(saved)) : {};
+    } catch {
+      return {};
+    }
+  });
+  const activeFacets = useMemo(
+    () => visibleFacetSelection(facetSelection, airplaneMode),
+    [facetSelection, airplaneMode],
+  );
 
-    if (selectedGames.length > 0) {
-      filtered = filtered.filter((item) => {
-        if (selectedGames.includes('Imported') && item.isImported) {
-          return true;
-        }
-        return selectedGames.filter((g) => g !== 'Imported').includes(item.game);
-      });
+  const searchedItems = useMemo(
+    () =>
+      searchMatches ? contentItems.filter((item) => searchMatches.has(item.id)) : contentItems,
+    [contentItems, searchMatches],
+  );
+
+  const gameFilteredItems = useMemo(
+    () => filterByGames(searchedItems, selectedGames),
+    [searchedItems, selectedGames],
+  );
+
+  // The page's tags for the Tags facet, keeping selected ones that nothing carries any more.
+  const pageTags = useMemo(() => {
+    const tags = countTags(contentItems).map(({ tag }) => tag);
+    const missing = (facetSelection.tags ?? []).filter((tag) => tag && !tags.includes(tag));
+    return [...tags, ...missing];
+  }, [contentItems, facetSelection.tags]);
+
+  const facetCounts = useMemo(
+    () => countFacetOptions(gameFilteredItems, activeFacets, pageTags),
+    [gameFilteredItems, activeFacets, pageTags],
+  );
+
+  // Items per game given the search and facets, for the game checklist.
+  const gameCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    for (const item of applyFacets(searchedItems, activeFacets)) {
+      counts[item.game] = (counts[item.game] ?? 0) + 1;
+      if (item.isImported) counts['Imported'] = (counts['Imported'] ?? 0) + 1;
     }
+    return counts;
+  }, [searchedItems, activeFacets]);
+
+  const filteredItems = useMemo(() => {
+    const filtered = [...applyFacets(gameFilteredItems, activeFacets)];
 
     filtered.sort((a, b) => {
       switch (sortOption) {
@@ -118,11 +246,8 @@ export default function ContentPage({
           return new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
         case 'size':
           return (b.fileSizeKb ?? 0) - (a.fileSizeKb ?? 0);
-        case 'duration': {
-          const toSecs = (dur: string) =>
-            dur.split(':').reduce((acc, t) => 60 * acc + (parseInt(t, 10) || 0), 0);
-          return toSecs(b.duration) - toSecs(a.duration);
-        }
+        case 'duration':
+          return durationToSeconds(b.duration) - durationToSeconds(a.duration);
         case 'game': {
           const byGame = a.game.localeCompare(b.game);
           return byGame !== 0
@@ -135,25 +260,174 @@ export default function ContentPage({
     });
 
     return filtered;
-  }, [contentItems, selectedGames, sortOption]);
+  }, [gameFilteredItems, activeFacets, sortOption]);
+
+  const calendarItems = useMemo(() => {
+    if (layout !== 'calendar') return [];
+    const matches = isEmptySearchQuery(searchQuery)
+      ? null
+      : searchContent(state.content, searchQuery);
+    const searched = matches ? state.content.filter((item) => matches.has(item.id)) : state.content;
+    return applyFacets(filterByGames(searched, selectedGames), activeFacets);
+  }, [layout, state.content, searchQuery, selectedGames, activeFacets]);
+
+  // Only the rows near the viewport are rendered. The progress card, when shown, is the first cell.
+  const showProgressCell = isProgressVisible && !!progressCardElement;
+  const cellKeys = useMemo(
+    () => [...(showProgressCell ? [PROGRESS_CELL] : []), ...filteredItems.map((item) => item.id)],
+    [showProgressCell, filteredItems],
+  );
+  const {
+    attachGrid,
+    rows,
+    columns,
+    totalHeight,
+    isReady,
+    measureRow,
+    indexesInRect,
+    scrollToIndex,
+  } = useVirtualGrid(containerRef, cellKeys);
+
+  const gameGroups = useMemo(
+    () => (layout === 'games' ? groupByGame(filteredItems) : []),
+    [layout, filteredItems],
+  );
+
+  // Marquee selection and keyboard focus run from event closures, so each mounted grid registers
+  // its current layout here: the page grid, or one per expanded game group.
+  const gridSectionsRef = useRef(new Map<string, GridSection>());
+  const registerGridSection = useCallback((key: string, section: GridSection | null) => {
+    if (section) gridSectionsRef.current.set(key, section);
+    else gridSectionsRef.current.delete(key);
+  }, []);
+  useLayoutEffect(() => {
+    if (layout !== 'grid') return;
+    registerGridSection('grid', {
+      ids: cellKeys.map((key) => (key === PROGRESS_CELL ? null : key)),
+      columns,
+      hitTest: (rect) =>
+        indexesInRect(rect)
+          .map((index) => cellKeys[index])
+          .filter((key) => key !== PROGRESS_CELL),
+      scrollToIndex: (index) => scrollToIndex(index, 'auto', 'nearest'),
+    });
+    return () => registerGridSection('grid', null);
+  }, [layout, indexesInRect, scrollToIndex, cellKeys, columns, registerGridSection]);
+
+  // The registered grids in page order. The calendar has none, so arrows don't move through it.
+  const sectionKeys = useMemo(
+    () => (layout === 'grid' ? ['grid'] : layout === 'games' ? gameGroups.map((g) => g.game) : []),
+    [layout, gameGroups],
+  );
+
+  // Each card's place in its grid, for screen readers, since most of the grid isn't rendered.
+  const cardPositions = useMemo(() => {
+    const positions = new Map<string, { index: number; size: number }>();
+    const grids = layout === 'games' ? gameGroups.map((group) => group.items) : [filteredItems];
+    for (const items of grids) {
+      items.forEach((item, index) => positions.set(item.id, { index, size: items.length }));
+    }
+    return positions;
+  }, [layout, gameGroups, filteredItems]);
+
+  // Pages remember their filters; a saved search only changes when its changes are saved.
+  const persist = (key: string, value: unknown) => {
+    if (!savedSearch) localStorage.setItem(`${sectionId}-${key}`, JSON.stringify(value));
+  };
 
   const handleGameFilterChange = (games: string[]) => {
     setSelectedGames(games);
-    localStorage.setItem(`${sectionId}-filters`, JSON.stringify(games));
+    persist('filters', games);
+  };
+
+  const handleFacetChange = (selection: FacetSelection) => {
+    setFacetSelection(selection);
+    persist('facets', selection);
   };
 
   const handleSortChange = (option: SortOption) => {
     setSortOption(option);
-    localStorage.setItem(`${sectionId}-sort`, JSON.stringify(option));
+    persist('sort', option);
+  };
+
+  const handleLayoutChange = (next: PageLayout) => {
+    setLayout(next);
+    localStorage.setItem(`${sectionId}-layout`, next);
+  };
+
+  const toggleGameCollapsed = (game: string) => {
+    const next = collapsedGames.includes(game)
+      ? collapsedGames.filter((g) => g !== game)
+      : [...collapsedGames, game];
+    setCollapsedGames(next);
+    localStorage.setItem(`${sectionId}-collapsed-games`, JSON.stringify(next));
+  };
+
+  const handleSelectGroup = (ids: string[], select: boolean) => {
+    setSelectedItems((prev) => {
+      const next = new Set(prev);
+      for (const id of ids) {
+        if (select) next.add(id);
+        else next.delete(id);
+      }
+      return next;
+    });
+  };
+
+  const criteria: SearchCriteria = {
+    query: searchText,
+    games: selectedGames,
+    facets: facetSelection,
+    sort: sortOption,
+  };
+  const hasUnsavedChanges =
+    !!savedSearch && !sameSearchCriteria(criteria, savedSearchCriteria(savedSearch));
+
+  const handleSaveSearch = (name: string) => {
+    updateSettings({
+      savedSearches: [...savedSearches, createSavedSearch(name, contentType, criteria)],
+    });
+  };
+
+  const handleUpdateSavedSearch = () => {
+    if (!savedSearch) return;
+    const updated = createSavedSearch(savedSearch.name, contentType, criteria);
+    updateSettings({
+      savedSearches: savedSearches.map((search) =>
+        search.id === savedSearch.id
+          ? { ...updated, id: search.id, visible: search.visible }
+          : search,
+      ),
+    });
+  };
+
+  // Exports what the page shows after its search and filters, or the selection.
+  const handleExport = () => {
+    const selected = state.content.filter((item) => selectedItems.has(item.id));
+    openModal(
+      <ExportModal
+        viewItems={layout === 'calendar' ? calendarItems : filteredItems}
+        selectedItems={selected}
+        sectionId={sectionId}
+        onClose={closeModal}
+      />,
+      { size: 'md' },
+    );
   };
 
   const handlePlay = (video: Content) => {
     setSelectedVideo(video);
   };
 
+  const handleCardFocus = useCallback((video: Content) => {
+    setFocusedId(video.id);
+    if (!selectionAnchorRef.current) selectionAnchorRef.current = video.id;
+  }, []);
+
   const handleCardClick = useCallback(
     (video: Content, event?: React.MouseEvent) => {
       if (event?.ctrlKey || isCtrlPressed) {
+        selectionAnchorRef.current = video.id;
         setSelectedItems((prev) => {
           const newSet = new Set(prev);
           if (newSet.has(video.id)) {
@@ -175,30 +449,123 @@ export default function ContentPage({
   );
 
   const handleDeleteSelected = useCallback(() => {
-    if (selectedItems.size === 0) return;
+    if (selectedItems.size === 0 || unavailableReason) return;
 
     const ids = Array.from(selectedItems);
 
     const count = ids.length;
     confirmDelete({
       title: `Delete ${count} ${count === 1 ? 'item' : 'items'}?`,
-      description: `Are you sure you want to permanently delete the selected ${count === 1 ? 'item' : `${count} items`}?\n\nThis action cannot be undone.`,
+      description: `Move the selected ${count === 1 ? 'item' : `${count} items`} to the recycle bin?\n\nYou can restore ${count === 1 ? 'it' : 'them'} from there until ${count === 1 ? 'it is' : 'they are'} deleted for good.`,
       onConfirm: () => {
-        sendMessageToBackend('DeleteMultipleContent', { Ids: ids });
+        rpc('DeleteMultipleContent', { Ids: ids }, { timeoutMs: 120000 })
+          .then(({ deletedIds, failedIds }) => {
+            if (deletedIds.length > 0) {
+              record(
+                deleteContentAction(
+                  deletedIds,
+                  `Moved ${deletedIds.length} ${deletedIds.length === 1 ? 'item' : 'items'} to the recycle bin`,
+                ),
+              );
+            }
+            if (failedIds.length > 0) {
+              showCommandFailure(
+                `Couldn't delete ${failedIds.length} of ${count} items`,
+                'They may be open in another program.',
+              );
+            }
+          })
+          .catch((error) => showCommandFailure("Couldn't delete the selected items", error));
         setSelectedItems(new Set());
       },
     });
-  }, [selectedItems, confirmDelete]);
+  }, [selectedItems, unavailableReason, confirmDelete, showCommandFailure, record]);
 
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if (isModalOpen) return;
+
+      if (e.ctrlKey && e.key === 'f') {
+        e.preventDefault();
+        searchInputRef.current?.focus();
+        searchInputRef.current?.select();
+        return;
+      }
+
       if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
 
       if (e.key === 'Control') {
         setIsCtrlPressed(true);
       }
 
+      const target = e.target as HTMLElement;
+      const move = GRID_MOVE_KEYS[e.key];
+      if (move && !e.ctrlKey && !e.altKey && !target.closest('.dropdown, .menu')) {
+        const sections = sectionKeys
+          .map((key) => gridSectionsRef.current.get(key))
+          .filter((section) => !!section);
+        const order = sectionItemIds(sections);
+        if (order.length === 0) return;
+        e.preventDefault();
+
+        const from = focusedId ? findInSections(sections, focusedId) : null;
+        let to: GridPosition | null;
+        if (from) {
+          to = moveInSections(sections, from, move);
+        } else if (move === 'first' || move === 'last') {
+          to = findInSections(sections, move === 'first' ? order[0] : order[order.length - 1]);
+        } else {
+          // Nothing focused yet: start from the first card on screen.
+          const c = containerRef.current!;
+          const viewport = {
+            left: 0,
+            top: c.scrollTop,
+            width: c.clientWidth,
+            height: c.clientHeight,
+          };
+          const visible = sections.flatMap(({ hitTest }) => hitTest(viewport));
+          to = findInSections(sections, visible[0] ?? order[0]);
+        }
+        const id = to && sections[to.section].ids[to.index];
+        if (!to || !id) return;
+
+        sections[to.section].scrollToIndex(to.index);
+        setFocusedId(id);
+        if (e.shiftKey) {
+          const anchor = selectionAnchorRef.current ?? focusedId ?? id;
+          const anchorIndex = order.indexOf(anchor);
+          const [start, end] = [
+            anchorIndex < 0 ? order.indexOf(id) : anchorIndex,
+            order.indexOf(id),
+          ].sort((a, b) => a - b);
+          if (anchorIndex < 0) selectionAnchorRef.current = id;
+          setSelectedItems(new Set(order.slice(start, end + 1)));
+        } else {
+          selectionAnchorRef.current = id;
+        }
+        return;
+      }
+
+      // Enter and Space act on the focused card, leaving buttons inside it to handle their own.
+      const card = target.closest<HTMLElement>('[data-content-id]');
+      if (card && card === target && (e.key === 'Enter' || e.key === ' ')) {
+        const id = card.dataset.contentId!;
+        e.preventDefault();
+        if (e.key === 'Enter') {
+          const video = state.content.find((item) => item.id === id);
+          if (video) setSelectedVideo(video);
+        } else {
+          selectionAnchorRef.current = id;
+          setSelectedItems((prev) => {
+            const next = new Set(prev);
+            if (next.has(id)) next.delete(id);
+            else next.add(id);
+            return next;
+          });
+        }
+        return;
+      }
+
       if (e.ctrlKey && e.key === 'a') {
         e.preventDefault();
         if (selectedItems.size === filteredItems.length && filteredItems.length > 0) {
@@ -237,7 +604,16 @@ export default function ContentPage({
       window.removeEventListener('keyup', handleKeyUp);
       window.removeEventListener('blur', handleBlur);
     };
-  }, [selectedItems, filteredItems, isModalOpen, handleDeleteSelected]);
+  }, [
+    selectedItems,
+    filteredItems,
+    isModalOpen,
+    handleDeleteSelected,
+    sectionKeys,
+    focusedId,
+    state.content,
+    setSelectedVideo,
+  ]);
 
   const prevContentIdsRef = useRef<string>('');
 
@@ -298,12 +674,10 @@ export default function ContentPage({
     if (highlightTimeoutRef.current) clearTimeout(highlightTimeoutRef.current);
     highlightTimeoutRef.current = setTimeout(() => setHighlightedContentId(null), 2600);
 
-    requestAnimationFrame(() => {
-      containerRef.current
-        ?.querySelector(`[data-content-id="${escapeAttrValue(newItem.id)}"]`)
-        ?.scrollIntoView({ behavior: 'smooth', block: 'center' });
-    });
-  }, [contentItems]);
+    // The card may not be rendered yet, so scroll to its position in the grid.
+    const index = cellKeys.indexOf(newItem.id);
+    if (index >= 0 && layout === 'grid') requestAnimationFrame(() => scrollToIndex(index));
+  }, [contentItems, cellKeys, scrollToIndex, layout]);
 
   useEffect(() => {
     return () => {
@@ -311,7 +685,11 @@ export default function ContentPage({
     };
   }, []);
 
+  // Restore the scroll position once the grid knows its width, so the rows above it have heights.
+  const hasRestoredScroll = useRef(false);
   useLayoutEffect(() => {
+    if ((layout === 'grid' && !isReady) || hasRestoredScroll.current) return;
+    hasRestoredScroll.current = true;
     const position =
       sectionId === 'clips'
         ? scrollPositions.clips
@@ -330,7 +708,7 @@ export default function ContentPage({
         isSettingScroll.current = false;
       }, 100);
     }
-  }, []); // Only run on mount
+  }, [isReady, layout]); // Only run once the grid is ready
 
   const scrollTimeout = useRef<ReturnType<typeof setTimeout> | null>(null);
 
@@ -371,7 +749,8 @@ export default function ContentPage({
 
   const handleMarqueeMouseDown = (e: React.MouseEvent) => {
     const container = containerRef.current;
-    if (!container || e.button !== 0) return;
+    // The calendar's cards aren't laid out in the grid the marquee hit-tests against.
+    if (!container || e.button !== 0 || layout === 'calendar') return;
 
     const target = e.target as HTMLElement;
     if (
@@ -426,21 +805,11 @@ export default function ContentPage({
       const height = Math.abs(drag.anchorY - y);
       setMarqueeRect({ left, top, width, height });
 
+      // Hit-test against the grid layout rather than the DOM, since most cards aren't rendered.
       const ids = new Set(drag.baseSelection);
-      c.querySelectorAll('[data-content-id]').forEach((el) => {
-        const r = el.getBoundingClientRect();
-        const elLeft = r.left - cRect.left + c.scrollLeft;
-        const elTop = r.top - cRect.top + c.scrollTop;
-        const intersects =
-          left < elLeft + r.width &&
-          left + width > elLeft &&
-          top < elTop + r.height &&
-          top + height > elTop;
-        if (intersects) {
-          const id = el.getAttribute('data-content-id');
-          if (id) ids.add(id);
-        }
-      });
+      for (const { hitTest } of gridSectionsRef.current.values()) {
+        for (const id of hitTest({ left, top, width, height })) ids.add(id);
+      }
       setSelectedItems(ids);
     };
 
@@ -480,6 +849,38 @@ export default function ContentPage({
     window.addEventListener('blur', handleWindowBlur);
   };
 
+  const renderCard = (item: Content) => (
+    <ContentCard
+      key={item.id}
+      content={item}
+      onClick={(v, e) => handleCardClick(v, e)}
+      type={item.type}
+      isSelected={selectedItems.has(item.id)}
+      isSelectionMode={isCtrlPressed || selectedItems.size > 0 || marqueeRect !== null}
+      isHighlighted={item.id === highlightedContentId}
+      searchMatch={searchMatches?.get(item.id)}
+      isFocused={item.id === focusedId}
+      onFocus={handleCardFocus}
+      positionInSet={layout === 'calendar' ? undefined : cardPositions.get(item.id)}
+    />
+  );
+
+  // A grid is a single tab stop: the focused card, or the grid itself until a card has focus.
+  const listboxProps = (label: string) => ({
+    role: 'listbox',
+    'aria-label': label,
+    'aria-multiselectable': true,
+    tabIndex: focusedId && cardPositions.has(focusedId) ? -1 : 0,
+    onFocus: (e: React.FocusEvent<HTMLElement>) => {
+      if (e.target !== e.currentTarget) return;
+      // Hand focus to the first card on screen; rows above it are rendered but scrolled out.
+      const top = containerRef.current?.getBoundingClientRect().top ?? 0;
+      const cards = e.currentTarget.querySelectorAll<HTMLElement>('[data-content-id]');
+      const first = [...cards].find((card) => card.getBoundingClientRect().bottom > top);
+      first?.focus({ preventScroll: true });
+    },
+  });
+
   const progressValues = Object.values(progressItems);
   const hasProgress = progressValues.length > 0;
 
@@ -495,6 +896,26 @@ export default function ContentPage({
           <h1 className="text-3xl font-bold">{title}</h1>
         </div>
         <div className="flex items-center gap-2">
+          {hasUnsavedChanges ? (
+            <Button
+              variant="primary"
+              size="sm"
+              className="no-animation h-8 gap-1"
+              onClick={handleUpdateSavedSearch}
+            >
+              <Save size={16} />
+              Save changes
+            </Button>
+          ) : (
+            !savedSearch &&
+            hasSearchCriteria(criteria) && <SaveSearchButton onSave={handleSaveSearch} />
+          )}
+          <ContentSearchBox
+            ref={searchInputRef}
+            value={searchText}
+            onChange={setSearchText}
+            invalid={searchQuery.invalid}
+          />
           {(sectionId === 'sessions' || sectionId === 'replayBuffer') && (
             <Button
               variant="primary"
@@ -506,33 +927,114 @@ export default function ContentPage({
               Import
             </Button>
           )}
+          <Button
+            variant="primary"
+            size="sm"
+            className="no-animation h-8 gap-1"
+            onClick={handleExport}
+          >
+            <Download size={16} />
+            Export
+          </Button>
+          <div className="join">
+            {(
+              [
+                ['grid', LayoutGrid, 'Grid'],
+                ['games', Gamepad2, 'Group by game'],
+                ['calendar', CalendarDays, 'Calendar'],
+              ] as const
+            ).map(([value, LayoutIcon, label]) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => handleLayoutChange(value)}
+                aria-pressed={layout === value}
+                title={label}
+                className={`btn btn-sm btn-secondary join-item no-animation h-8 px-2 border border-base-400 hover:border-base-400 ${layout === value ? 'text-primary' : 'text-gray-300 hover:text-primary'}`}
+              >
+                <LayoutIcon size={16} />
+              </button>
+            ))}
+          </div>
           <ContentFilters
             uniqueGames={uniqueGames}
             onGameFilterChange={handleGameFilterChange}
+            gameCounts={gameCounts}
+            facetSelection={facetSelection}
+            facetCounts={facetCounts}
+            onFacetChange={handleFacetChange}
+            tags={pageTags}
             onSortChange={handleSortChange}
-            sectionId={sectionId}
             selectedGames={selectedGames}
             sortOption={sortOption}
           />
         </div>
       </div>
 
-      {contentItems.length > 0 || hasProgress ? (
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 2xl:grid-cols-5 gap-4">
-          {isProgressVisible && progressCardElement}
-
-          {filteredItems.map((video) => (
-            <ContentCard
-              key={video.id}
-              content={video}
-              onClick={(v, e) => handleCardClick(v, e)}
-              type={contentType}
-              isSelected={selectedItems.has(video.id)}
-              isSelectionMode={isCtrlPressed || selectedItems.size > 0 || marqueeRect !== null}
-              isHighlighted={video.id === highlightedContentId}
-            />
-          ))}
-        </div>
+      {layout === 'calendar' ? (
+        <ContentCalendar
+          items={calendarItems}
+          renderCard={renderCard}
+          listboxProps={listboxProps}
+        />
+      ) : contentItems.length > 0 || hasProgress ? (
+        <>
+          {layout === 'games' ? (
+            <div className="space-y-6">
+              {showProgressCell && (
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 2xl:grid-cols-5 gap-4">
+                  {progressCardElement}
+                </div>
+              )}
+              {gameGroups.map((group) => (
+                <GameGroupSection
+                  key={group.game}
+                  group={group}
+                  scrollRef={containerRef}
+                  collapsed={collapsedGames.includes(group.game)}
+                  onToggleCollapsed={() => toggleGameCollapsed(group.game)}
+                  selectedItems={selectedItems}
+                  onSelectAll={handleSelectGroup}
+                  renderCard={renderCard}
+                  listboxProps={listboxProps(group.game)}
+                  registerGridSection={registerGridSection}
+                />
+              ))}
+            </div>
+          ) : (
+            <div
+              ref={attachGrid}
+              {...listboxProps(title)}
+              className="relative outline-none"
+              style={{ height: totalHeight }}
+            >
+              {rows.map((row) => (
+                <div
+                  key={row.index}
+                  ref={measureRow}
+                  data-row-index={row.index}
+                  className="absolute inset-x-0 grid gap-4"
+                  style={{
+                    top: row.top,
+                    gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`,
+                  }}
+                >
+                  {cellKeys.slice(row.start, row.end).map((key, i) => {
+                    if (key === PROGRESS_CELL) {
+                      return <div key={key}>{progressCardElement}</div>;
+                    }
+                    return renderCard(filteredItems[row.start + i - (showProgressCell ? 1 : 0)]);
+                  })}
+                </div>
+              ))}
+            </div>
+          )}
+          {contentItems.length > 0 && filteredItems.length === 0 && (
+            <div className="flex flex-col items-center justify-center h-32 text-gray-500">
+              <p className="text-lg">No {title.toLowerCase()} match your search and filters</p>
+            </div>
+          )}
+        </>
       ) : (
         <div className="flex flex-col items-center justify-center h-64 text-gray-500">
           <Icon size={60} className="mb-4" />
@@ -563,19 +1065,11 @@ export default function ContentPage({
             data-marquee-ignore
             className="fixed bottom-3 left-1/2 -translate-x-1/2 bg-base-300 border border-base-400 rounded-xl px-4 py-2 flex items-center gap-3 shadow-lg z-50"
           >
-            <span className="text-sm text-gray-300">{selectedItems.size} Selected</span>
-            <Button variant="danger" size="sm" className="h-8" onClick={handleDeleteSelected}>
-              <Trash2 size={16} />
-              Delete
-            </Button>
-            <Button
-              variant="primary"
-              size="sm"
-              className="h-8"
-              onClick={() => setSelectedItems(new Set())}
-            >
-              Cancel
-            </Button>
+            <BulkActionBar
+              selectedIds={Array.from(selectedItems)}
+              onDelete={handleDeleteSelected}
+              onClear={() => setSelectedItems(new Set())}
+            />
           </motion.div>
         )}
       </AnimatePresence>
@@ -0,0 +1,74 @@
+import { forwardRef } from 'react';
+import { CircleHelp, Search, X } from 'lucide-react';
+
+interface ContentSearchBoxProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Filters from the query that were ignored, e.g. `type:video`.
+  invalid: string[];
+}
+
+const SYNTAX_HELP: [string, string][] = [
+  ['clutch ace', 'Titles, games, file names, bookmarks and dates'],
+  ['game:cs2', 'Game name or initials'],
+  ['type:clip', 'session, buffer, clip or highlight'],
+  ['has:headshot', 'Bookmark type, or favorite, uploaded, compressed, imported'],
+  ['tag:funny', 'One of your tags'],
+  ['on:tuesday', 'Also today, yesterday or 2025-06-03'],
+  ['before: after:', 'Recorded before or after a day'],
+  ['title:"last round"', 'Quotes keep words together'],
+  ['-has:death', 'Leave out what matches'],
+];
+
+const ContentSearchBox = forwardRef<HTMLInputElement, ContentSearchBoxProps>(
+  ({ value, onChange, invalid }, ref) => (
+    <div className="relative flex items-center">
+      <Search size={16} className="absolute left-2.5 text-gray-400 pointer-events-none" />
+      <input
+        ref={ref}
+        type="text"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Escape' && value) {
+            e.stopPropagation();
+            onChange('');
+          }
+        }}
+        placeholder="Search"
+        className={`input input-sm h-8 w-64 pl-8 pr-14 bg-base-300 border ${invalid.length > 0 ? 'border-warning' : 'border-base-400'} focus:outline-none focus:border-primary`}
+        title={invalid.length > 0 ? `Ignored: ${invalid.join(' ')}` : undefined}
+      />
+      {value && (
+        <button
+          type="button"
+          className="absolute right-7 text-gray-400 hover:text-white"
+          onClick={() => onChange('')}
+          aria-label="Clear search"
+        >
+          <X size={14} />
+        </button>
+      )}
+      <div className="dropdown dropdown-end absolute right-2">
+        <label tabIndex={0} className="text-gray-400 hover:text-white cursor-pointer flex">
+          <CircleHelp size={14} />
+        </label>
+        <div
+          tabIndex={0}
+          className="dropdown-content bg-base-300 border border-base-400 rounded-box z-999 w-96 p-3 mt-2 shadow text-sm"
+        >
+          {SYNTAX_HELP.map(([example, description]) => (
+            <div key={example} className="flex gap-3 py-1">
+              <code className="w-36 shrink-0 text-primary">{example}</code>
+              <span className="text-gray-300">{description}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  ),
+);
+
+ContentSearchBox.displayName = 'ContentSearchBox';
+
+export default ContentSearchBox;
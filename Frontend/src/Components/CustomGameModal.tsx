@@ -1,6 +1,6 @@
 import { useState, useEffect, useRef } from 'react';
 import { sendMessageToBackend } from '../Utils/MessageUtils';
-import { isSelectedGameExecutableMessage } from '../Models/WebSocketMessages';
+import { useBackendMessage } from '../Hooks/useBackendMessage';
 import { FolderOpen, Plus } from 'lucide-react';
 import Button from './Button';
 import ConfirmationModal from './ConfirmationModal';
@@ -39,43 +39,27 @@ export default function CustomGameModal({ onSave, onClose, initialName }: Custom
   const [pathPendingRemoval, setPathPendingRemoval] = useState<string | null>(null);
   const autoOpenedRef = useRef(false);
 
-  useEffect(() => {
-    const handleWebSocketMessage = (event: CustomEvent<any>) => {
-      const message = event.detail;
-
-      if (isSelectingFile && isSelectedGameExecutableMessage(message)) {
-        const content = message.content as {
-          name: string;
-          paths?: string[];
-          igdbId?: number | null;
-          icon?: string | null;
-          customIcon?: string | null;
-        };
-        const path = content.paths?.[0] || '';
-        if (path) {
-          setSelectedExes((prev) =>
-            prev.some((e) => e.path === path)
-              ? prev
-              : [
-                  ...prev,
-                  {
-                    path,
-                    name: content.name,
-                    igdbId: content.igdbId ?? null,
-                    icon: content.icon ?? null,
-                    customIcon: content.customIcon ?? null,
-                  },
-                ],
-          );
-        }
-        setIsSelectingFile(false);
-      }
-    };
-
-    window.addEventListener('websocket-message', handleWebSocketMessage as EventListener);
-    return () =>
-      window.removeEventListener('websocket-message', handleWebSocketMessage as EventListener);
-  }, [isSelectingFile]);
+  useBackendMessage('SelectedGameExecutable', (content) => {
+    if (!isSelectingFile) return;
+    const path = content.paths?.[0] || '';
+    if (path) {
+      setSelectedExes((prev) =>
+        prev.some((e) => e.path === path)
+          ? prev
+          : [
+              ...prev,
+              {
+                path,
+                name: content.name,
+                igdbId: content.igdbId ?? null,
+                icon: content.icon ?? null,
+                customIcon: content.customIcon ?? null,
+              },
+            ],
+      );
+    }
+    setIsSelectingFile(false);
+  });
 
   // Suggest a name from the selected executables (a catalog match wins) until the user edits it.
   useEffect(() => {
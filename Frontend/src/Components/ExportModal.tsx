@@ -0,0 +1,170 @@
+import { useState } from 'react';
+import { Download } from 'lucide-react';
+import { Content } from '../Models/types';
+import {
+  EXPORT_COLUMNS,
+  ExportColumn,
+  ExportFormat,
+  exportContent,
+  loadExportTemplate,
+  saveExportTemplate,
+} from '../Utils/ContentExport';
+import Button from './Button';
+
+interface ExportModalProps {
+  // What the page shows after its search and filters.
+  viewItems: Content[];
+  selectedItems: Content[];
+  // Names the file, e.g. "clips".
+  sectionId: string;
+  onClose: () => void;
+}
+
+type ExportScope = 'view' | 'selection';
+
+// Exports metadata for the page's items as CSV or JSON. The chosen columns and format are saved
+// for next time.
+export default function ExportModal({
+  viewItems,
+  selectedItems,
+  sectionId,
+  onClose,
+}: ExportModalProps) {
+  const [template] = useState(loadExportTemplate);
+  const [format, setFormat] = useState<ExportFormat>(template.format);
+  const [columns, setColumns] = useState<ExportColumn[]>(template.columns);
+  const [scope, setScope] = useState<ExportScope>(selectedItems.length > 0 ? 'selection' : 'view');
+
+  const items = scope === 'selection' ? selectedItems : viewItems;
+
+  const toggleColumn = (key: ExportColumn) =>
+    setColumns((prev) => (prev.includes(key) ? prev.filter((c) => c !== key) : [...prev, key]));
+
+  const handleExport = () => {
+    const exportTemplate = { format, columns };
+    saveExportTemplate(exportTemplate);
+
+    const text = exportContent(items, exportTemplate);
+    // The byte order mark makes Excel read the CSV as UTF-8.
+    const blob =
+      format === 'csv'
+        ? new Blob(['\uFEFF', text], { type: 'text/csv' })
+        : new Blob([text], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `segra-${sectionId}-${new Date().toISOString().slice(0, 10)}.${format}`;
+    link.click();
+    URL.revokeObjectURL(url);
+    onClose();
+  };
+
+  const scopeOptions: [ExportScope, string, number][] = [
+    ['view', 'Current view', viewItems.length],
+    ['selection', 'Selection', selectedItems.length],
+  ];
+
+  return (
+    <>
+      <div className="modal-header pb-4 border-b border-gray-700">
+        <h2 className="font-bold text-2xl mb-0 flex items-center gap-2">
+          <Download size={22} />
+          Export
+        </h2>
+        <Button
+          variant="ghost"
+          size="sm"
+          icon
+          className="absolute right-4 top-4 z-10"
+          onClick={onClose}
+        >
+          ✕
+        </Button>
+      </div>
+
+      <div className="modal-body mt-4 space-y-5">
+        <div className="flex flex-wrap gap-6">
+          <div>
+            <p className="text-xs uppercase tracking-wide text-gray-400 mb-2">Items</p>
+            <div className="join">
+              {scopeOptions.map(([value, label, count]) => (
+                <button
+                  key={value}
+                  type="button"
+                  disabled={count === 0}
+                  onClick={() => setScope(value)}
+                  aria-pressed={scope === value}
+                  className={`btn btn-sm btn-secondary join-item no-animation border border-base-400 hover:border-base-400 ${scope === value ? 'text-primary' : 'text-gray-300 hover:text-primary'}`}
+                >
+                  {label} ({count})
+                </button>
+              ))}
+            </div>
+          </div>
+          <div>
+            <p className="text-xs uppercase tracking-wide text-gray-400 mb-2">Format</p>
+            <div className="join">
+              {(['csv', 'json'] as const).map((value) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => setFormat(value)}
+                  aria-pressed={format === value}
+                  className={`btn btn-sm btn-secondary join-item no-animation border border-base-400 hover:border-base-400 uppercase ${format === value ? 'text-primary' : 'text-gray-300 hover:text-primary'}`}
+                >
+                  {value}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <p className="text-xs uppercase tracking-wide text-gray-400">Columns</p>
+            <button
+              type="button"
+              className="text-xs text-gray-400 hover:text-primary"
+              onClick={() =>
+                setColumns(
+                  columns.length === EXPORT_COLUMNS.length
+                    ? []
+                    : EXPORT_COLUMNS.map(({ key }) => key),
+                )
+              }
+            >
+              {columns.length === EXPORT_COLUMNS.length ? 'Select none' : 'Select all'}
+            </button>
+          </div>
+          <div className="grid grid-cols-2 gap-x-4 gap-y-1">
+            {EXPORT_COLUMNS.map(({ key, label }) => (
+              <label key={key} className="flex items-center gap-2 cursor-pointer text-sm py-0.5">
+                <input
+                  type="checkbox"
+                  className="checkbox checkbox-sm checkbox-primary"
+                  checked={columns.includes(key)}
+                  onChange={() => toggleColumn(key)}
+                />
+                {label}
+              </label>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="modal-action mt-6">
+        <Button variant="ghost" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button
+          variant="primary"
+          disabled={columns.length === 0 || items.length === 0}
+          onClick={handleExport}
+        >
+          <Download size={16} />
+          Export {items.length} {items.length === 1 ? 'item' : 'items'}
+        </Button>
+      </div>
+    </>
+  );
+}
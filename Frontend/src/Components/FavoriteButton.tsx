@@ -0,0 +1,51 @@
+import { Star } from 'lucide-react';
+import { usePatchContent } from '../Context/AppStateContext';
+import { Content } from '../Models/types';
+import { rpc } from '../Utils/MessageUtils';
+import { useCommandFailure } from '../Hooks/useCommandFailure';
+
+interface FavoriteButtonProps {
+  content: Content;
+  size?: number;
+  className?: string;
+}
+
+// Stars an item. Favorites are skipped when the storage limit deletes old recordings.
+export default function FavoriteButton({
+  content,
+  size = 18,
+  className = '',
+}: FavoriteButtonProps) {
+  const patchContent = usePatchContent();
+  const showCommandFailure = useCommandFailure();
+  const { id, isFavorite } = content;
+
+  const toggle = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    // Show the change immediately; the backend's State push confirms it.
+    patchContent(id, { isFavorite: !isFavorite });
+    rpc('SetFavorite', { Ids: [id], Favorite: !isFavorite }).catch((error) => {
+      patchContent(id, { isFavorite });
+      showCommandFailure(
+        isFavorite ? "Couldn't remove from favorites" : "Couldn't add to favorites",
+        error,
+      );
+    });
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={toggle}
+      aria-pressed={isFavorite}
+      title={
+        isFavorite
+          ? 'Favorite. Kept when the storage limit is reached'
+          : 'Add to favorites. Keeps it when the storage limit is reached'
+      }
+      className={`transition-colors cursor-pointer ${isFavorite ? 'text-yellow-400 hover:text-yellow-300' : 'text-gray-400 hover:text-yellow-400'} ${className}`}
+    >
+      <Star size={size} fill={isFavorite ? 'currentColor' : 'none'} />
+    </button>
+  );
+}
@@ -0,0 +1,139 @@
+import { HTMLAttributes, ReactNode, RefObject, useLayoutEffect, useMemo } from 'react';
+import { CheckSquare, ChevronDown, Square } from 'lucide-react';
+import { useAppState } from '../Context/AppStateContext';
+import { useSettings } from '../Context/SettingsContext';
+import { BookmarkType, Content } from '../Models/types';
+import { useVirtualGrid } from '../Hooks/useVirtualGrid';
+import { GridSection } from '../Utils/GridNavigation';
+import { GameGroup } from '../Utils/GameGroups';
+import { formatPlaytime, formatSizeKb } from '../Utils/ContentCalendar';
+import GameIcon from './GameIcon';
+
+interface GameGroupSectionProps {
+  group: GameGroup;
+  scrollRef: RefObject<HTMLElement | null>;
+  collapsed: boolean;
+  onToggleCollapsed: () => void;
+  selectedItems: Set<string>;
+  onSelectAll: (ids: string[], select: boolean) => void;
+  renderCard: (item: Content) => ReactNode;
+  // Makes the grid a keyboard-navigable list of cards.
+  listboxProps: HTMLAttributes<HTMLElement>;
+  registerGridSection: (game: string, section: GridSection | null) => void;
+}
+
+const BOOKMARK_LABELS: [BookmarkType, string, string][] = [
+  [BookmarkType.Kill, 'kill', 'kills'],
+  [BookmarkType.Death, 'death', 'deaths'],
+  [BookmarkType.Assist, 'assist', 'assists'],
+  [BookmarkType.Goal, 'goal', 'goals'],
+  [BookmarkType.Manual, 'bookmark', 'bookmarks'],
+];
+
+// One game's items on a grouped page: a header with the game's totals, and its cards in their own
+// virtualized grid.
+export default function GameGroupSection({
+  group,
+  scrollRef,
+  collapsed,
+  onToggleCollapsed,
+  selectedItems,
+  onSelectAll,
+  renderCard,
+  listboxProps,
+  registerGridSection,
+}: GameGroupSectionProps) {
+  const { gameList } = useAppState();
+  const { games } = useSettings();
+  const ids = useMemo(() => group.items.map((item) => item.id), [group.items]);
+  const { attachGrid, rows, columns, totalHeight, measureRow, indexesInRect, scrollToIndex } =
+    useVirtualGrid(scrollRef, ids);
+
+  useLayoutEffect(() => {
+    if (collapsed) return;
+    registerGridSection(group.game, {
+      ids,
+      columns,
+      hitTest: (rect) => indexesInRect(rect).map((index) => ids[index]),
+      scrollToIndex: (index) => scrollToIndex(index, 'auto', 'nearest'),
+    });
+    return () => registerGridSection(group.game, null);
+  }, [collapsed, group.game, ids, columns, indexesInRect, scrollToIndex, registerGridSection]);
+
+  // Custom games carry their own icon; known games use the catalog's.
+  const setting = games.find((g) => g.name === group.game);
+  const catalogEntry = gameList.find(
+    (entry) => (group.igdbId != null && entry.igdbId === group.igdbId) || entry.name === group.game,
+  );
+  const iconId = setting?.icon ?? catalogEntry?.icon;
+
+  const selectedCount = ids.filter((id) => selectedItems.has(id)).length;
+  const allSelected = selectedCount === ids.length;
+  const bookmarkSummary = BOOKMARK_LABELS.flatMap(([type, singular, plural]) => {
+    const count = group.bookmarkCounts[type] ?? 0;
+    return count > 0 ? [`${count} ${count === 1 ? singular : plural}`] : [];
+  });
+
+  return (
+    <section>
+      <div className="flex items-center gap-3 mb-3" data-marquee-ignore>
+        <button
+          type="button"
+          onClick={onToggleCollapsed}
+          aria-expanded={!collapsed}
+          className="flex items-center gap-3 min-w-0 flex-1 text-left cursor-pointer group/header"
+        >
+          <ChevronDown
+            size={18}
+            className={`shrink-0 text-gray-400 transition-transform ${collapsed ? '-rotate-90' : ''}`}
+          />
+          <GameIcon iconId={iconId} customIcon={setting?.customIcon} name={group.game} size={32} />
+          <div className="min-w-0">
+            <p className="font-semibold truncate group-hover/header:text-primary">{group.game}</p>
+            <p className="text-xs text-gray-400 tabular-nums truncate">
+              {[
+                `${ids.length} ${ids.length === 1 ? 'item' : 'items'}`,
+                formatPlaytime(group.durationSeconds),
+                formatSizeKb(group.sizeKb),
+                ...bookmarkSummary,
+              ].join(' • ')}
+            </p>
+          </div>
+        </button>
+        <button
+          type="button"
+          onClick={() => onSelectAll(ids, !allSelected)}
+          className="btn btn-sm btn-ghost no-animation h-8 gap-1 text-gray-300 hover:text-primary"
+        >
+          {allSelected ? <CheckSquare size={16} /> : <Square size={16} />}
+          {allSelected
+            ? 'Deselect all'
+            : selectedCount > 0
+              ? `Select all (${selectedCount}/${ids.length})`
+              : 'Select all'}
+        </button>
+      </div>
+
+      {!collapsed && (
+        <div
+          ref={attachGrid}
+          {...listboxProps}
+          className="relative outline-none"
+          style={{ height: totalHeight }}
+        >
+          {rows.map((row) => (
+            <div
+              key={row.index}
+              ref={measureRow}
+              data-row-index={row.index}
+              className="absolute inset-x-0 grid gap-4"
+              style={{ top: row.top, gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}
+            >
+              {group.items.slice(row.start, row.end).map(renderCard)}
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,36 @@
+import { MatchRange } from '../Utils/ContentSearch';
+
+interface HighlightedTextProps {
+  text: string;
+  ranges?: MatchRange[];
+}
+
+// Renders `text` with the given spans marked, e.g. the parts of a title a search matched.
+export default function HighlightedText({ text, ranges }: HighlightedTextProps) {
+  if (!ranges || ranges.length === 0) {
+    return <>{text}</>;
+  }
+
+  // Several search terms can match overlapping spans.
+  const merged: MatchRange[] = [];
+  for (const [start, end] of [...ranges].sort((a, b) => a[0] - b[0])) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) last[1] = Math.max(last[1], end);
+    else merged.push([start, end]);
+  }
+
+  const pieces: React.ReactNode[] = [];
+  let position = 0;
+  for (const [start, end] of merged) {
+    if (start > position) pieces.push(text.slice(position, start));
+    pieces.push(
+      <mark key={start} className="bg-primary/30 text-inherit rounded-sm">
+        {text.slice(start, end)}
+      </mark>,
+    );
+    position = end;
+  }
+  pieces.push(text.slice(position));
+
+  return <>{pieces}</>;
+}
@@ -1,4 +1,4 @@
-import type { ImportProgress } from '../Context/ImportContext';
+import type { ImportProgress } from '../Models/WebSocketMessages';
 
 interface ImportCardProps {
   importItem: ImportProgress;
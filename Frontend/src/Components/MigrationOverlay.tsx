@@ -1,25 +1,13 @@
-import { useEffect, useState } from 'react';
+import { useState } from 'react';
 import { MigrationStatus } from '../Models/types';
+import { useBackendMessage } from '../Hooks/useBackendMessage';
 
 const MigrationOverlay: React.FC = () => {
   const [migrationStatus, setMigrationStatus] = useState<MigrationStatus | null>(null);
 
-  useEffect(() => {
-    const handleWebSocketMessage = (event: CustomEvent<any>) => {
-      const data = event.detail;
-
-      if (data.method === 'MigrationStatus') {
-        const status = data.content as MigrationStatus;
-        setMigrationStatus(status);
-      }
-    };
-
-    window.addEventListener('websocket-message', handleWebSocketMessage as EventListener);
-
-    return () => {
-      window.removeEventListener('websocket-message', handleWebSocketMessage as EventListener);
-    };
-  }, []);
+  useBackendMessage('MigrationStatus', (content) => {
+    setMigrationStatus(content);
+  });
 
   if (!migrationStatus?.isRunning) {
     return null;
@@ -0,0 +1,37 @@
+import { RefreshCw } from 'lucide-react';
+import { useWebSocketContext } from '../Context/WebSocketContext';
+import Button from './Button';
+
+// Covers the app when the frontend bundle and the backend speak incompatible protocol versions,
+// usually because one of them was updated while the other kept running.
+const ProtocolMismatchScreen: React.FC = () => {
+  const { protocolMismatch } = useWebSocketContext();
+
+  if (!protocolMismatch) {
+    return null;
+  }
+
+  const { frontendVersion, backendVersion, outdated } = protocolMismatch;
+
+  return (
+    <div className="fixed inset-0 bg-base-300 z-[9999] flex items-center justify-center">
+      <div className="text-center max-w-md">
+        <h2 className="text-2xl font-bold mb-4">Segra needs a restart</h2>
+        <p className="text-base-content/70 mb-6">
+          {outdated === 'frontend'
+            ? 'Segra was updated while this window was open. Reload to use the matching version of the interface.'
+            : 'This interface is newer than the running Segra. Restart Segra to finish updating, then reload.'}
+        </p>
+        <Button variant="primary" onClick={() => window.location.reload()}>
+          <RefreshCw size={16} />
+          Reload
+        </Button>
+        <p className="text-xs text-base-content/50 mt-6">
+          Interface protocol v{frontendVersion}, Segra protocol v{backendVersion}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default ProtocolMismatchScreen;
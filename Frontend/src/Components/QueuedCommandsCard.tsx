@@ -0,0 +1,23 @@
+import React from 'react';
+import { Hourglass } from 'lucide-react';
+
+interface QueuedCommandsCardProps {
+  count: number;
+}
+
+const QueuedCommandsCard: React.FC<QueuedCommandsCardProps> = ({ count }) => {
+  return (
+    <div className="mb-4 px-2">
+      <div className="bg-warning/20 bg-opacity-20 border border-base-400 border-opacity-75 rounded-lg px-3 py-3 cursor-default">
+        <div className="flex items-center gap-2">
+          <Hourglass className="text-warning w-5 h-5 shrink-0" />
+          <p className="text-warning text-xs">
+            {count} {count === 1 ? 'action is' : 'actions are'} waiting for Segra to reconnect
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QueuedCommandsCard;
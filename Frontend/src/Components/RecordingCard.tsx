@@ -5,6 +5,8 @@ import { Gamepad2, Monitor, Ellipsis, Ban } from 'lucide-react';
 import { useSettings, useSettingsUpdater } from '../Context/SettingsContext';
 import { useAppState } from '../Context/AppStateContext';
 import { sendMessageToBackend } from '../Utils/MessageUtils';
+import { useBackendMessage } from '../Hooks/useBackendMessage';
+import { subscribeToPreviewFrames } from '../Utils/BinaryMessages';
 import Button from './Button';
 
 const pad = (n: number) => String(n).padStart(2, '0');
@@ -53,37 +55,42 @@ const RecordingCard: React.FC<RecordingCardProps> = ({ recording, preRecording }
     sendMessageToBackend('StopRecording');
   }, [gameListEntry, settings.games, updateSettings]);
 
-  // Listen for bookmark created, preview state, and preview-frame events
-  useEffect(() => {
-    const handleMessage = (event: CustomEvent) => {
-      const method = event.detail?.method;
-      if (method === 'BookmarkCreated' || method === 'ReplayBufferSaveStarted') {
-        setShowShockwave(true);
-        setTimeout(() => setShowShockwave(false), 600);
-      } else if (method === 'RecordingPreviewState') {
-        const enabled = !!event.detail?.content?.enabled;
-        setPreviewEnabled((prev) => {
-          // On re-enable, hide the stale frame via opacity so the new one fades in.
-          // (We don't clear src — a blank src would render the broken-image icon.)
-          // On disable, keep hasPreviewFrame so the last frame stays visible through the exit animation.
-          if (enabled && !prev) {
-            setHasPreviewFrame(false);
-          }
-          return enabled;
-        });
-      } else if (method === 'RecordingPreviewFrame') {
-        const img = previewImgRef.current;
-        const b64 = event.detail?.content?.jpegBase64;
-        if (img && typeof b64 === 'string' && b64.length > 0) {
-          img.src = `data:image/jpeg;base64,${b64}`;
-          setHasPreviewFrame(true);
-        }
+  // Listen for bookmark created and preview state events
+  const playShockwave = () => {
+    setShowShockwave(true);
+    setTimeout(() => setShowShockwave(false), 600);
+  };
+  useBackendMessage('BookmarkCreated', playShockwave);
+  useBackendMessage('ReplayBufferSaveStarted', playShockwave);
+
+  useBackendMessage('RecordingPreviewState', ({ enabled }) => {
+    setPreviewEnabled((prev) => {
+      // On re-enable, hide the stale frame via opacity so the new one fades in.
+      // (We don't clear src — a blank src would render the broken-image icon.)
+      // On disable, keep hasPreviewFrame so the last frame stays visible through the exit animation.
+      if (enabled && !prev) {
+        setHasPreviewFrame(false);
       }
-    };
+      return enabled;
+    });
+  });
 
-    window.addEventListener('websocket-message', handleMessage as EventListener);
+  // Preview frames arrive as binary WebSocket messages. Each one becomes a blob URL, and the
+  // previous URL is revoked once the img has moved on to the new one.
+  useEffect(() => {
+    let frameUrl: string | null = null;
+    const unsubscribe = subscribeToPreviewFrames(({ jpeg }) => {
+      const img = previewImgRef.current;
+      if (!img || jpeg.size === 0) return;
+      const previousUrl = frameUrl;
+      frameUrl = URL.createObjectURL(jpeg);
+      img.src = frameUrl;
+      if (previousUrl) URL.revokeObjectURL(previousUrl);
+      setHasPreviewFrame(true);
+    });
     return () => {
-      window.removeEventListener('websocket-message', handleMessage as EventListener);
+      unsubscribe();
+      if (frameUrl) URL.revokeObjectURL(frameUrl);
     };
   }, []);
 
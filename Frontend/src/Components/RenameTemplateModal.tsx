@@ -0,0 +1,158 @@
+import { useMemo, useState } from 'react';
+import { PenLine } from 'lucide-react';
+import { useAppState, usePatchContent } from '../Context/AppStateContext';
+import { rpc } from '../Utils/MessageUtils';
+import { useCommandFailure } from '../Hooks/useCommandFailure';
+import type { UndoAction } from '../Context/UndoContext';
+import { TitleChange, renameContentAction } from '../Utils/UndoActions';
+import { INVALID_TITLE_CHARS, RENAME_TOKENS, applyRenameTemplate } from '../Utils/RenameTemplate';
+import Button from './Button';
+
+interface RenameTemplateModalProps {
+  // In selection order, which {n} counts in.
+  ids: string[];
+  // Modals render outside the undo provider, so the opener passes its record function in.
+  recordUndo: (action: UndoAction) => void;
+  onClose: () => void;
+}
+
+const DEFAULT_TEMPLATE = '{game} {date} #{n}';
+const MAX_PREVIEW = 5;
+
+// Renames several items at once from a template of tokens like {game} and {n}.
+export default function RenameTemplateModal({
+  ids,
+  recordUndo,
+  onClose,
+}: RenameTemplateModalProps) {
+  const { content } = useAppState();
+  const patchContent = usePatchContent();
+  const showCommandFailure = useCommandFailure();
+  const [template, setTemplate] = useState(
+    () => localStorage.getItem('renameTemplate') ?? DEFAULT_TEMPLATE,
+  );
+
+  const items = useMemo(
+    () => ids.map((id) => content.find((item) => item.id === id)).filter((item) => !!item),
+    [content, ids],
+  );
+  const titles = items.map((item, index) => applyRenameTemplate(template, item, index));
+  const invalid = titles.some((title) => !title || INVALID_TITLE_CHARS.test(title));
+
+  const apply = async () => {
+    if (invalid) return;
+    localStorage.setItem('renameTemplate', template);
+    onClose();
+
+    // One at a time, so a failure stops before the rest and leaves them as they were.
+    const renamed: TitleChange[] = [];
+    for (const [index, item] of items.entries()) {
+      const title = titles[index];
+      if (title === item.title) continue;
+      const previousTitle = item.title;
+      // Show the new title immediately; the backend's State push confirms it.
+      patchContent(item.id, { title });
+      try {
+        await rpc('RenameContent', { Id: item.id, Title: title });
+        renamed.push({ id: item.id, from: previousTitle, to: title });
+      } catch (error) {
+        patchContent(item.id, { title: previousTitle });
+        showCommandFailure(`Couldn't rename ${previousTitle || item.fileName}`, error);
+        break;
+      }
+    }
+
+    // Undoing renames back only the ones that went through.
+    if (renamed.length > 0) {
+      recordUndo(
+        renameContentAction(
+          renamed,
+          `Renamed ${renamed.length} ${renamed.length === 1 ? 'item' : 'items'}`,
+        ),
+      );
+    }
+  };
+
+  const insertToken = (token: string) => {
+    setTemplate((prev) => (prev && !prev.endsWith(' ') ? `${prev} ${token}` : `${prev}${token}`));
+  };
+
+  return (
+    <>
+      <div className="modal-header pb-4 border-b border-gray-700">
+        <h2 className="font-bold text-2xl mb-0 flex items-center gap-2">
+          <PenLine size={22} />
+          Rename {items.length} {items.length === 1 ? 'item' : 'items'}
+        </h2>
+        <Button
+          variant="ghost"
+          size="sm"
+          icon
+          className="absolute right-4 top-4 z-10"
+          onClick={onClose}
+        >
+          ✕
+        </Button>
+      </div>
+
+      <div className="modal-body mt-4 space-y-4">
+        <input
+          autoFocus
+          type="text"
+          value={template}
+          onChange={(e) => setTemplate(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              apply();
+            }
+          }}
+          placeholder={DEFAULT_TEMPLATE}
+          className={`input input-sm input-bordered w-full bg-base-200 ${invalid ? 'input-error' : ''}`}
+        />
+
+        <div className="flex flex-wrap gap-1.5">
+          {RENAME_TOKENS.map(({ token, description }) => (
+            <button
+              key={token}
+              type="button"
+              title={description}
+              className="badge badge-sm h-5 bg-transparent border-dashed border-base-400 text-gray-400 hover:text-primary hover:border-primary font-mono"
+              onClick={() => insertToken(token)}
+            >
+              {token}
+            </button>
+          ))}
+        </div>
+
+        <div className="space-y-1">
+          <p className="text-xs uppercase tracking-wide text-gray-400">Preview</p>
+          {items.slice(0, MAX_PREVIEW).map((item, index) => (
+            <p key={item.id} className="text-sm truncate">
+              <span className="text-gray-500">{item.title || item.fileName}</span>
+              {' → '}
+              <span className={INVALID_TITLE_CHARS.test(titles[index]) ? 'text-error' : ''}>
+                {titles[index] || <em className="text-error">empty</em>}
+              </span>
+            </p>
+          ))}
+          {items.length > MAX_PREVIEW && (
+            <p className="text-xs text-gray-500">and {items.length - MAX_PREVIEW} more</p>
+          )}
+        </div>
+        {invalid && titles.some((title) => INVALID_TITLE_CHARS.test(title)) && (
+          <p className="text-xs text-error">{'Titles can\'t contain < > : " / \\ | ? *'}</p>
+        )}
+      </div>
+
+      <div className="modal-action mt-6">
+        <Button variant="ghost" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button variant="primary" disabled={invalid || items.length === 0} onClick={apply}>
+          Rename
+        </Button>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,58 @@
+import { useState } from 'react';
+import { BookmarkPlus } from 'lucide-react';
+import Button from './Button';
+
+interface SaveSearchButtonProps {
+  onSave: (name: string) => void;
+}
+
+// Asks for a name and saves the page's current search and filters as a sidebar entry.
+export default function SaveSearchButton({ onSave }: SaveSearchButtonProps) {
+  const [name, setName] = useState('');
+
+  const save = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    onSave(trimmed);
+    setName('');
+    // Close the dropdown by blurring the active element (DaisyUI closes on blur)
+    (document.activeElement as HTMLElement | null)?.blur();
+  };
+
+  return (
+    <div className="dropdown dropdown-end">
+      <button
+        tabIndex={0}
+        className="btn btn-sm no-animation btn-secondary border border-base-400 h-8 hover:text-primary hover:border-base-400 flex items-center gap-1 text-gray-300"
+      >
+        <BookmarkPlus size={16} />
+        Save
+      </button>
+      <div
+        tabIndex={0}
+        className="dropdown-content bg-base-300 border border-base-400 rounded-box z-999 w-72 p-3 mt-1 shadow"
+      >
+        <p className="text-sm text-gray-300 mb-2">Save this search to the sidebar</p>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                save();
+              }
+            }}
+            placeholder="Name"
+            maxLength={40}
+            className="input input-sm input-bordered flex-1 bg-base-200"
+          />
+          <Button variant="primary" size="sm" disabled={!name.trim()} onClick={save}>
+            Save
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
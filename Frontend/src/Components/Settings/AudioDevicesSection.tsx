@@ -5,6 +5,7 @@ import { DiscordIcon, TeamSpeakIcon } from '../icons/BrandIcons';
 import Button from '../Button';
 import { Settings as SettingsType, AudioDevice, AudioOutputMode } from '../../Models/types';
 import { useAppState } from '../../Context/AppStateContext';
+import { useWebSocketContext } from '../../Context/WebSocketContext';
 
 interface AudioDevicesSectionProps {
   settings: SettingsType;
@@ -17,6 +18,8 @@ export default function AudioDevicesSection({
 }: AudioDevicesSectionProps) {
   const appState = useAppState();
   const isRecording = appState.recording != null || appState.preRecording != null;
+  const canSeparateAudioTracks = useWebSocketContext().supports('separateAudioTracks');
+  const separateAudioTracks = canSeparateAudioTracks && settings.enableSeparateAudioTracks;
   const [draggingVolume, setDraggingVolume] = useState<{
     deviceId: string | null;
     deviceType: 'input' | 'output' | null;
@@ -44,8 +47,7 @@ export default function AudioDevicesSection({
   const combinedSelectedIds = [...selectedInputIds, ...selectedOutputIds];
   const totalSourceCount = combinedSelectedIds.length + implicitOutputCount;
   const maxIsolatedTracks = 5;
-  const hasOverTrackLimit =
-    settings.enableSeparateAudioTracks && totalSourceCount > maxIsolatedTracks;
+  const hasOverTrackLimit = separateAudioTracks && totalSourceCount > maxIsolatedTracks;
   const selectionSig = combinedSelectedIds.join(',');
 
   // Dismissible warning for track limit exceeded
@@ -140,7 +142,7 @@ export default function AudioDevicesSection({
                 {(() => {
                   const selectedIndex = combinedSelectedIds.indexOf(device.id);
                   const showLimitIcon =
-                    settings.enableSeparateAudioTracks &&
+                    separateAudioTracks &&
                     selectedDevices.some((d) => d.id === device.id) &&
                     selectedIndex >= 0 &&
                     selectedIndex + implicitOutputCount >= maxIsolatedTracks;
@@ -308,21 +310,23 @@ export default function AudioDevicesSection({
         {isRecording && <span className="text-xs text-warning">(locked while recording)</span>}
       </div>
 
-      <div className="mb-4 flex flex-col gap-2">
-        <label
-          className={`flex items-center ${isRecording ? 'cursor-not-allowed opacity-60' : 'cursor-pointer'}`}
-        >
-          <input
-            type="checkbox"
-            name="enableSeparateAudioTracks"
-            checked={settings.enableSeparateAudioTracks}
-            onChange={(e) => updateSettings({ enableSeparateAudioTracks: e.target.checked })}
-            disabled={isRecording}
-            className="checkbox checkbox-sm checkbox-accent"
-          />
-          <span className="ml-2">Separate Audio Tracks</span>
-        </label>
-      </div>
+      {canSeparateAudioTracks && (
+        <div className="mb-4 flex flex-col gap-2">
+          <label
+            className={`flex items-center ${isRecording ? 'cursor-not-allowed opacity-60' : 'cursor-pointer'}`}
+          >
+            <input
+              type="checkbox"
+              name="enableSeparateAudioTracks"
+              checked={settings.enableSeparateAudioTracks}
+              onChange={(e) => updateSettings({ enableSeparateAudioTracks: e.target.checked })}
+              disabled={isRecording}
+              className="checkbox checkbox-sm checkbox-accent"
+            />
+            <span className="ml-2">Separate Audio Tracks</span>
+          </label>
+        </div>
+      )}
 
       <div className="grid grid-cols-2 gap-4">
         {/* Input Devices (Multiple Selection) */}
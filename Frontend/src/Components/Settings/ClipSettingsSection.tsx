@@ -9,6 +9,7 @@ import {
 } from '../../Models/types';
 import { sendMessageToBackend } from '../../Utils/MessageUtils';
 import { useAppState } from '../../Context/AppStateContext';
+import { useWebSocketContext } from '../../Context/WebSocketContext';
 
 interface ClipSettingsSectionProps {
   settings: SettingsType;
@@ -42,6 +43,7 @@ export default function ClipSettingsSection({
   updateSettings,
 }: ClipSettingsSectionProps) {
   const appState = useAppState();
+  const { supports } = useWebSocketContext();
   // Helper function to get available presets based on encoder settings
   const getAvailablePresets = (
     encoder: string,
@@ -382,7 +384,7 @@ export default function ClipSettingsSection({
       </AnimatePresence>
 
       {/* Keep Separate Audio Tracks */}
-      {settings.enableSeparateAudioTracks && (
+      {settings.enableSeparateAudioTracks && supports('separateAudioTracks') && (
         <div className="flex items-center mt-4">
           <label className="flex items-center gap-2">
             <input
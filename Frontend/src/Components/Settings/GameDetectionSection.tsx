@@ -9,63 +9,15 @@ import {
   RecordingMode,
 } from '../../Models/types';
 import { motion, AnimatePresence } from 'framer-motion';
-import {
-  Search,
-  Gamepad2,
-  X,
-  ChevronLeft,
-  ChevronRight,
-  Plus,
-  VolumeX,
-  Volume2,
-} from 'lucide-react';
+import { Search, X, ChevronLeft, ChevronRight, Plus, VolumeX, Volume2 } from 'lucide-react';
 import { useModal } from '../../Context/ModalContext';
 import CustomGameModal from '../CustomGameModal';
 import DropdownSelect from '../DropdownSelect';
 import { useDeleteConfirmation } from '../../Hooks/useDeleteConfirmation';
+import GameIcon from '../GameIcon';
 
 const BITRATE_OPTIONS = Array.from({ length: 19 }, (_, i) => (i + 2) * 5); // 10..100 Mbps
 
-// Square game icon from the CDN, with a graceful fallback when there's no icon (custom games)
-// or the image fails to load.
-function GameIcon({
-  iconId,
-  customIcon,
-  name,
-  size = 40,
-}: {
-  iconId?: string | null;
-  customIcon?: string | null;
-  name: string;
-  size?: number;
-}) {
-  const [errored, setErrored] = useState(false);
-  // Prefer the catalog CDN icon; fall back to the exe-extracted base64 icon for custom games.
-  const src = iconId
-    ? `https://segra.tv/api/games/icon/${iconId}`
-    : customIcon
-      ? `data:image/png;base64,${customIcon}`
-      : null;
-  const showImage = !!src && !errored;
-  return (
-    <div
-      className="rounded-md bg-base-200 flex items-center justify-center overflow-hidden flex-shrink-0"
-      style={{ width: size, height: size }}
-    >
-      {showImage ? (
-        <img
-          src={src}
-          alt={name}
-          className="w-full h-full object-cover"
-          onError={() => setErrored(true)}
-        />
-      ) : (
-        <Gamepad2 size={Math.round(size * 0.5)} className="text-base-content opacity-50" />
-      )}
-    </div>
-  );
-}
-
 // A reusable "Use custom … for this game" header row with an on/off toggle.
 function OverrideSection({
   title,
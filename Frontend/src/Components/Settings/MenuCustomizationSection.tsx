@@ -2,6 +2,7 @@ import React, { useCallback, useEffect, useLayoutEffect, useRef, useState } from
 import { useDrag, useDrop } from 'react-dnd';
 import {
   AlertTriangle,
+  ChartColumn,
   Clapperboard,
   Crown,
   Eye,
@@ -9,15 +10,20 @@ import {
   GripVertical,
   History,
   Home,
+  ListFilter,
   LucideIcon,
+  PenLine,
   Play,
   Settings as SettingsIcon,
+  Trash2,
 } from 'lucide-react';
 import {
+  ContentType,
   DEFAULT_MENU_ITEMS,
   MenuItemId,
   MenuItemPreference,
   menuItemHasContent,
+  SavedSearch,
   Settings as SettingsType,
 } from '../../Models/types';
 import { useAppState } from '../../Context/AppStateContext';
@@ -34,43 +40,19 @@ const MENU_ICONS: Record<MenuItemId, LucideIcon> = {
   'Replay Buffer': History,
   Clips: Clapperboard,
   Highlights: Crown,
+  Stats: ChartColumn,
+  'Recycle Bin': Trash2,
   Settings: SettingsIcon,
 };
 
-interface RowProps {
-  item: MenuItemPreference;
-  index: number;
-  isDefault: boolean;
-  forceShownReason: 'content' | null;
-  moveRow: (from: number, to: number) => void;
-  onDragStart: () => void;
-  onDragEnd: () => void;
-  onToggleVisible: (id: MenuItemId) => void;
-  onSetDefault: (id: MenuItemId) => void;
-}
-
-const MenuRow: React.FC<RowProps> = ({
-  item,
-  index,
-  isDefault,
-  forceShownReason,
-  moveRow,
-  onDragStart,
-  onDragEnd,
-  onToggleVisible,
-  onSetDefault,
-}) => {
-  const Icon = MENU_ICONS[item.id];
-  const isSettings = item.id === 'Settings';
-  const [visibilityCooldown, setVisibilityCooldown] = useState(false);
-
-  const handleToggleVisible = () => {
-    if (visibilityCooldown) return;
-    setVisibilityCooldown(true);
-    onToggleVisible(item.id);
-    setTimeout(() => setVisibilityCooldown(false), 200);
-  };
-
+// Drag-to-reorder wiring shared by the menu item and saved search rows.
+function useReorderableRow(
+  dragType: string,
+  index: number,
+  moveRow: (from: number, to: number) => void,
+  onDragStart: () => void,
+  onDragEnd: () => void,
+) {
   const indexRef = useRef(index);
   const moveRowRef = useRef(moveRow);
   const onDragStartRef = useRef(onDragStart);
@@ -84,7 +66,7 @@ const MenuRow: React.FC<RowProps> = ({
 
   const [{ isDragging }, dragRef, dragPreviewRef] = useDrag(
     () => ({
-      type: DRAG_TYPE,
+      type: dragType,
       item: () => {
         onDragStartRef.current();
         return { index: indexRef.current };
@@ -99,7 +81,7 @@ const MenuRow: React.FC<RowProps> = ({
 
   const [, dropRef] = useDrop(
     () => ({
-      accept: DRAG_TYPE,
+      accept: dragType,
       hover: (dragged: { index: number }) => {
         if (dragged.index !== indexRef.current) {
           moveRowRef.current(dragged.index, indexRef.current);
@@ -119,6 +101,51 @@ const MenuRow: React.FC<RowProps> = ({
     dragRef(node);
   };
 
+  return { isDragging, rowRef, handleRef };
+}
+
+interface RowProps {
+  item: MenuItemPreference;
+  index: number;
+  isDefault: boolean;
+  forceShownReason: 'content' | null;
+  moveRow: (from: number, to: number) => void;
+  onDragStart: () => void;
+  onDragEnd: () => void;
+  onToggleVisible: (id: MenuItemId) => void;
+  onSetDefault: (id: MenuItemId) => void;
+}
+
+const MenuRow: React.FC<RowProps> = ({
+  item,
+  index,
+  isDefault,
+  forceShownReason,
+  moveRow,
+  onDragStart,
+  onDragEnd,
+  onToggleVisible,
+  onSetDefault,
+}) => {
+  const Icon = MENU_ICONS[item.id];
+  const isSettings = item.id === 'Settings';
+  const [visibilityCooldown, setVisibilityCooldown] = useState(false);
+
+  const handleToggleVisible = () => {
+    if (visibilityCooldown) return;
+    setVisibilityCooldown(true);
+    onToggleVisible(item.id);
+    setTimeout(() => setVisibilityCooldown(false), 200);
+  };
+
+  const { isDragging, rowRef, handleRef } = useReorderableRow(
+    DRAG_TYPE,
+    index,
+    moveRow,
+    onDragStart,
+    onDragEnd,
+  );
+
   return (
     <div
       ref={rowRef}
@@ -183,9 +210,208 @@ const MenuRow: React.FC<RowProps> = ({
   );
 };
 
-const sameOrder = (a: MenuItemPreference[], b: MenuItemPreference[]) =>
+const sameOrder = (a: { id: string }[], b: { id: string }[]) =>
   a.length === b.length && a.every((item, i) => item.id === b[i]?.id);
 
+const SAVED_SEARCH_DRAG_TYPE = 'SAVED_SEARCH_ROW';
+
+const CONTENT_TYPE_LABELS: Record<ContentType, string> = {
+  Session: 'Full Sessions',
+  Buffer: 'Replay Buffer',
+  Clip: 'Clips',
+  Highlight: 'Highlights',
+};
+
+interface SavedSearchRowProps {
+  search: SavedSearch;
+  index: number;
+  moveRow: (from: number, to: number) => void;
+  onDragStart: () => void;
+  onDragEnd: () => void;
+  onChange: (id: string, changes: Partial<SavedSearch>) => void;
+  onDelete: (id: string) => void;
+}
+
+const SavedSearchRow: React.FC<SavedSearchRowProps> = ({
+  search,
+  index,
+  moveRow,
+  onDragStart,
+  onDragEnd,
+  onChange,
+  onDelete,
+}) => {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [renameValue, setRenameValue] = useState(search.name);
+  const { isDragging, rowRef, handleRef } = useReorderableRow(
+    SAVED_SEARCH_DRAG_TYPE,
+    index,
+    moveRow,
+    onDragStart,
+    onDragEnd,
+  );
+
+  const commitRename = () => {
+    setIsRenaming(false);
+    const trimmed = renameValue.trim();
+    if (trimmed && trimmed !== search.name) {
+      onChange(search.id, { name: trimmed });
+    } else {
+      setRenameValue(search.name);
+    }
+  };
+
+  return (
+    <div
+      ref={rowRef}
+      className={`flex items-center justify-between bg-base-200 rounded-lg py-2 px-3 border border-base-400 transition-opacity ${
+        isDragging ? 'opacity-30' : 'opacity-100'
+      } ${search.visible ? '' : 'opacity-60'}`}
+    >
+      <div className="flex items-center gap-3 min-w-0">
+        <button
+          ref={handleRef}
+          type="button"
+          aria-label="Drag to reorder"
+          className="text-gray-400 hover:text-gray-200 cursor-grab active:cursor-grabbing"
+        >
+          <GripVertical className="w-4 h-4" />
+        </button>
+        <ListFilter className="w-5 h-5 text-gray-300 shrink-0" />
+        <div className="flex flex-col min-w-0">
+          {isRenaming ? (
+            <input
+              autoFocus
+              type="text"
+              value={renameValue}
+              maxLength={40}
+              onChange={(e) => setRenameValue(e.target.value)}
+              onBlur={commitRename}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') commitRename();
+                if (e.key === 'Escape') {
+                  setRenameValue(search.name);
+                  setIsRenaming(false);
+                }
+              }}
+              className="input input-xs input-bordered bg-base-300 font-medium"
+            />
+          ) : (
+            <span className="font-medium truncate">{search.name}</span>
+          )}
+          <span className="text-xs text-gray-400 truncate">
+            {CONTENT_TYPE_LABELS[search.contentType]}
+            {search.query && <> &middot; {search.query}</>}
+          </span>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={() => setIsRenaming(true)}
+          aria-label="Rename"
+          className="p-1.5 rounded transition-colors cursor-pointer text-gray-300 hover:text-primary hover:bg-base-300"
+        >
+          <PenLine className="w-4 h-4" />
+        </button>
+        <button
+          type="button"
+          onClick={() => onChange(search.id, { visible: !search.visible })}
+          aria-label={search.visible ? 'Hide' : 'Show'}
+          className="p-1.5 rounded transition-colors cursor-pointer text-gray-300 hover:text-primary hover:bg-base-300"
+        >
+          {search.visible ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
+        </button>
+        <button
+          type="button"
+          onClick={() => onDelete(search.id)}
+          aria-label="Delete"
+          className="p-1.5 rounded transition-colors cursor-pointer text-gray-300 hover:text-error hover:bg-base-300"
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// Saved searches are created from a content page's Save button; here they can be renamed,
+// reordered, hidden or deleted.
+function SavedSearchList({ settings, updateSettings }: MenuCustomizationSectionProps) {
+  const [localSearches, setLocalSearches] = useState<SavedSearch[]>(settings.savedSearches);
+  const localSearchesRef = useRef(localSearches);
+  const isDraggingRef = useRef(false);
+
+  useEffect(() => {
+    localSearchesRef.current = localSearches;
+  }, [localSearches]);
+
+  useEffect(() => {
+    if (isDraggingRef.current) return;
+    setLocalSearches(settings.savedSearches);
+  }, [settings.savedSearches]);
+
+  const moveRow = useCallback((from: number, to: number) => {
+    setLocalSearches((prev) => {
+      const next = [...prev];
+      const [moved] = next.splice(from, 1);
+      next.splice(to, 0, moved);
+      return next;
+    });
+  }, []);
+
+  const handleDragStart = useCallback(() => {
+    isDraggingRef.current = true;
+  }, []);
+
+  const handleDragEnd = useCallback(() => {
+    isDraggingRef.current = false;
+    const latest = localSearchesRef.current;
+    if (!sameOrder(latest, settings.savedSearches)) {
+      updateSettings({ savedSearches: latest });
+    }
+  }, [settings.savedSearches, updateSettings]);
+
+  const changeSearch = (id: string, changes: Partial<SavedSearch>) => {
+    updateSettings({
+      savedSearches: settings.savedSearches.map((search) =>
+        search.id === id ? { ...search, ...changes } : search,
+      ),
+    });
+  };
+
+  const deleteSearch = (id: string) => {
+    updateSettings({ savedSearches: settings.savedSearches.filter((search) => search.id !== id) });
+  };
+
+  return (
+    <>
+      <h3 className="text-base font-semibold mt-6 mb-1">Saved Searches</h3>
+      {localSearches.length === 0 ? (
+        <p className="text-sm text-gray-400">
+          Search or filter a content page and press Save to add it here.
+        </p>
+      ) : (
+        <div className="space-y-2 max-w-md">
+          {localSearches.map((search, index) => (
+            <SavedSearchRow
+              key={search.id}
+              search={search}
+              index={index}
+              moveRow={moveRow}
+              onDragStart={handleDragStart}
+              onDragEnd={handleDragEnd}
+              onChange={changeSearch}
+              onDelete={deleteSearch}
+            />
+          ))}
+        </div>
+      )}
+    </>
+  );
+}
+
 export default function MenuCustomizationSection({
   settings,
   updateSettings,
@@ -289,6 +515,7 @@ export default function MenuCustomizationSection({
           );
         })}
       </div>
+      <SavedSearchList settings={settings} updateSettings={updateSettings} />
     </div>
   );
 }
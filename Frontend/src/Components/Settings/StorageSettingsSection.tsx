@@ -39,6 +39,9 @@ export default function StorageSettingsSection({
   const appState = useAppState();
   const { isMigrating } = useContentMigration();
   const [localStorageLimit, setLocalStorageLimit] = useState<string>(String(settings.storageLimit));
+  const [localRetentionDays, setLocalRetentionDays] = useState<string>(
+    String(settings.recycleBinRetentionDays),
+  );
   const { openModal, closeModal } = useModal();
   const driveUsedGb = appState.recordingDriveUsedGb;
   const driveFreeGb = appState.recordingDriveFreeGb;
@@ -47,6 +50,10 @@ export default function StorageSettingsSection({
     setLocalStorageLimit(String(settings.storageLimit));
   }, [settings.storageLimit]);
 
+  useEffect(() => {
+    setLocalRetentionDays(String(settings.recycleBinRetentionDays));
+  }, [settings.recycleBinRetentionDays]);
+
   useEffect(() => {
     sendMessageToBackend('RefreshStorageStats');
   }, []);
@@ -123,7 +130,7 @@ export default function StorageSettingsSection({
       openModal(
         <ConfirmationModal
           title="Storage Limit Warning"
-          description={`The storage limit you entered (${numericLimit} GB) is lower than your current folder size (${currentFolderSizeGb.toFixed(2)} GB).\n\nThis will cause older recordings to be automatically deleted to free up space.\n\nAre you sure you want to continue?`}
+          description={`The storage limit you entered (${numericLimit} GB) is lower than your current folder size (${currentFolderSizeGb.toFixed(2)} GB).\n\nThis will empty the recycle bin, oldest first, and then automatically delete older recordings to free up space. Favorites are kept.\n\nAre you sure you want to continue?`}
           confirmText="Apply Limit"
           cancelText="Cancel"
           onConfirm={() => {
@@ -142,6 +149,15 @@ export default function StorageSettingsSection({
     }
   };
 
+  const handleRetentionDaysBlur = () => {
+    // Same bounds as the backend
+    const days = Math.min(365, Math.max(1, Math.round(Number(localRetentionDays)) || 1));
+    setLocalRetentionDays(String(days));
+    if (days !== settings.recycleBinRetentionDays) {
+      updateSettings({ recycleBinRetentionDays: days });
+    }
+  };
+
   return (
     <div className="p-4 bg-base-300 rounded-lg shadow-md border border-custom">
       <div className="grid grid-cols-2 gap-4">
@@ -211,6 +227,31 @@ export default function StorageSettingsSection({
             min="1"
             className="input input-bordered bg-base-200 w-full block outline-none focus:border-base-400"
           />
+          <p className="text-xs text-gray-400 mt-1">
+            Over the limit, the oldest sessions and replay buffers are deleted. Favorites are always
+            kept.
+          </p>
+        </div>
+
+        {/* Recycle Bin Retention */}
+        <div className="form-control">
+          <label className="label block px-0 pb-1">
+            <span className="label-text text-base-content">Keep Deleted Videos (days)</span>
+          </label>
+
+          <input
+            type="number"
+            name="recycleBinRetentionDays"
+            value={localRetentionDays}
+            onChange={(e) => setLocalRetentionDays(e.target.value)}
+            onBlur={handleRetentionDaysBlur}
+            min="1"
+            max="365"
+            className="input input-bordered bg-base-200 w-full block outline-none focus:border-base-400"
+          />
+          <p className="text-xs text-gray-400 mt-1">
+            Deleted videos wait in the recycle bin this long before they&apos;re deleted for good.
+          </p>
         </div>
       </div>
 
@@ -220,6 +261,7 @@ export default function StorageSettingsSection({
           contentFolder={settings.contentFolder}
           storageLimitGb={settings.storageLimit}
           usedGb={appState.currentFolderSizeGb}
+          recycleBinGb={appState.recycleBinSizeGb}
           driveUsedGb={driveUsedGb}
           driveFreeGb={driveFreeGb}
         />
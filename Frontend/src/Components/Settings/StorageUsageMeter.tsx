@@ -11,6 +11,11 @@ const TYPE_COLORS: Record<ContentType, string> = {
 
 const OTHER_COLOR = '#49515b';
 
+// Matches the favorite star on content cards.
+const FAVORITE_COLOR = '#facc15';
+
+const RECYCLE_BIN_COLOR = '#8b6fd6';
+
 const TYPE_LABELS: Record<ContentType, string> = {
   Session: 'Sessions',
   Buffer: 'Buffers',
@@ -46,6 +51,8 @@ interface StorageUsageMeterProps {
   contentFolder: string;
   storageLimitGb: number;
   usedGb: number;
+  // Included in usedGb; shown as its own segment.
+  recycleBinGb: number;
   driveUsedGb: State['recordingDriveUsedGb'];
   driveFreeGb: State['recordingDriveFreeGb'];
 }
@@ -55,6 +62,7 @@ export default function StorageUsageMeter({
   contentFolder,
   storageLimitGb,
   usedGb,
+  recycleBinGb,
   driveUsedGb,
   driveFreeGb,
 }: StorageUsageMeterProps) {
@@ -70,23 +78,39 @@ export default function StorageUsageMeter({
         )
       : [];
 
+    const sizeGb = (items: Content[]) =>
+      items.reduce((sum, c) => sum + (c.fileSizeKb || 0), 0) / (1024 * 1024);
+
+    // Favorites get their own band, since cleanup never frees that space.
+    const favorites = {
+      key: 'Favorites',
+      label: 'Favorites',
+      color: FAVORITE_COLOR,
+      gb: sizeGb(inside.filter((c) => c.isFavorite)),
+    };
     const byType = TYPE_ORDER.map((type) => ({
       key: type,
       label: TYPE_LABELS[type],
       color: TYPE_COLORS[type],
-      gb:
-        inside.filter((c) => c.type === type).reduce((sum, c) => sum + (c.fileSizeKb || 0), 0) /
-        (1024 * 1024),
+      gb: sizeGb(inside.filter((c) => c.type === type && !c.isFavorite)),
     }));
 
     // Whatever the folder holds beyond tracked content: orphaned files, stray videos.
-    const tracked = byType.reduce((sum, s) => sum + s.gb, 0);
-    const other = Math.max(0, usedGb - tracked);
-
-    return [...byType, { key: 'Other', label: 'Other', color: OTHER_COLOR, gb: other }].filter(
-      (s) => s.gb >= 0.01,
-    );
-  }, [content, contentFolder, usedGb]);
+    const tracked = favorites.gb + byType.reduce((sum, s) => sum + s.gb, 0);
+    const other = Math.max(0, usedGb - tracked - recycleBinGb);
+
+    return [
+      favorites,
+      ...byType,
+      { key: 'Other', label: 'Other', color: OTHER_COLOR, gb: other },
+      {
+        key: 'RecycleBin',
+        label: 'Recycle bin',
+        color: RECYCLE_BIN_COLOR,
+        gb: recycleBinGb,
+      },
+    ].filter((s) => s.gb >= 0.01);
+  }, [content, contentFolder, usedGb, recycleBinGb]);
 
   const isOverLimit = storageLimitGb > 0 && usedGb > storageLimitGb;
   const usedPercent = storageLimitGb > 0 ? (usedGb / storageLimitGb) * 100 : 0;
@@ -0,0 +1,181 @@
+import { useMemo, useState } from 'react';
+import { Combine, PenLine, Tag, Trash2 } from 'lucide-react';
+import { useAppState } from '../../Context/AppStateContext';
+import { rpc } from '../../Utils/MessageUtils';
+import { useCommandFailure } from '../../Hooks/useCommandFailure';
+import { useDeleteConfirmation } from '../../Hooks/useDeleteConfirmation';
+import { MAX_TAG_LENGTH, TagUsage, countTags, normalizeTag } from '../../Utils/ContentTags';
+import Button from '../Button';
+
+interface TagRowProps {
+  usage: TagUsage;
+  isOtherTag: (tag: string) => boolean;
+  checked: boolean;
+  onCheck: () => void;
+  onRename: (from: string, to: string) => void;
+  onDelete: (tag: string) => void;
+}
+
+function TagRow({ usage, isOtherTag, checked, onCheck, onRename, onDelete }: TagRowProps) {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [renameValue, setRenameValue] = useState(usage.tag);
+  const target = normalizeTag(renameValue);
+
+  const commitRename = () => {
+    setIsRenaming(false);
+    if (target && target !== usage.tag) {
+      onRename(usage.tag, target);
+    } else {
+      setRenameValue(usage.tag);
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-between bg-base-200 rounded-lg py-2 px-3 border border-base-400">
+      <div className="flex items-center gap-3 min-w-0">
+        <input
+          type="checkbox"
+          className="checkbox checkbox-sm checkbox-primary"
+          checked={checked}
+          onChange={onCheck}
+          aria-label={`Select ${usage.tag} to merge`}
+        />
+        <Tag className="w-4 h-4 text-gray-300 shrink-0" />
+        <div className="flex flex-col min-w-0">
+          {isRenaming ? (
+            <input
+              autoFocus
+              type="text"
+              value={renameValue}
+              maxLength={MAX_TAG_LENGTH}
+              onChange={(e) => setRenameValue(e.target.value)}
+              onBlur={commitRename}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') commitRename();
+                if (e.key === 'Escape') {
+                  setRenameValue(usage.tag);
+                  setIsRenaming(false);
+                }
+              }}
+              className="input input-xs input-bordered bg-base-300 font-medium"
+            />
+          ) : (
+            <span className="font-medium truncate">{usage.tag}</span>
+          )}
+          <span className="text-xs text-gray-400">
+            {isRenaming && target !== usage.tag && isOtherTag(target)
+              ? `Merges into ${target}`
+              : `${usage.count} ${usage.count === 1 ? 'item' : 'items'}`}
+          </span>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={() => setIsRenaming(true)}
+          aria-label="Rename"
+          className="p-1.5 rounded transition-colors cursor-pointer text-gray-300 hover:text-primary hover:bg-base-300"
+        >
+          <PenLine className="w-4 h-4" />
+        </button>
+        <button
+          type="button"
+          onClick={() => onDelete(usage.tag)}
+          aria-label="Delete"
+          className="p-1.5 rounded transition-colors cursor-pointer text-gray-300 hover:text-error hover:bg-base-300"
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// Tags are added from content cards; here they can be renamed, merged or deleted across the
+// whole library. Renaming a tag to one that exists merges the two.
+export default function TagsSection() {
+  const { content } = useAppState();
+  const showCommandFailure = useCommandFailure();
+  const confirmDelete = useDeleteConfirmation();
+  const tags = useMemo(() => countTags(content), [content]);
+  const [checkedTags, setCheckedTags] = useState<string[]>([]);
+  const [mergeTarget, setMergeTarget] = useState('');
+
+  // Tags renamed or deleted elsewhere drop out of the merge selection.
+  const mergeTags = checkedTags.filter((tag) => tags.some((usage) => usage.tag === tag));
+  const mergeInto = normalizeTag(mergeTarget) || mergeTags[0];
+
+  const renameTag = (from: string, to: string) =>
+    rpc('RenameTag', { From: from, To: to }).catch((error) =>
+      showCommandFailure(`Couldn't rename ${from}`, error),
+    );
+
+  const deleteTag = (tag: string) => {
+    const count = tags.find((usage) => usage.tag === tag)?.count ?? 0;
+    confirmDelete({
+      title: 'Delete tag?',
+      description: `Remove the tag ${tag} from ${count === 1 ? '1 item' : `${count} items`}? The items themselves are kept.`,
+      onConfirm: () =>
+        rpc('DeleteTag', { Tag: tag }).catch((error) =>
+          showCommandFailure(`Couldn't delete ${tag}`, error),
+        ),
+    });
+  };
+
+  const mergeChecked = async () => {
+    setCheckedTags([]);
+    setMergeTarget('');
+    for (const tag of mergeTags.filter((tag) => tag !== mergeInto)) {
+      await renameTag(tag, mergeInto);
+    }
+  };
+
+  const toggleChecked = (tag: string) =>
+    setCheckedTags((prev) => (prev.includes(tag) ? prev.filter((t) => t !== tag) : [...prev, tag]));
+
+  return (
+    <div className="p-4 bg-base-300 rounded-lg shadow-md border border-custom">
+      <h2 className="text-xl font-semibold mb-1">Tags</h2>
+      <p className="text-sm text-gray-400 mb-4">
+        Rename or delete tags on every item at once. Select two or more to merge them.
+      </p>
+      {tags.length === 0 ? (
+        <p className="text-sm text-gray-400">
+          Right-click an item and choose Tags to add some. They can be filtered on in each
+          page&apos;s Filter menu.
+        </p>
+      ) : (
+        <div className="space-y-2 max-w-md">
+          {mergeTags.length >= 2 && (
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                value={mergeTarget}
+                maxLength={MAX_TAG_LENGTH}
+                onChange={(e) => setMergeTarget(e.target.value)}
+                placeholder={mergeTags[0]}
+                className="input input-sm input-bordered flex-1 bg-base-200"
+              />
+              <Button variant="primary" size="sm" onClick={mergeChecked}>
+                <Combine size={16} />
+                Merge {mergeTags.length} tags
+              </Button>
+            </div>
+          )}
+          {tags.map((usage) => (
+            <TagRow
+              key={usage.tag}
+              usage={usage}
+              isOtherTag={(tag) => tags.some((other) => other.tag === tag)}
+              checked={mergeTags.includes(usage.tag)}
+              onCheck={() => toggleChecked(usage.tag)}
+              onRename={renameTag}
+              onDelete={deleteTag}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
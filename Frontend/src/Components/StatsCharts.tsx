@@ -0,0 +1,126 @@
+import { ReactNode } from 'react';
+
+export interface ChartSegment {
+  key: string;
+  label: string;
+  color: string;
+  value: number;
+}
+
+export interface ChartColumn {
+  key: string;
+  label: string;
+  segments: ChartSegment[];
+}
+
+// More labels than this under a chart run into each other, so only every nth column gets one.
+const MAX_AXIS_LABELS = 8;
+
+const columnTotal = (column: ChartColumn) =>
+  column.segments.reduce((sum, segment) => sum + segment.value, 0);
+
+// Stacked columns scaled to the tallest, bottom segment first. Hovering a column lists its values.
+export function ColumnChart({
+  columns,
+  formatValue,
+  label,
+}: {
+  columns: ChartColumn[];
+  formatValue: (value: number) => string;
+  // Read out instead of the columns.
+  label: string;
+}) {
+  const max = Math.max(0, ...columns.map(columnTotal));
+  const labelEvery = Math.max(1, Math.ceil(columns.length / MAX_AXIS_LABELS));
+
+  return (
+    <div role="img" aria-label={label}>
+      <p className="text-xs tabular-nums text-gray-400 mb-1">{formatValue(max)}</p>
+      <div className="flex h-48 items-end gap-[2px] border-b border-base-400">
+        {columns.map((column) => {
+          const segments = column.segments.filter((segment) => segment.value > 0);
+          return (
+            <div
+              key={column.key}
+              title={[
+                column.label,
+                ...segments.map((segment) => `${segment.label}: ${formatValue(segment.value)}`),
+              ].join('\n')}
+              className="flex h-full min-w-0 flex-1 flex-col-reverse rounded-t-sm hover:bg-white/5"
+            >
+              {segments.map((segment) => (
+                <div
+                  key={segment.key}
+                  className="shrink-0 last:rounded-t-sm"
+                  style={{
+                    height: `${max > 0 ? (segment.value / max) * 100 : 0}%`,
+                    backgroundColor: segment.color,
+                  }}
+                />
+              ))}
+            </div>
+          );
+        })}
+      </div>
+      <div className="mt-1 flex gap-[2px]" aria-hidden="true">
+        {columns.map((column, index) => (
+          <div key={column.key} className="min-w-0 flex-1 whitespace-nowrap text-xs text-gray-400">
+            {index % labelEvery === 0 ? column.label : ''}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function ChartLegend({
+  entries,
+}: {
+  entries: { key: string; label: string; color: string }[];
+}) {
+  return (
+    <div className="mt-3 flex flex-wrap items-center gap-x-5 gap-y-2 text-sm">
+      {entries.map((entry) => (
+        <span key={entry.key} className="flex items-center gap-2 min-w-0">
+          <span
+            className="size-2.5 shrink-0 rounded-[2px]"
+            style={{ backgroundColor: entry.color }}
+          />
+          <span className="truncate text-base-content/80">{entry.label}</span>
+        </span>
+      ))}
+    </div>
+  );
+}
+
+// Horizontal bars scaled to the longest, for ranking things like games.
+export function BarList({
+  rows,
+  color,
+}: {
+  rows: { key: string; label: ReactNode; value: number; valueLabel: string }[];
+  color: string;
+}) {
+  const max = Math.max(0, ...rows.map((row) => row.value));
+  return (
+    <div className="space-y-2">
+      {rows.map((row) => (
+        <div key={row.key} className="flex items-center gap-3 text-sm">
+          <span className="w-40 shrink-0 truncate">{row.label}</span>
+          <div className="h-2.5 flex-1 overflow-hidden rounded-full bg-base-400/35">
+            <div
+              className="h-full rounded-full"
+              style={{
+                width: `${max > 0 ? (row.value / max) * 100 : 0}%`,
+                backgroundColor: color,
+              }}
+            />
+          </div>
+          <span className="w-16 shrink-0 text-right tabular-nums text-gray-400">
+            {row.valueLabel}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+import { ReactNode } from 'react';
+import { X } from 'lucide-react';
+
+interface TagChipProps {
+  tag: string;
+  onRemove?: () => void;
+  // Extra content after the name, e.g. how many of the selected items carry the tag.
+  children?: ReactNode;
+}
+
+export default function TagChip({ tag, onRemove, children }: TagChipProps) {
+  return (
+    <span className="badge badge-sm h-5 gap-1 bg-base-200 border-base-400 text-gray-300 max-w-full">
+      <span className="truncate">{tag}</span>
+      {children}
+      {onRemove && (
+        <button
+          type="button"
+          className="text-gray-400 hover:text-error"
+          onClick={(e) => {
+            e.stopPropagation();
+            onRemove();
+          }}
+          aria-label={`Remove ${tag}`}
+        >
+          <X size={12} />
+        </button>
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,155 @@
+import { useMemo, useState } from 'react';
+import { Plus, Tag } from 'lucide-react';
+import { useAppState, usePatchContent } from '../Context/AppStateContext';
+import { rpc } from '../Utils/MessageUtils';
+import { useCommandFailure } from '../Hooks/useCommandFailure';
+import { MAX_TAG_LENGTH, countTags, parseTagInput } from '../Utils/ContentTags';
+import Button from './Button';
+import TagChip from './TagChip';
+
+interface TagEditorModalProps {
+  // One item from a card's menu, or the page's multi-select.
+  ids: string[];
+  onClose: () => void;
+}
+
+const MAX_SUGGESTIONS = 8;
+
+// Adds and removes tags on one or more items. Changes apply as they're made, so there's nothing
+// to save when closing.
+export default function TagEditorModal({ ids, onClose }: TagEditorModalProps) {
+  const { content } = useAppState();
+  const patchContent = usePatchContent();
+  const showCommandFailure = useCommandFailure();
+  const [input, setInput] = useState('');
+
+  const items = useMemo(() => content.filter((item) => ids.includes(item.id)), [content, ids]);
+  const itemTags = useMemo(() => countTags(items), [items]);
+  const libraryTags = useMemo(() => countTags(content), [content]);
+
+  const typed = parseTagInput(input);
+  const partial = input.split(',').pop()!.trim().toLowerCase();
+  const suggestions = libraryTags
+    .filter(
+      ({ tag }) =>
+        tag.includes(partial) &&
+        !itemTags.some((usage) => usage.tag === tag && usage.count === items.length),
+    )
+    .slice(0, MAX_SUGGESTIONS);
+
+  const changeTags = (add: string[], remove: string[]) => {
+    if (items.length === 0 || (add.length === 0 && remove.length === 0)) return;
+    const previous = items.map((item) => ({ id: item.id, tags: item.tags }));
+    // Show the change immediately; the backend's State push confirms it.
+    for (const item of items) {
+      const kept = item.tags.filter((tag) => !remove.includes(tag));
+      patchContent(item.id, { tags: [...kept, ...add.filter((tag) => !kept.includes(tag))] });
+    }
+    rpc('SetContentTags', {
+      Ids: items.map((item) => item.id),
+      Add: add,
+      Remove: remove,
+    }).catch((error) => {
+      for (const { id, tags } of previous) patchContent(id, { tags });
+      showCommandFailure("Couldn't update tags", error);
+    });
+  };
+
+  const addTyped = () => {
+    changeTags(typed, []);
+    setInput('');
+  };
+
+  return (
+    <>
+      <div className="modal-header pb-4 border-b border-gray-700">
+        <h2 className="font-bold text-2xl mb-0 flex items-center gap-2">
+          <Tag size={22} />
+          Tags
+        </h2>
+        <Button
+          variant="ghost"
+          size="sm"
+          icon
+          className="absolute right-4 top-4 z-10"
+          onClick={onClose}
+        >
+          ✕
+        </Button>
+      </div>
+
+      <div className="modal-body mt-4 space-y-4">
+        <p className="text-sm text-gray-400 truncate">
+          {items.length === 1
+            ? items[0].title || items[0].game || items[0].fileName
+            : `${items.length} selected items`}
+        </p>
+
+        <div className="flex flex-wrap gap-1.5 min-h-5">
+          {itemTags.length === 0 && <span className="text-sm text-gray-500">No tags yet</span>}
+          {itemTags.map(({ tag, count }) => (
+            <TagChip key={tag} tag={tag} onRemove={() => changeTags([], [tag])}>
+              {count < items.length && (
+                <button
+                  type="button"
+                  className="text-gray-400 hover:text-primary tabular-nums"
+                  onClick={() => changeTags([tag], [])}
+                  title={`On ${count} of ${items.length}. Add to all`}
+                >
+                  {count}/{items.length}
+                </button>
+              )}
+            </TagChip>
+          ))}
+        </div>
+
+        <div className="flex gap-2">
+          <input
+            autoFocus
+            type="text"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                addTyped();
+              }
+            }}
+            placeholder="Add tags, separated by commas"
+            maxLength={MAX_TAG_LENGTH * 4}
+            className="input input-sm input-bordered flex-1 bg-base-200"
+          />
+          <Button variant="primary" size="sm" disabled={typed.length === 0} onClick={addTyped}>
+            <Plus size={16} />
+            Add
+          </Button>
+        </div>
+
+        {suggestions.length > 0 && (
+          <div className="flex flex-wrap gap-1.5">
+            {suggestions.map(({ tag }) => (
+              <button
+                key={tag}
+                type="button"
+                className="badge badge-sm h-5 gap-1 bg-transparent border-dashed border-base-400 text-gray-400 hover:text-primary hover:border-primary"
+                onClick={() => {
+                  changeTags([tag], []);
+                  setInput('');
+                }}
+              >
+                <Plus size={10} />
+                {tag}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="modal-action mt-6">
+        <Button variant="primary" onClick={onClose}>
+          Done
+        </Button>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,291 @@
+import { useEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react';
+import {
+  ArrowDownLeft,
+  ArrowUpRight,
+  Download,
+  Pause,
+  Play,
+  Square,
+  Trash2,
+  Upload,
+  X,
+} from 'lucide-react';
+import DropdownSelect from './DropdownSelect';
+import Button from './Button';
+import {
+  TrafficDirection,
+  TrafficEntry,
+  clearTraffic,
+  exportTraffic,
+  getTrafficEntries,
+  getTrafficVersion,
+  importTraffic,
+  isRecordingTraffic,
+  replayTraffic,
+  setRecordingTraffic,
+  setTrafficInspectorOpen,
+  subscribeToTraffic,
+} from '../Utils/TrafficLog';
+
+// Rendering every entry of a full buffer makes typing in the filter sluggish.
+const MAX_VISIBLE_ENTRIES = 500;
+
+const formatOffset = (ms: number) => `+${(ms / 1000).toFixed(3)}s`;
+
+const formatGap = (ms: number) => (ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`);
+
+// RequestId of a command, or of the CommandAck/CommandResult answering it.
+const requestIdOf = (entry: TrafficEntry): string | undefined => {
+  const payload = entry.payload as { RequestId?: unknown; requestId?: unknown } | null;
+  const id = entry.direction === 'out' ? payload?.RequestId : payload?.requestId;
+  return typeof id === 'string' ? id : undefined;
+};
+
+function TrafficRow({
+  entry,
+  offset,
+  gap,
+  roundTrip,
+}: {
+  entry: TrafficEntry;
+  offset: number;
+  gap: number | null;
+  roundTrip: number | null;
+}) {
+  const [expanded, setExpanded] = useState(false);
+  const DirectionIcon = entry.direction === 'in' ? ArrowDownLeft : ArrowUpRight;
+
+  return (
+    <div className="border-b border-custom">
+      <button
+        type="button"
+        className="w-full flex items-center gap-2 px-3 py-1.5 text-left hover:bg-white/5"
+        onClick={() => setExpanded(!expanded)}
+      >
+        <span className="w-20 shrink-0 text-gray-500 tabular-nums">{formatOffset(offset)}</span>
+        <span className="w-14 shrink-0 text-gray-500 tabular-nums">
+          {gap !== null ? formatGap(gap) : ''}
+        </span>
+        <DirectionIcon
+          size={14}
+          className={`shrink-0 ${entry.direction === 'in' ? 'text-info' : 'text-warning'}`}
+        />
+        <span className={`truncate ${entry.error ? 'text-error' : 'text-gray-200'}`}>
+          {entry.method}
+        </span>
+        {entry.replayed && <span className="badge badge-xs badge-ghost">replayed</span>}
+        {roundTrip !== null && (
+          <span className="ml-auto shrink-0 text-gray-500 tabular-nums">
+            {formatGap(roundTrip)} round trip
+          </span>
+        )}
+      </button>
+      {expanded && (
+        <div className="px-3 pb-2">
+          {entry.error && <p className="text-error mb-1">{entry.error}</p>}
+          <pre className="bg-base-200 rounded p-2 overflow-auto max-h-80 text-gray-300 whitespace-pre-wrap break-all">
+            {JSON.stringify(entry.payload, null, 2)}
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Developer panel listing the messages exchanged with the backend, opened with Ctrl+Shift+D.
+// It can export the capture as JSON and replay a saved capture into the running UI, which is
+// how most "the page went blank after X" reports get reproduced.
+export default function TrafficInspector() {
+  const [isOpen, setIsOpen] = useState(false);
+  const [methodFilter, setMethodFilter] = useState('');
+  const [direction, setDirection] = useState<TrafficDirection | 'all'>('all');
+  const [replayError, setReplayError] = useState<string | null>(null);
+  const stopReplayRef = useRef<(() => void) | null>(null);
+  const [isReplaying, setIsReplaying] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const version = useSyncExternalStore(subscribeToTraffic, getTrafficVersion);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey && e.shiftKey && e.key.toLowerCase() === 'd') {
+        e.preventDefault();
+        setIsOpen((open) => !open);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    setTrafficInspectorOpen(isOpen);
+  }, [isOpen]);
+
+  useEffect(() => () => stopReplayRef.current?.(), []);
+
+  // Only read the buffer while the panel is open; `version` changes with every message.
+  const entries = useMemo(() => (isOpen ? getTrafficEntries() : []), [isOpen, version]);
+
+  const filtered = useMemo(() => {
+    const terms = methodFilter
+      .toLowerCase()
+      .split(',')
+      .map((term) => term.trim())
+      .filter(Boolean);
+    return entries.filter(
+      (entry) =>
+        (direction === 'all' || entry.direction === direction) &&
+        (terms.length === 0 || terms.some((term) => entry.method.toLowerCase().includes(term))),
+    );
+  }, [entries, methodFilter, direction]);
+
+  // When each command was sent, to time the CommandAck/CommandResult that answers it.
+  const sentAt = useMemo(() => {
+    const map = new Map<string, number>();
+    for (const entry of entries) {
+      const requestId = entry.direction === 'out' ? requestIdOf(entry) : undefined;
+      if (requestId) map.set(requestId, entry.at);
+    }
+    return map;
+  }, [entries]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const visible = filtered.slice(-MAX_VISIBLE_ENTRIES);
+  const start = entries[0]?.at ?? 0;
+  const recording = isRecordingTraffic();
+
+  const handleExport = () => {
+    const blob = new Blob([exportTraffic(filtered)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `segra-traffic-${new Date().toISOString().replace(/[:.]/g, '-')}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleReplayFile = async (file: File) => {
+    setReplayError(null);
+    let captured: TrafficEntry[];
+    try {
+      captured = importTraffic(await file.text());
+    } catch (error) {
+      setReplayError(error instanceof Error ? error.message : String(error));
+      return;
+    }
+    stopReplayRef.current?.();
+    setIsReplaying(true);
+    stopReplayRef.current = replayTraffic(captured, {
+      onDone: () => {
+        stopReplayRef.current = null;
+        setIsReplaying(false);
+      },
+    });
+  };
+
+  return (
+    <div className="fixed top-0 right-0 bottom-0 w-[36rem] max-w-full bg-base-300 border-l border-custom z-[9998] flex flex-col text-xs shadow-xl">
+      <div className="flex items-center gap-2 p-3 border-b border-custom">
+        <h2 className="text-sm font-semibold text-base-content mr-auto">
+          Backend traffic
+          <span className="ml-2 font-normal text-gray-500">
+            {filtered.length} of {entries.length}
+          </span>
+        </h2>
+        <Button
+          variant="ghost"
+          size="xs"
+          onClick={() => setRecordingTraffic(!recording)}
+          title={recording ? 'Pause recording' : 'Resume recording'}
+        >
+          {recording ? <Pause size={14} /> : <Play size={14} />}
+        </Button>
+        <Button variant="ghost" size="xs" onClick={clearTraffic} title="Clear">
+          <Trash2 size={14} />
+        </Button>
+        <Button variant="ghost" size="xs" onClick={handleExport} title="Export shown entries">
+          <Download size={14} />
+        </Button>
+        {isReplaying ? (
+          <Button
+            variant="ghost"
+            size="xs"
+            onClick={() => stopReplayRef.current?.()}
+            title="Stop replay"
+          >
+            <Square size={14} />
+          </Button>
+        ) : (
+          <Button
+            variant="ghost"
+            size="xs"
+            onClick={() => fileInputRef.current?.click()}
+            title="Replay a capture"
+          >
+            <Upload size={14} />
+          </Button>
+        )}
+        <Button variant="ghost" size="xs" onClick={() => setIsOpen(false)} title="Close">
+          <X size={14} />
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) handleReplayFile(file);
+          }}
+        />
+      </div>
+
+      <div className="flex items-center gap-2 p-3 border-b border-custom">
+        <input
+          type="text"
+          className="input input-sm input-bordered flex-1 bg-base-200"
+          placeholder="Filter by method, comma separated"
+          value={methodFilter}
+          onChange={(e) => setMethodFilter(e.target.value)}
+        />
+        <div className="w-28">
+          <DropdownSelect
+            size="sm"
+            items={[
+              { value: 'all', label: 'All' },
+              { value: 'in', label: 'Inbound' },
+              { value: 'out', label: 'Outbound' },
+            ]}
+            value={direction}
+            onChange={(val) => setDirection(val as TrafficDirection | 'all')}
+          />
+        </div>
+      </div>
+
+      {replayError && <p className="px-3 pt-2 text-error">{replayError}</p>}
+      {!recording && <p className="px-3 pt-2 text-warning">Recording is paused.</p>}
+
+      <div className="flex-1 overflow-auto font-mono">
+        {visible.map((entry, index) => {
+          const previous = index > 0 ? visible[index - 1] : null;
+          const requestId = entry.direction === 'in' ? requestIdOf(entry) : undefined;
+          const requestSentAt = requestId ? sentAt.get(requestId) : undefined;
+          return (
+            <TrafficRow
+              key={entry.id}
+              entry={entry}
+              offset={entry.at - start}
+              gap={previous ? entry.at - previous.at : null}
+              roundTrip={requestSentAt !== undefined ? entry.at - requestSentAt : null}
+            />
+          );
+        })}
+        {visible.length === 0 && <p className="p-3 text-gray-500">No messages recorded yet.</p>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+import { AnimatePresence, motion } from 'framer-motion';
+import { Redo2, Undo2 } from 'lucide-react';
+import type { UndoToastState } from '../Context/UndoContext';
+import Button from './Button';
+import BackendActionTooltip from './BackendActionTooltip';
+
+interface UndoToastProps {
+  toast: UndoToastState | null;
+  disabled: boolean;
+  onAction: () => void;
+  onDismiss: () => void;
+}
+
+// Bottom right, clear of the bulk action bar in the middle.
+export default function UndoToast({ toast, disabled, onAction, onDismiss }: UndoToastProps) {
+  return (
+    <AnimatePresence>
+      {toast && (
+        <motion.div
+          key={toast.id}
+          initial={{ opacity: 0, y: 50 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: 50 }}
+          transition={{ duration: 0.2 }}
+          role="status"
+          className="fixed bottom-3 right-3 max-w-sm bg-base-300 border border-base-400 rounded-xl pl-4 pr-2 py-2 flex items-center gap-2 shadow-lg z-50"
+        >
+          <span className="text-sm truncate">{toast.message}</span>
+          <BackendActionTooltip>
+            <Button
+              variant="success"
+              size="sm"
+              className="no-animation gap-1 shrink-0"
+              disabled={disabled}
+              onClick={onAction}
+            >
+              {toast.action === 'undo' ? <Undo2 size={16} /> : <Redo2 size={16} />}
+              {toast.action === 'undo' ? 'Undo' : 'Redo'}
+            </Button>
+          </BackendActionTooltip>
+          <Button variant="ghost" size="xs" icon aria-label="Dismiss" onClick={onDismiss}>
+            ✕
+          </Button>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -1,6 +1,7 @@
 import { useState } from 'react';
 import { AnimatePresence, motion } from 'framer-motion';
-import { useUploads, type UploadProgress } from '../Context/UploadContext';
+import { useUploads } from '../Context/UploadContext';
+import type { UploadProgress } from '../Models/WebSocketMessages';
 import CircularProgress from './CircularProgress';
 import { X } from 'lucide-react';
 
@@ -12,6 +13,7 @@ export default function UploadCard({ upload }: UploadCardProps) {
   const { cancelUpload } = useUploads();
   const [isCancelling, setIsCancelling] = useState(false);
   const isUploading = upload.status === 'uploading';
+  const canCancel = isUploading || upload.status === 'queued';
 
   const thumbnailUrl = upload.thumbnailPath
     ? `http://localhost:2222/api/thumbnail?input=${encodeURIComponent(upload.thumbnailPath)}`
@@ -24,6 +26,8 @@ export default function UploadCard({ upload }: UploadCardProps) {
 
   const getStatusText = () => {
     switch (upload.status) {
+      case 'queued':
+        return 'Queued';
       case 'uploading':
         return `Uploading ${Math.round(upload.progress)}%`;
       case 'processing':
@@ -65,7 +69,7 @@ export default function UploadCard({ upload }: UploadCardProps) {
           {/* Upload Details */}
           <div className="min-w-0 flex-1">
             <AnimatePresence>
-              {isUploading && (
+              {canCancel && (
                 <motion.button
                   initial={{ opacity: 0 }}
                   animate={{ opacity: 1 }}
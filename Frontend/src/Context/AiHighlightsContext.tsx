@@ -1,5 +1,6 @@
-import { createContext, useContext, ReactNode, useState, useEffect } from 'react';
+import { createContext, useContext, ReactNode, useState } from 'react';
 import { AiProgress } from '../Models/types';
+import { useBackendMessage } from '../Hooks/useBackendMessage';
 
 interface AiHighlightsContextType {
   aiProgress: Record<string, AiProgress>;
@@ -11,39 +12,27 @@ const AiHighlightsContext = createContext<AiHighlightsContextType | undefined>(u
 export function AiHighlightsProvider({ children }: { children: ReactNode }) {
   const [aiProgress, setAiProgress] = useState<Record<string, AiProgress>>({});
 
-  useEffect(() => {
-    const handleWebSocketMessage = (event: CustomEvent<{ method: string; content: any }>) => {
-      const { method, content } = event.detail;
-
-      if (method === 'AiProgress') {
-        const progress = content as AiProgress;
-        setAiProgress((prev) => ({
-          ...prev,
-          [progress.id]: progress,
-        }));
-
-        if (progress.status === 'done') {
-          setAiProgress((prev) => {
-            const { [progress.id]: _, ...rest } = prev;
-            return rest;
-          });
-        } else if (progress.progress < 0) {
-          // This is an error, remove error after 5 seconds so user can see the message
-          setTimeout(() => {
-            setAiProgress((prev) => {
-              const { [progress.id]: _, ...rest } = prev;
-              return rest;
-            });
-          }, 5000);
-        }
-      }
-    };
-
-    window.addEventListener('websocket-message', handleWebSocketMessage as EventListener);
-    return () => {
-      window.removeEventListener('websocket-message', handleWebSocketMessage as EventListener);
-    };
-  }, []);
+  useBackendMessage('AiProgress', (progress) => {
+    setAiProgress((prev) => ({
+      ...prev,
+      [progress.id]: progress,
+    }));
+
+    if (progress.status === 'done') {
+      setAiProgress((prev) => {
+        const { [progress.id]: _, ...rest } = prev;
+        return rest;
+      });
+    } else if (progress.progress < 0) {
+      // This is an error, remove error after 5 seconds so user can see the message
+      setTimeout(() => {
+        setAiProgress((prev) => {
+          const { [progress.id]: _, ...rest } = prev;
+          return rest;
+        });
+      }, 5000);
+    }
+  });
 
   const removeAiHighlight = (id: string) => {
     setAiProgress((prev) => {
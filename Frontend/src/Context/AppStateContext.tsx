@@ -1,10 +1,21 @@
-import { createContext, useContext, useState, ReactNode, useEffect, useCallback } from 'react';
-import { State, initialState, GameListEntry, Content } from '../Models/types';
+import {
+  createContext,
+  useContext,
+  useState,
+  ReactNode,
+  useCallback,
+  useEffect,
+  useRef,
+} from 'react';
+import { State, initialState, Content } from '../Models/types';
+import { ContentDeltaMessage } from '../Models/WebSocketMessages';
+import { useBackendMessage } from '../Hooks/useBackendMessage';
+import { sendMessageToBackend } from '../Utils/MessageUtils';
 
 const AppStateContext = createContext<State>(initialState);
 
 // Optimistic local patch of a content item, applied until the next authoritative
-// State push from the backend overwrites it.
+// content update from the backend overwrites it.
 type PatchContent = (id: string, patch: Partial<Content>) => void;
 const AppStateUpdaterContext = createContext<PatchContent>(() => {});
 
@@ -16,74 +27,169 @@ export function usePatchContent(): PatchContent {
   return useContext(AppStateUpdaterContext);
 }
 
+// The cache is saved once things have been quiet for a moment rather than on every update.
+const CACHE_SAVE_DELAY_MS = 1000;
+
+// Content changes received since the last snapshot, by id. The library itself is only written
+// to localStorage when a snapshot arrives; rewriting thousands of items on every rename or
+// bookmark made the app stutter.
+interface ContentChanges {
+  updated: Map<string, Content>;
+  removed: Set<string>;
+}
+
+const noContentChanges = (): ContentChanges => ({ updated: new Map(), removed: new Set() });
+
+const recordContentDelta = (
+  changes: ContentChanges,
+  { added, updated, removed }: ContentDeltaMessage,
+) => {
+  for (const item of [...added, ...updated]) {
+    changes.updated.set(item.id, item);
+    changes.removed.delete(item.id);
+  }
+  for (const id of removed) {
+    changes.updated.delete(id);
+    changes.removed.add(id);
+  }
+};
+
+// Keeps untouched items as the same objects, so only cards whose content changed re-render.
+const applyContentDelta = (
+  content: Content[],
+  { added, updated, removed }: Pick<ContentDeltaMessage, 'added' | 'updated' | 'removed'>,
+): Content[] => {
+  const updates = new Map(updated.map((item) => [item.id, item]));
+  const dropped = new Set([...removed, ...added.map((item) => item.id)]);
+  const kept = content
+    .filter((item) => !dropped.has(item.id))
+    .map((item) => {
+      const update = updates.get(item.id);
+      updates.delete(item.id);
+      return update ?? item;
+    });
+  // Anything left in updates wasn't in the list (e.g. removed by an optimistic patch); add it.
+  return [...added, ...updates.values(), ...kept];
+};
+
 interface AppStateProviderProps {
   children: ReactNode;
 }
 
 export function AppStateProvider({ children }: AppStateProviderProps) {
   const STORAGE_KEY = 'segra.appstate.v1';
+  const CONTENT_SNAPSHOT_KEY = 'segra.content.v1';
+  const CONTENT_CHANGES_KEY = 'segra.contentchanges.v1';
+
+  const readCache = (key: string) => {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : null;
+  };
 
-  const loadCachedState = (): State => {
+  const writeCache = (key: string, value: unknown) => {
     try {
-      const raw = localStorage.getItem(STORAGE_KEY);
-      if (!raw) return initialState;
-      const cached = JSON.parse(raw);
+      localStorage.setItem(key, JSON.stringify(value));
+    } catch {
+      // ignore caching errors
+    }
+  };
+
+  const loadCachedState = (): { state: State; changes: ContentChanges } => {
+    try {
+      const cached = readCache(STORAGE_KEY);
+      if (!cached) return { state: initialState, changes: noContentChanges() };
       const revived: State = { ...initialState, ...cached };
       // Do not restore live recording info from cache
       revived.recording = undefined;
       revived.preRecording = undefined;
       revived.hasLoadedObs = false;
-      return revived;
+
+      const snapshot: Content[] = readCache(CONTENT_SNAPSHOT_KEY) ?? [];
+      const cachedChanges = readCache(CONTENT_CHANGES_KEY);
+      const changes: ContentChanges = {
+        updated: new Map(
+          (cachedChanges?.updated ?? []).map((item: Content) => [item.id, item] as const),
+        ),
+        removed: new Set(cachedChanges?.removed ?? []),
+      };
+      revived.content = applyContentDelta(snapshot, {
+        added: [],
+        updated: [...changes.updated.values()],
+        removed: [...changes.removed],
+      })
+        // Items cached by a version without tags; the first snapshot replaces them anyway.
+        .map((item) => (item.tags ? item : { ...item, tags: [] }));
+      return { state: revived, changes };
     } catch {
-      return initialState;
+      return { state: initialState, changes: noContentChanges() };
     }
   };
 
-  const saveCachedState = (value: State) => {
-    try {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(value));
-    } catch {
-      // ignore caching errors
-    }
+  const saveCachedContentChanges = (changes: ContentChanges) => {
+    writeCache(CONTENT_CHANGES_KEY, {
+      updated: [...changes.updated.values()],
+      removed: [...changes.removed],
+    });
   };
 
-  const [appState, setAppState] = useState<State>(() => loadCachedState());
+  const [cached] = useState(loadCachedState);
+  const [appState, setAppState] = useState<State>(cached.state);
+  // Revision of the last content snapshot or delta applied; null until the first snapshot.
+  const contentRevision = useRef<number | null>(null);
+  // Set after asking for a resync, so deltas are dropped until the new snapshot arrives.
+  const awaitingSnapshot = useRef(false);
+  const contentChanges = useRef(cached.changes);
+
+  useEffect(() => {
+    const timeoutId = setTimeout(() => {
+      writeCache(STORAGE_KEY, { ...appState, content: [] });
+      saveCachedContentChanges(contentChanges.current);
+    }, CACHE_SAVE_DELAY_MS);
+    return () => clearTimeout(timeoutId);
+  }, [appState]);
 
   const patchContent = useCallback<PatchContent>((id, patch) => {
-    setAppState((prev) => {
-      const next: State = {
-        ...prev,
-        content: prev.content.map((c) => (c.id === id ? { ...c, ...patch } : c)),
-      };
-      saveCachedState(next);
-      return next;
-    });
+    setAppState((prev) => ({
+      ...prev,
+      content: prev.content.map((c) => (c.id === id ? { ...c, ...patch } : c)),
+    }));
   }, []);
 
-  useEffect(() => {
-    const handleWebSocketMessage = (event: CustomEvent<any>) => {
-      const data = event.detail;
-
-      if (data.method === 'State') {
-        setAppState((prev) => {
-          const next: State = { ...prev, ...data.content };
-          saveCachedState(next);
-          return next;
-        });
-      } else if (data.method === 'GameList') {
-        setAppState((prev) => {
-          const next: State = { ...prev, gameList: data.content as GameListEntry[] };
-          saveCachedState(next);
-          return next;
-        });
-      }
-    };
-
-    window.addEventListener('websocket-message', handleWebSocketMessage as EventListener);
-    return () => {
-      window.removeEventListener('websocket-message', handleWebSocketMessage as EventListener);
-    };
-  }, []);
+  useBackendMessage('State', (state) => {
+    setAppState((prev) => ({ ...prev, ...state }));
+  });
+
+  useBackendMessage('GameList', (gameList) => {
+    setAppState((prev) => ({ ...prev, gameList }));
+  });
+
+  useBackendMessage('ContentSnapshot', ({ revision, content }) => {
+    contentRevision.current = revision;
+    awaitingSnapshot.current = false;
+    contentChanges.current = noContentChanges();
+    // Written together, so a later load never applies old changes to the new snapshot.
+    writeCache(CONTENT_SNAPSHOT_KEY, content);
+    saveCachedContentChanges(contentChanges.current);
+    setAppState((prev) => ({ ...prev, content }));
+  });
+
+  useBackendMessage('ContentDelta', (delta) => {
+    if (awaitingSnapshot.current) return;
+
+    const expected = contentRevision.current === null ? null : contentRevision.current + 1;
+    if (delta.revision !== expected) {
+      console.warn(
+        `Content delta ${delta.revision} does not follow ${contentRevision.current}; resyncing`,
+      );
+      awaitingSnapshot.current = true;
+      sendMessageToBackend('ResyncContent');
+      return;
+    }
+
+    contentRevision.current = delta.revision;
+    recordContentDelta(contentChanges.current, delta);
+    setAppState((prev) => ({ ...prev, content: applyContentDelta(prev.content, delta) }));
+  });
 
   return (
     <AppStateContext.Provider value={appState}>
@@ -0,0 +1,118 @@
+import { createContext, useContext, ReactNode, useEffect, useRef, useState } from 'react';
+import { useBackendMessage } from '../Hooks/useBackendMessage';
+
+// Background work started on a multi-selection from the bulk action bar.
+export type BulkJobKind = 'compress' | 'upload' | 'highlight';
+
+// One entry per video: its progress (0-100), or how it ended.
+export type BulkJobItemState = number | 'done' | 'failed';
+
+export interface BulkJob {
+  id: string;
+  kind: BulkJobKind;
+  // Keyed like the progress messages: file path for compressions, file name for uploads and
+  // content id for highlights.
+  items: Record<string, BulkJobItemState>;
+}
+
+interface BulkJobsContextType {
+  jobs: BulkJob[];
+  startJob: (kind: BulkJobKind, keys: string[]) => void;
+  // For an item whose command was rejected, so no progress will ever arrive for it.
+  failJobItem: (kind: BulkJobKind, key: string) => void;
+  dismissJob: (id: string) => void;
+}
+
+// How long a finished job stays up so its outcome can be read.
+const FINISHED_JOB_LINGER_MS = 5000;
+
+const BulkJobsContext = createContext<BulkJobsContextType | undefined>(undefined);
+
+export const isJobFinished = (job: BulkJob) =>
+  Object.values(job.items).every((state) => state === 'done' || state === 'failed');
+
+export function BulkJobsProvider({ children }: { children: ReactNode }) {
+  const [jobs, setJobs] = useState<BulkJob[]>([]);
+  const removalTimers = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+
+  const updateItem = (kind: BulkJobKind, key: string, state: BulkJobItemState) => {
+    setJobs((prev) =>
+      prev.map((job) => {
+        const current = job.items[key];
+        if (
+          job.kind !== kind ||
+          current === undefined ||
+          current === 'done' ||
+          current === 'failed'
+        )
+          return job;
+        return { ...job, items: { ...job.items, [key]: state } };
+      }),
+    );
+  };
+
+  useBackendMessage('CompressionProgress', ({ filePath, status, progress }) => {
+    updateItem(
+      'compress',
+      filePath,
+      status === 'done' || status === 'skipped' ? 'done' : status === 'error' ? 'failed' : progress,
+    );
+  });
+
+  useBackendMessage('UploadProgress', ({ fileName, status, progress }) => {
+    updateItem(
+      'upload',
+      fileName,
+      status === 'done' ? 'done' : status === 'error' ? 'failed' : progress,
+    );
+  });
+
+  useBackendMessage('AiProgress', ({ content, status, progress }) => {
+    updateItem(
+      'highlight',
+      content.id,
+      status === 'done' ? 'done' : progress < 0 ? 'failed' : progress,
+    );
+  });
+
+  useEffect(() => {
+    for (const job of jobs.filter(isJobFinished)) {
+      if (removalTimers.current.has(job.id)) continue;
+      const timer = setTimeout(() => {
+        removalTimers.current.delete(job.id);
+        setJobs((prev) => prev.filter((other) => other.id !== job.id));
+      }, FINISHED_JOB_LINGER_MS);
+      removalTimers.current.set(job.id, timer);
+    }
+  }, [jobs]);
+
+  useEffect(() => {
+    const timers = removalTimers.current;
+    return () => timers.forEach(clearTimeout);
+  }, []);
+
+  const startJob = (kind: BulkJobKind, keys: string[]) => {
+    if (keys.length === 0) return;
+    const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+    const items = Object.fromEntries(keys.map((key) => [key, 0]));
+    setJobs((prev) => [...prev, { id, kind, items }]);
+  };
+
+  const failJobItem = (kind: BulkJobKind, key: string) => updateItem(kind, key, 'failed');
+
+  const dismissJob = (id: string) => setJobs((prev) => prev.filter((job) => job.id !== id));
+
+  return (
+    <BulkJobsContext.Provider value={{ jobs, startJob, failJobItem, dismissJob }}>
+      {children}
+    </BulkJobsContext.Provider>
+  );
+}
+
+export function useBulkJobs() {
+  const context = useContext(BulkJobsContext);
+  if (!context) {
+    throw new Error('useBulkJobs must be used within a BulkJobsProvider');
+  }
+  return context;
+}
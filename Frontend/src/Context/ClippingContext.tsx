@@ -1,15 +1,9 @@
-import { createContext, useContext, useState, useEffect, useRef, type ReactNode } from 'react';
+import { createContext, useContext, useState, useRef, type ReactNode } from 'react';
 import { sendMessageToBackend } from '../Utils/MessageUtils';
 import { useSegments } from './SegmentsContext';
 import { useSettings } from './SettingsContext';
-import { Segment } from '../Models/types';
-
-export interface ClippingProgress {
-  id: number;
-  progress: number;
-  segments: Segment[];
-  error?: string;
-}
+import { ClippingProgress } from '../Models/WebSocketMessages';
+import { useBackendMessage } from '../Hooks/useBackendMessage';
 
 export interface ClippingContextType {
   clippingProgress: Record<number, ClippingProgress>;
@@ -25,58 +19,45 @@ export function ClippingProvider({ children }: { children: ReactNode }) {
   const { removeSegment } = useSegments();
   const settings = useSettings();
 
-  useEffect(() => {
-    const handleWebSocketMessage = (event: CustomEvent<{ method: string; content: any }>) => {
-      const { method, content } = event.detail;
-
-      if (method === 'ClipProgress') {
-        const progress = content as ClippingProgress;
-
-        // Suppress messages for cancelled clips
-        if (suppressedIds.current.has(progress.id)) {
-          return;
-        }
-
-        setClippingProgress((prev) => ({
-          ...prev,
-          [progress.id]: progress,
-        }));
+  useBackendMessage('ClipProgress', (progress) => {
+    // Suppress messages for cancelled clips
+    if (suppressedIds.current.has(progress.id)) {
+      return;
+    }
 
-        if (progress.progress === 100) {
-          // If setting is enabled, remove all segments that were in the clip
-          if (
-            settings.clipClearSegmentsAfterCreatingClip &&
-            progress.segments &&
-            progress.segments.length > 0
-          ) {
-            // Remove each segment that was included in the clip
-            progress.segments.forEach((segment) => {
-              removeSegment(segment.id);
-            });
-          }
+    setClippingProgress((prev) => ({
+      ...prev,
+      [progress.id]: progress,
+    }));
 
-          setClippingProgress((prev) => {
-            const { [progress.id]: _, ...rest } = prev;
-            return rest;
-          });
-        } else if (progress.progress === -1) {
-          // Error occurred - keep in progress list briefly to show error, then remove
-          console.error('Clip creation failed:', progress.error);
-          setTimeout(() => {
-            setClippingProgress((prev) => {
-              const { [progress.id]: _, ...rest } = prev;
-              return rest;
-            });
-          }, 5000); // Remove after 5 seconds so user can see the error
-        }
+    if (progress.progress === 100) {
+      // If setting is enabled, remove all segments that were in the clip
+      if (
+        settings.clipClearSegmentsAfterCreatingClip &&
+        progress.segments &&
+        progress.segments.length > 0
+      ) {
+        // Remove each segment that was included in the clip
+        progress.segments.forEach((segment) => {
+          removeSegment(segment.id);
+        });
       }
-    };
 
-    window.addEventListener('websocket-message', handleWebSocketMessage as EventListener);
-    return () => {
-      window.removeEventListener('websocket-message', handleWebSocketMessage as EventListener);
-    };
-  }, [settings.clipClearSegmentsAfterCreatingClip, removeSegment]);
+      setClippingProgress((prev) => {
+        const { [progress.id]: _, ...rest } = prev;
+        return rest;
+      });
+    } else if (progress.progress === -1) {
+      // Error occurred - keep in progress list briefly to show error, then remove
+      console.error('Clip creation failed:', progress.error);
+      setTimeout(() => {
+        setClippingProgress((prev) => {
+          const { [progress.id]: _, ...rest } = prev;
+          return rest;
+        });
+      }, 5000); // Remove after 5 seconds so user can see the error
+    }
+  });
 
   const removeClipping = (id: number) => {
     setClippingProgress((prev) => {
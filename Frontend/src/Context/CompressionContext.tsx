@@ -1,11 +1,6 @@
-import { createContext, useContext, ReactNode, useState, useEffect } from 'react';
-
-interface CompressionProgress {
-  filePath: string;
-  progress: number;
-  status: 'compressing' | 'done' | 'error' | 'skipped';
-  message?: string;
-}
+import { createContext, useContext, ReactNode, useState } from 'react';
+import { CompressionProgress } from '../Models/WebSocketMessages';
+import { useBackendMessage } from '../Hooks/useBackendMessage';
 
 interface CompressionContextType {
   compressionProgress: Record<string, CompressionProgress>;
@@ -19,42 +14,30 @@ export function CompressionProvider({ children }: { children: ReactNode }) {
     Record<string, CompressionProgress>
   >({});
 
-  useEffect(() => {
-    const handleWebSocketMessage = (event: CustomEvent<{ method: string; content: any }>) => {
-      const { method, content } = event.detail;
-
-      if (method === 'CompressionProgress') {
-        const progress = content as CompressionProgress;
-
-        if (
-          progress.status === 'done' ||
-          progress.status === 'error' ||
-          progress.status === 'skipped'
-        ) {
-          setTimeout(() => {
-            setCompressionProgress((prev) => {
-              const { [progress.filePath]: _, ...rest } = prev;
-              return rest;
-            });
-          }, 2000);
-        }
-
-        setCompressionProgress((prev) => ({
-          ...prev,
-          [progress.filePath]: progress,
-        }));
-      }
-    };
-
-    window.addEventListener('websocket-message', handleWebSocketMessage as EventListener);
-    return () => {
-      window.removeEventListener('websocket-message', handleWebSocketMessage as EventListener);
-    };
-  }, []);
-
+  useBackendMessage('CompressionProgress', (progress) => {
+    if (
+      progress.status === 'done' ||
+      progress.status === 'error' ||
+      progress.status === 'skipped'
+    ) {
+      setTimeout(() => {
+        setCompressionProgress((prev) => {
+          const { [progress.filePath]: _, ...rest } = prev;
+          return rest;
+        });
+      }, 2000);
+    }
+
+    setCompressionProgress((prev) => ({
+      ...prev,
+      [progress.filePath]: progress,
+    }));
+  });
+
+  // Queued compressions count too, so the video isn't changed while it waits its turn.
   const isCompressing = (filePath: string) => {
-    const progress = compressionProgress[filePath];
-    return progress?.status === 'compressing';
+    const status = compressionProgress[filePath]?.status;
+    return status === 'compressing' || status === 'queued';
   };
 
   return (
@@ -1,14 +1,6 @@
-import { createContext, useContext, ReactNode, useState, useEffect } from 'react';
-
-export interface ContentMigrationProgress {
-  id: string;
-  fileName: string;
-  progress: number;
-  status: 'migrating' | 'done' | 'error';
-  totalFiles: number;
-  currentFileIndex: number;
-  message?: string;
-}
+import { createContext, useContext, ReactNode, useState } from 'react';
+import { ContentMigrationProgress } from '../Models/WebSocketMessages';
+import { useBackendMessage } from '../Hooks/useBackendMessage';
 
 interface ContentMigrationContextType {
   migrations: Record<string, ContentMigrationProgress>;
@@ -20,35 +12,22 @@ const ContentMigrationContext = createContext<ContentMigrationContextType | unde
 export function ContentMigrationProvider({ children }: { children: ReactNode }) {
   const [migrations, setMigrations] = useState<Record<string, ContentMigrationProgress>>({});
 
-  useEffect(() => {
-    const handleWebSocketMessage = (event: CustomEvent<any>) => {
-      const data = event.detail;
-
-      if (data.method === 'ContentMigrationProgress') {
-        const migration = data.content as ContentMigrationProgress;
-        setMigrations((prev) => ({
-          ...prev,
-          [migration.id]: migration,
-        }));
-
-        if (migration.status === 'done' || migration.status === 'error') {
-          setTimeout(() => {
-            setMigrations((prev) => {
-              const next = { ...prev };
-              delete next[migration.id];
-              return next;
-            });
-          }, 4000);
-        }
-      }
-    };
-
-    window.addEventListener('websocket-message', handleWebSocketMessage as EventListener);
-
-    return () => {
-      window.removeEventListener('websocket-message', handleWebSocketMessage as EventListener);
-    };
-  }, []);
+  useBackendMessage('ContentMigrationProgress', (migration) => {
+    setMigrations((prev) => ({
+      ...prev,
+      [migration.id]: migration,
+    }));
+
+    if (migration.status === 'done' || migration.status === 'error') {
+      setTimeout(() => {
+        setMigrations((prev) => {
+          const next = { ...prev };
+          delete next[migration.id];
+          return next;
+        });
+      }, 4000);
+    }
+  });
 
   const isMigrating = Object.values(migrations).some((m) => m.status === 'migrating');
 
@@ -1,8 +1,5 @@
-import { createContext, ReactNode, useEffect } from 'react';
+import { createContext, ReactNode } from 'react';
 import {
-  isShowModalMessage,
-  isStorageWarningMessage,
-  isRecoveryPromptMessage,
   ModalMessage,
   StorageWarningMessage,
   RecoveryPromptMessage,
@@ -12,35 +9,16 @@ import GenericModal from '../Components/GenericModal';
 import ConfirmationModal from '../Components/ConfirmationModal';
 import RecoveryModal from '../Components/RecoveryModal';
 import { sendMessageToBackend } from '../Utils/MessageUtils';
+import { useBackendMessage } from '../Hooks/useBackendMessage';
 
 const GeneralMessagesContext = createContext<undefined>(undefined);
 
 export function GeneralMessagesProvider({ children }: { children: ReactNode }) {
   const { openModal, closeModal } = useModal();
 
-  useEffect(() => {
-    const handleWebSocketMessage = (event: CustomEvent<any>) => {
-      const message = event.detail;
-
-      if (isShowModalMessage(message)) {
-        openGenericModal(message.content);
-      }
-
-      if (isStorageWarningMessage(message)) {
-        openStorageWarningModal(message.content);
-      }
-
-      if (isRecoveryPromptMessage(message)) {
-        openRecoveryPromptModal(message.content);
-      }
-    };
-
-    window.addEventListener('websocket-message', handleWebSocketMessage as EventListener);
-
-    return () => {
-      window.removeEventListener('websocket-message', handleWebSocketMessage as EventListener);
-    };
-  }, []);
+  useBackendMessage('ShowModal', (content) => openGenericModal(content));
+  useBackendMessage('StorageWarning', (content) => openStorageWarningModal(content));
+  useBackendMessage('RecoveryPrompt', (content) => openRecoveryPromptModal(content));
 
   const openGenericModal = (modalData: ModalMessage) => {
     openModal(
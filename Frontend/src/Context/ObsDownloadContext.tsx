@@ -1,4 +1,5 @@
-import { createContext, useContext, ReactNode, useState, useEffect } from 'react';
+import { createContext, useContext, ReactNode, useState } from 'react';
+import { useBackendMessage } from '../Hooks/useBackendMessage';
 
 interface ObsDownloadContextType {
   obsDownloadProgress: number | null;
@@ -9,21 +10,9 @@ const ObsDownloadContext = createContext<ObsDownloadContextType | undefined>(und
 export function ObsDownloadProvider({ children }: { children: ReactNode }) {
   const [obsDownloadProgress, setObsDownloadProgress] = useState<number | null>(null);
 
-  useEffect(() => {
-    const handleWebSocketMessage = (event: CustomEvent<any>) => {
-      const data = event.detail;
-
-      if (data.method === 'ObsDownloadProgress') {
-        setObsDownloadProgress(data.content.progress);
-      }
-    };
-
-    window.addEventListener('websocket-message', handleWebSocketMessage as EventListener);
-
-    return () => {
-      window.removeEventListener('websocket-message', handleWebSocketMessage as EventListener);
-    };
-  }, []);
+  useBackendMessage('ObsDownloadProgress', (content) => {
+    setObsDownloadProgress(content.progress);
+  });
 
   return (
     <ObsDownloadContext.Provider value={{ obsDownloadProgress }}>
@@ -10,6 +10,7 @@ import {
 import { Settings, initialSettings } from '../Models/types';
 import { useWebSocketContext } from './WebSocketContext';
 import { sendMessageToBackend } from '../Utils/MessageUtils';
+import { useBackendMessage } from '../Hooks/useBackendMessage';
 
 export const SETTINGS_STORAGE_KEY = 'segra.settings.v1';
 
@@ -80,19 +81,9 @@ export function SettingsProvider({ children }: SettingsProviderProps) {
     }
   }, [settings]);
 
-  useEffect(() => {
-    const handleWebSocketMessage = (event: CustomEvent<any>) => {
-      const data = event.detail;
-      if (data.method === 'Settings') {
-        updateSettings(data.content, true);
-      }
-    };
-
-    window.addEventListener('websocket-message', handleWebSocketMessage as EventListener);
-    return () => {
-      window.removeEventListener('websocket-message', handleWebSocketMessage as EventListener);
-    };
-  }, [updateSettings]);
+  useBackendMessage('Settings', (content) => {
+    updateSettings(content, true);
+  });
 
   return (
     <SettingsContext.Provider value={settings}>
@@ -0,0 +1,147 @@
+import {
+  createContext,
+  ReactNode,
+  useCallback,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+} from 'react';
+import { useModal } from './ModalContext';
+import { useWebSocketContext } from './WebSocketContext';
+import { useCommandFailure } from '../Hooks/useCommandFailure';
+import UndoToast from '../Components/UndoToast';
+
+// A change that has gone through and can be taken back. Each side sends the backend the command
+// that reverses the other, so undoing is an edit like any other.
+export interface UndoAction {
+  // What was done, e.g. "Renamed 3 items". Shown in the toast.
+  label: string;
+  undo: () => Promise<unknown>;
+  redo: () => Promise<unknown>;
+  // Offers Undo in a toast right away, for changes that are easy to make by accident.
+  destructive?: boolean;
+}
+
+export interface UndoToastState {
+  id: number;
+  message: string;
+  // What the toast's button does.
+  action: 'undo' | 'redo';
+}
+
+interface UndoContextType {
+  // Anything that could still be redone is dropped, like in any editor.
+  record: (action: UndoAction) => void;
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+const MAX_HISTORY = 50;
+const TOAST_DURATION_MS = 6000;
+
+const UndoContext = createContext<UndoContextType | undefined>(undefined);
+
+export function UndoProvider({ children }: { children: ReactNode }) {
+  const { isModalOpen } = useModal();
+  const { unavailableReason } = useWebSocketContext();
+  const showCommandFailure = useCommandFailure();
+  const [past, setPast] = useState<UndoAction[]>([]);
+  const [future, setFuture] = useState<UndoAction[]>([]);
+  const [toast, setToast] = useState<UndoToastState | null>(null);
+  // One step at a time, so a held Ctrl+Z doesn't send the same inverse twice.
+  const busyRef = useRef(false);
+
+  const showToast = useCallback(
+    (message: string, action: UndoToastState['action']) =>
+      setToast((prev) => ({ id: (prev?.id ?? 0) + 1, message, action })),
+    [],
+  );
+
+  useEffect(() => {
+    if (!toast) return;
+    const timer = setTimeout(() => setToast(null), TOAST_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [toast]);
+
+  // Stable, so pages can list it in their callbacks' dependencies.
+  const record = useCallback(
+    (action: UndoAction) => {
+      setPast((prev) => [...prev, action].slice(-MAX_HISTORY));
+      setFuture([]);
+      if (action.destructive) showToast(action.label, 'undo');
+      else setToast(null);
+    },
+    [showToast],
+  );
+
+  const step = async (direction: 'undo' | 'redo') => {
+    const stack = direction === 'undo' ? past : future;
+    const action = stack[stack.length - 1];
+    if (!action || busyRef.current || unavailableReason) return;
+
+    busyRef.current = true;
+    const [setFrom, setTo] = direction === 'undo' ? [setPast, setFuture] : [setFuture, setPast];
+    setToast(null);
+    try {
+      await action[direction]();
+      // The entry stays put until the command has gone through, so a failed step can be retried.
+      setFrom((prev) => prev.filter((entry) => entry !== action));
+      setTo((prev) => [...prev, action].slice(-MAX_HISTORY));
+      showToast(
+        `${direction === 'undo' ? 'Undid' : 'Redid'}: ${action.label}`,
+        direction === 'undo' ? 'redo' : 'undo',
+      );
+    } catch (error) {
+      showCommandFailure(`Couldn't ${direction} "${action.label}"`, error);
+    } finally {
+      busyRef.current = false;
+    }
+  };
+
+  const undo = () => void step('undo');
+  const redo = () => void step('redo');
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || e.key.toLowerCase() !== 'z') return;
+      if (isModalOpen) return;
+      // Text fields keep their own undo.
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)
+        return;
+
+      e.preventDefault();
+      if (e.repeat) return;
+      if (e.shiftKey) redo();
+      else undo();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  return (
+    <UndoContext.Provider
+      value={{ record, undo, redo, canUndo: past.length > 0, canRedo: future.length > 0 }}
+    >
+      {children}
+      <UndoToast
+        toast={toast}
+        disabled={!!unavailableReason}
+        onAction={() => (toast?.action === 'redo' ? redo() : undo())}
+        onDismiss={() => setToast(null)}
+      />
+    </UndoContext.Provider>
+  );
+}
+
+export function useUndo() {
+  const context = useContext(UndoContext);
+  if (!context) {
+    throw new Error('useUndo must be used within an UndoProvider');
+  }
+  return context;
+}
@@ -1,21 +1,10 @@
 import { createContext, useContext, useState, ReactNode, useEffect, useRef } from 'react';
-import {
-  isUpdateProgressMessage,
-  isReleaseNotesMessage,
-  ReleaseNote,
-  isShowReleaseNotesMessage,
-} from '../Models/WebSocketMessages';
+import { ReleaseNote, UpdateProgress } from '../Models/WebSocketMessages';
 import { useModal } from './ModalContext';
 import ReleaseNotesModal from '../Components/ReleaseNotesModal';
 import { ReleaseNotesContext } from '../App';
 import { sendMessageToBackend } from '../Utils/MessageUtils';
-
-export interface UpdateProgress {
-  version: string;
-  progress: number;
-  status: 'downloading' | 'downloaded' | 'ready' | 'error';
-  message: string;
-}
+import { useBackendMessage } from '../Hooks/useBackendMessage';
 
 interface UpdateContextType {
   updateInfo: UpdateProgress | null;
@@ -63,57 +52,43 @@ export function UpdateProvider({ children }: { children: ReactNode }) {
   // Access the global release notes context
   const globalReleaseNotes = useContext(ReleaseNotesContext);
 
-  useEffect(() => {
-    const handleWebSocketMessage = (event: CustomEvent<any>) => {
-      const message = event.detail;
-
-      if (isUpdateProgressMessage(message)) {
-        setUpdateInfo(message.content);
-      }
-
-      if (message.method === 'AppVersion' && message.content) {
-        if (typeof message.content.canSelfUpdate === 'boolean') {
-          setCanSelfUpdate(message.content.canSelfUpdate);
-        }
-
-        // Open "What's New" when the version changed since the last run. Compared against a
-        // persisted record, not __APP_VERSION__: unstamped builds never match the backend.
-        const backendVersion = message.content.version;
-        if (backendVersion && !versionCheckHandled.current) {
-          versionCheckHandled.current = true;
-          const previous = localStorage.getItem('loadedAppVersion');
-          if (previous !== backendVersion) {
-            localStorage.setItem('loadedAppVersion', backendVersion);
-            if (previous && /^\d+\.\d+/.test(previous)) {
-              openReleaseNotesModal(previous);
-            }
-          }
+  useBackendMessage('UpdateProgress', (content) => {
+    setUpdateInfo(content);
+  });
+
+  useBackendMessage('AppVersion', (content) => {
+    if (typeof content.canSelfUpdate === 'boolean') {
+      setCanSelfUpdate(content.canSelfUpdate);
+    }
+
+    // Open "What's New" when the version changed since the last run. Compared against a
+    // persisted record, not __APP_VERSION__: unstamped builds never match the backend.
+    const backendVersion = content.version;
+    if (backendVersion && !versionCheckHandled.current) {
+      versionCheckHandled.current = true;
+      const previous = localStorage.getItem('loadedAppVersion');
+      if (previous !== backendVersion) {
+        localStorage.setItem('loadedAppVersion', backendVersion);
+        if (previous && /^\d+\.\d+/.test(previous)) {
+          openReleaseNotesModal(previous);
         }
       }
+    }
+  });
 
-      if (isReleaseNotesMessage(message)) {
-        // Handle the ReleaseNotes message
-        if (message.content && message.content.releaseNotesList) {
-          setReleaseNotes(message.content.releaseNotesList);
-          // Also update the global release notes
-          globalReleaseNotes.setReleaseNotes(message.content.releaseNotesList);
-        }
-      }
+  useBackendMessage('ReleaseNotes', (content) => {
+    setReleaseNotes(content.releaseNotesList);
+    // Also update the global release notes
+    globalReleaseNotes.setReleaseNotes(content.releaseNotesList);
+  });
 
-      if (isShowReleaseNotesMessage(message)) {
-        openReleaseNotesModal(message.content);
-      }
-    };
+  useBackendMessage('ShowReleaseNotes', (content) => {
+    openReleaseNotesModal(content);
+  });
 
-    // Listen for WebSocket messages
-    window.addEventListener('websocket-message', handleWebSocketMessage as EventListener);
-
-    // Leftover from the removed reload-based version check; clear it so it can't linger forever.
+  // Leftover from the removed reload-based version check; clear it so it can't linger forever.
+  useEffect(() => {
     localStorage.removeItem('oldAppVersion');
-
-    return () => {
-      window.removeEventListener('websocket-message', handleWebSocketMessage as EventListener);
-    };
   }, []);
 
   const clearUpdateInfo = () => {
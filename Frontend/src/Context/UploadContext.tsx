@@ -1,14 +1,7 @@
-import { createContext, useContext, ReactNode, useState, useEffect } from 'react';
+import { createContext, useContext, ReactNode, useState } from 'react';
 import { sendMessageToBackend } from '../Utils/MessageUtils';
-
-export interface UploadProgress {
-  title: string;
-  fileName: string;
-  thumbnailPath?: string;
-  progress: number;
-  status: 'uploading' | 'processing' | 'done' | 'error';
-  message?: string;
-}
+import { UploadProgress } from '../Models/WebSocketMessages';
+import { useBackendMessage } from '../Hooks/useBackendMessage';
 
 interface UploadContextType {
   uploads: Record<string, UploadProgress>;
@@ -20,33 +13,21 @@ const UploadContext = createContext<UploadContextType | undefined>(undefined);
 export function UploadProvider({ children }: { children: ReactNode }) {
   const [uploads, setUploads] = useState<Record<string, UploadProgress>>({});
 
-  useEffect(() => {
-    const handleWebSocketMessage = (event: CustomEvent<any>) => {
-      const data = event.detail;
-
-      if (data.method === 'UploadProgress') {
-        const { title, fileName, thumbnailPath, progress, status, message } = data.content;
-        setUploads((prev) => ({
-          ...prev,
-          [fileName]: { title, fileName, thumbnailPath, progress, status, message },
-        }));
-
-        if (status === 'done' || status === 'error') {
-          setUploads((prev) => {
-            const newUploads = { ...prev };
-            delete newUploads[fileName];
-            return newUploads;
-          });
-        }
-      }
-    };
-
-    window.addEventListener('websocket-message', handleWebSocketMessage as EventListener);
-
-    return () => {
-      window.removeEventListener('websocket-message', handleWebSocketMessage as EventListener);
-    };
-  }, []);
+  useBackendMessage('UploadProgress', (content) => {
+    const { title, fileName, thumbnailPath, progress, status, message } = content;
+    setUploads((prev) => ({
+      ...prev,
+      [fileName]: { title, fileName, thumbnailPath, progress, status, message },
+    }));
+
+    if (status === 'done' || status === 'error') {
+      setUploads((prev) => {
+        const newUploads = { ...prev };
+        delete newUploads[fileName];
+        return newUploads;
+      });
+    }
+  });
 
   const cancelUpload = (fileName: string) => {
     sendMessageToBackend('CancelUpload', { fileName });
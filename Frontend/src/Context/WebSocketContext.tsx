@@ -1,26 +1,95 @@
-import { createContext, useContext, ReactNode, useCallback, useEffect, useRef } from 'react';
+import {
+  createContext,
+  useContext,
+  ReactNode,
+  useEffect,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from 'react';
 import useWebSocket, { ReadyState } from 'react-use-websocket';
 import { sendMessageToBackend } from '../Utils/MessageUtils';
 import { useAuth } from '../Hooks/useAuth.tsx';
+import {
+  BackendCapability,
+  FRONTEND_CAPABILITIES,
+  HandshakeMessage,
+  MIN_BACKEND_PROTOCOL_VERSION,
+  PROTOCOL_VERSION,
+  parseBackendMessage,
+} from '../Models/WebSocketMessages';
+import { publishBackendMessage } from '../Utils/BackendMessageBus';
+import { handleBinaryMessage } from '../Utils/BinaryMessages';
+import {
+  getQueuedCommandCount,
+  setBackendReady,
+  subscribeToCommandQueue,
+} from '../Utils/CommandQueue';
+import { recordTraffic } from '../Utils/TrafficLog';
+
+export type ConnectionHealth = 'connected' | 'unresponsive' | 'disconnected';
+
+export interface ProtocolMismatch {
+  frontendVersion: number;
+  backendVersion: number;
+  // The side too old to understand the other.
+  outdated: 'frontend' | 'backend';
+}
 
 interface WebSocketContextType {
-  sendMessage: (message: string) => void;
+  sendMessage: typeof sendMessageToBackend;
   isConnected: boolean;
   connectionState: ReadyState;
+  connectionHealth: ConnectionHealth;
+  // Why actions that need the backend are disabled, or null while it is healthy.
+  unavailableReason: string | null;
+  // Failed connection attempts since the socket was last open.
+  reconnectAttempts: number;
+  // Read on demand rather than stored in state, so every message doesn't re-render the app.
+  getLastMessageAt: () => number | null;
+  // Commands waiting for the backend to reconnect.
+  queuedCommandCount: number;
+  // Set when the backend's protocol is incompatible; nothing from it is used until it changes.
+  protocolMismatch: ProtocolMismatch | null;
+  // Whether the connected backend offers an optional feature. Assumed until the handshake says
+  // otherwise, so features don't flicker out on every startup.
+  supports: (capability: BackendCapability) => boolean;
 }
 
-const WebSocketContext = createContext<WebSocketContextType | undefined>(undefined);
+// The heartbeat pings every 30s, so a healthy backend is never silent for this long. Kept
+// below the heartbeat timeout, which closes the socket and starts reconnecting.
+const UNRESPONSIVE_AFTER_MS = 90000;
 
-interface WebSocketMessage {
-  method: string;
-  content: any;
-}
+const checkProtocol = ({
+  protocolVersion,
+  minFrontendProtocolVersion,
+}: Omit<HandshakeMessage, 'capabilities'>): ProtocolMismatch | null => {
+  const outdated =
+    protocolVersion < MIN_BACKEND_PROTOCOL_VERSION
+      ? 'backend'
+      : PROTOCOL_VERSION < minFrontendProtocolVersion
+        ? 'frontend'
+        : null;
+  return outdated
+    ? { frontendVersion: PROTOCOL_VERSION, backendVersion: protocolVersion, outdated }
+    : null;
+};
+
+const WebSocketContext = createContext<WebSocketContextType | undefined>(undefined);
 
 export function WebSocketProvider({ children }: { children: ReactNode }) {
   // Get the auth session to properly handle authentication
   const { session } = useAuth();
   // Ref to track if this is a reconnection (not initial connection)
   const hasConnectedBefore = useRef(false);
+  const lastMessageAt = useRef<number | null>(null);
+  const [reconnectAttempts, setReconnectAttempts] = useState(0);
+  const [isUnresponsive, setIsUnresponsive] = useState(false);
+  const [capabilities, setCapabilities] = useState<string[] | null>(null);
+  const [protocolMismatch, setProtocolMismatch] = useState<ProtocolMismatch | null>(null);
+  // Refs as well as state: several messages can arrive before the next render.
+  const handshakeDone = useRef(false);
+  const protocolMismatchRef = useRef<ProtocolMismatch | null>(null);
 
   // Log when the WebSocket provider mounts or session changes
   useEffect(() => {
@@ -29,7 +98,10 @@ export function WebSocketProvider({ children }: { children: ReactNode }) {
 
   // Configure WebSocket with reconnection and heartbeat
   const { readyState } = useWebSocket('ws://localhost:44030/', {
-    onOpen: () => {
+    onOpen: (event) => {
+      // Binary frames (see BinaryMessages.ts) are read synchronously, so skip the Blob wrapper.
+      (event.target as WebSocket).binaryType = 'arraybuffer';
+
       // Check if this is a reconnection
       if (hasConnectedBefore.current) {
         console.log('WebSocket reconnected after disconnect - resyncing state');
@@ -37,8 +109,14 @@ export function WebSocketProvider({ children }: { children: ReactNode }) {
         console.log('WebSocket connected for the first time');
         hasConnectedBefore.current = true;
       }
+      setReconnectAttempts(0);
+      lastMessageAt.current = Date.now();
 
-      sendMessageToBackend('NewConnection');
+      handshakeDone.current = false;
+      sendMessageToBackend('NewConnection', {
+        ProtocolVersion: PROTOCOL_VERSION,
+        Capabilities: FRONTEND_CAPABILITIES,
+      });
 
       // If we already have a session when connecting, ensure we're logged in
       if (session) {
@@ -51,27 +129,79 @@ export function WebSocketProvider({ children }: { children: ReactNode }) {
     },
     onClose: (event) => {
       console.warn('WebSocket closed:', event.code, event.reason);
+      setBackendReady(false);
+      setReconnectAttempts((attempts) => attempts + 1);
+      setIsUnresponsive(false);
     },
     onError: (event) => {
       console.error('WebSocket error:', event);
     },
     onMessage: (event) => {
-      try {
-        const data: WebSocketMessage = JSON.parse(event.data);
-        if (data.method !== 'RecordingPreviewFrame') {
-          console.log('WebSocket message received:', data);
-        }
+      lastMessageAt.current = Date.now();
+      setIsUnresponsive(false);
+
+      if (event.data instanceof ArrayBuffer) {
+        handleBinaryMessage(event.data);
+        return;
+      }
 
-        // Dispatch the message to all listeners
-        window.dispatchEvent(
-          new CustomEvent('websocket-message', {
-            detail: data,
-          }),
-        );
+      let data: unknown;
+      try {
+        data = JSON.parse(event.data);
       } catch (error) {
         console.error('Failed to parse WebSocket message:', error);
+        return;
       }
+
+      // Drop anything that doesn't match the protocol instead of letting a renamed or
+      // mistyped field from the backend leak into app state.
+      const result = parseBackendMessage(data);
+      if (!result.ok) {
+        console.error('Rejected malformed WebSocket message:', result.error, data);
+        const method = (data as { method?: unknown } | null)?.method;
+        recordTraffic({
+          direction: 'in',
+          method: typeof method === 'string' ? method : '(unknown)',
+          payload: data,
+          error: result.error,
+        });
+        return;
+      }
+
+      const message = result.message;
+      recordTraffic({ direction: 'in', method: message.method, payload: message.content });
+
+      // NewConnection answers with Handshake first. A backend from before the handshake
+      // existed goes straight to Settings, which makes it protocol version 0.
+      if (!handshakeDone.current && message.method !== 'pong') {
+        handshakeDone.current = true;
+        const handshake =
+          message.method === 'Handshake'
+            ? message.content
+            : { protocolVersion: 0, minFrontendProtocolVersion: 0, capabilities: [] };
+        const mismatch = checkProtocol(handshake);
+        if (mismatch) {
+          console.error('Frontend/backend protocol mismatch:', mismatch);
+        }
+        protocolMismatchRef.current = mismatch;
+        setProtocolMismatch(mismatch);
+        setCapabilities(handshake.capabilities);
+      }
+
+      // Message shapes can't be trusted across a mismatch, and commands stay queued.
+      if (protocolMismatchRef.current) return;
+
+      // Settings and then State follow the handshake, so State marks its end. Anything queued
+      // while disconnected can go out now.
+      if (message.method === 'State') {
+        setBackendReady(true);
+      }
+
+      publishBackendMessage(message);
     },
+    // Messages are handled in onMessage; lastMessage is unused, so don't re-render the
+    // provider for every one of them.
+    filter: () => false,
     shouldReconnect: () => {
       console.log('WebSocket closed, will attempt to reconnect');
       return true;
@@ -91,12 +221,39 @@ export function WebSocketProvider({ children }: { children: ReactNode }) {
     },
   });
 
+  useEffect(() => {
+    if (readyState !== ReadyState.OPEN) return;
+    const intervalId = setInterval(() => {
+      const last = lastMessageAt.current;
+      if (last !== null && Date.now() - last > UNRESPONSIVE_AFTER_MS) {
+        setIsUnresponsive(true);
+      }
+    }, 5000);
+    return () => clearInterval(intervalId);
+  }, [readyState]);
+
+  const queuedCommandCount = useSyncExternalStore(subscribeToCommandQueue, getQueuedCommandCount);
+
+  const connectionHealth: ConnectionHealth =
+    readyState !== ReadyState.OPEN ? 'disconnected' : isUnresponsive ? 'unresponsive' : 'connected';
+  const unavailableReason =
+    connectionHealth === 'disconnected'
+      ? 'Not connected to Segra. Reconnecting...'
+      : connectionHealth === 'unresponsive'
+        ? 'Segra is not responding. Waiting for it to recover...'
+        : null;
+
   const contextValue = {
-    sendMessage: useCallback((message: string) => {
-      sendMessageToBackend(message);
-    }, []),
+    sendMessage: sendMessageToBackend,
     isConnected: readyState === ReadyState.OPEN,
     connectionState: readyState,
+    connectionHealth,
+    unavailableReason,
+    reconnectAttempts,
+    getLastMessageAt: () => lastMessageAt.current,
+    queuedCommandCount,
+    protocolMismatch,
+    supports: (capability: BackendCapability) => capabilities?.includes(capability) ?? true,
   };
 
   return <WebSocketContext.Provider value={contextValue}>{children}</WebSocketContext.Provider>;
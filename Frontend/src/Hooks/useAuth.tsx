@@ -9,6 +9,7 @@ import {
 } from 'react';
 import { api } from '../lib/api';
 import { sendMessageToBackend } from '../Utils/MessageUtils';
+import { useBackendMessage } from './useBackendMessage';
 
 interface AuthUser {
   id: string;
@@ -35,12 +36,6 @@ interface AuthContextType {
   signOut: () => void;
 }
 
-type DiscordLoginResult = {
-  status: 'success' | 'cancelled' | 'expired';
-  accessToken?: string;
-  refreshToken?: string;
-};
-
 const AuthContext = createContext<AuthContextType | null>(null);
 
 // Sign-out callbacks that external code can register (e.g. queryClient.clear())
@@ -198,30 +193,25 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   // No stored session on this origin (port change / cleared data): adopt the backend's tokens
   // from the first Settings message only, so a sign-out can't be resurrected by a later push.
-  useEffect(() => {
-    const handleMessage = (event: CustomEvent<any>) => {
-      const message = event.detail;
-      if (message?.method !== 'Settings' || adoptionAttemptedRef.current) return;
-      adoptionAttemptedRef.current = true;
-      if (loadSession()) return;
-
-      const jwt = message.content?.auth?.jwt;
-      const refreshToken = message.content?.auth?.refreshToken;
-      if (!jwt || !refreshToken) return;
-
-      const adopted: AuthSession = { access_token: jwt, refresh_token: refreshToken };
-      const adoptedUser = getUserFromJwt(adopted.access_token);
-      if (!adoptedUser) return;
-
-      console.log('No local session; adopting persisted session from backend');
-      saveSession(adopted);
-      setSession(adopted);
-      setUser(adoptedUser);
-      // If the adopted JWT is already expired, the auto-refresh effect refreshes it immediately.
-    };
-    window.addEventListener('websocket-message', handleMessage as EventListener);
-    return () => window.removeEventListener('websocket-message', handleMessage as EventListener);
-  }, []);
+  useBackendMessage('Settings', (settings) => {
+    if (adoptionAttemptedRef.current) return;
+    adoptionAttemptedRef.current = true;
+    if (loadSession()) return;
+
+    const jwt = settings.auth?.jwt;
+    const refreshToken = settings.auth?.refreshToken;
+    if (!jwt || !refreshToken) return;
+
+    const adopted: AuthSession = { access_token: jwt, refresh_token: refreshToken };
+    const adoptedUser = getUserFromJwt(adopted.access_token);
+    if (!adoptedUser) return;
+
+    console.log('No local session; adopting persisted session from backend');
+    saveSession(adopted);
+    setSession(adopted);
+    setUser(adoptedUser);
+    // If the adopted JWT is already expired, the auto-refresh effect refreshes it immediately.
+  });
 
   const login = useCallback(async (email: string, password: string) => {
     sessionGenRef.current++;
@@ -299,45 +289,36 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     sendMessageToBackend('CancelDiscordLogin');
   }, []);
 
-  useEffect(() => {
-    const handleMessage = (event: Event) => {
-      const { method, content } = (event as CustomEvent).detail ?? {};
-      if (method !== 'DiscordLoginResult') return;
-
-      const result = content as DiscordLoginResult;
-      setIsWaitingForDiscord(false);
-
-      if (result.status === 'expired') {
-        setAuthError('Discord sign-in timed out. Please try again.');
-        return;
-      }
-      if (result.status !== 'success' || !result.accessToken || !result.refreshToken) {
-        return;
-      }
+  useBackendMessage('DiscordLoginResult', (result) => {
+    setIsWaitingForDiscord(false);
 
-      const newSession: AuthSession = {
-        access_token: result.accessToken,
-        refresh_token: result.refreshToken,
-      };
-      const authUser = getUserFromJwt(newSession.access_token);
-      if (!authUser) {
-        setAuthError('Failed to authenticate. Please try again.');
-        return;
-      }
+    if (result.status === 'expired') {
+      setAuthError('Discord sign-in timed out. Please try again.');
+      return;
+    }
+    if (result.status !== 'success' || !result.accessToken || !result.refreshToken) {
+      return;
+    }
 
-      sessionGenRef.current++;
-      setSession(newSession);
-      setUser(authUser);
-      saveSession(newSession);
-      sendMessageToBackend('Login', {
-        accessToken: newSession.access_token,
-        refreshToken: newSession.refresh_token,
-      });
+    const newSession: AuthSession = {
+      access_token: result.accessToken,
+      refresh_token: result.refreshToken,
     };
+    const authUser = getUserFromJwt(newSession.access_token);
+    if (!authUser) {
+      setAuthError('Failed to authenticate. Please try again.');
+      return;
+    }
 
-    window.addEventListener('websocket-message', handleMessage);
-    return () => window.removeEventListener('websocket-message', handleMessage);
-  }, []);
+    sessionGenRef.current++;
+    setSession(newSession);
+    setUser(authUser);
+    saveSession(newSession);
+    sendMessageToBackend('Login', {
+      accessToken: newSession.access_token,
+      refreshToken: newSession.refresh_token,
+    });
+  });
 
   const value: AuthContextType = {
     user,
@@ -0,0 +1,22 @@
+import { useEffect, useLayoutEffect, useRef } from 'react';
+import { BackendMethod } from '../Models/WebSocketMessages';
+import { BackendMessageHandler, subscribeToBackendMessage } from '../Utils/BackendMessageBus';
+
+// Calls handler for every backend message of the given method while the component is
+// mounted. The latest handler is always used, so it can read current props and state without
+// resubscribing on every render.
+export function useBackendMessage<M extends BackendMethod>(
+  method: M,
+  handler: BackendMessageHandler<M>,
+) {
+  const handlerRef = useRef(handler);
+  useLayoutEffect(() => {
+    handlerRef.current = handler;
+  });
+
+  useEffect(
+    () =>
+      subscribeToBackendMessage(method, (content, message) => handlerRef.current(content, message)),
+    [method],
+  );
+}
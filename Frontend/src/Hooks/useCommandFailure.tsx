@@ -0,0 +1,24 @@
+import { useCallback } from 'react';
+import GenericModal from '../Components/GenericModal';
+import { useModal } from '../Context/ModalContext';
+import { rpcErrorMessage } from '../Utils/MessageUtils';
+
+// Returns a handler for rejected rpc() calls that explains the failure in an error modal.
+export function useCommandFailure() {
+  const { openModal, closeModal } = useModal();
+
+  return useCallback(
+    (title: string, error: unknown) => {
+      console.error(`${title}:`, error);
+      openModal(
+        <GenericModal
+          title={title}
+          description={rpcErrorMessage(error)}
+          type="error"
+          onClose={closeModal}
+        />,
+      );
+    },
+    [closeModal, openModal],
+  );
+}
@@ -0,0 +1,134 @@
+import { useEffect, useState } from 'react';
+
+// Frames for scrubbing through a video by hovering its card. Each frame is rendered by the
+// backend's thumbnail endpoint at one timestamp, so they're fetched one at a time, only for the
+// card under the mouse, and kept in memory for the next hover.
+
+export const SCRUB_FRAME_COUNT = 10;
+
+// How long the mouse has to rest on a card before frames are fetched, so sweeping across the grid
+// doesn't start an ffmpeg run for every card it passes.
+const HOVER_DELAY_MS = 200;
+
+const MAX_CACHED_VIDEOS = 40;
+
+// File path -> frame object URLs in timestamp order, undefined until fetched. Least recently
+// used first, so the oldest is evicted when full.
+const frameCache = new Map<string, (string | undefined)[]>();
+
+// File path -> number of mounted cards showing its frames. Their URLs are never revoked, so the
+// cache can briefly hold more than MAX_CACHED_VIDEOS while every entry is on screen.
+const holders = new Map<string, number>();
+
+// Spreads the fetches so a few frames already cover the whole video: 0, 5, 2, 7, ...
+const FETCH_ORDER = (() => {
+  const order = [0];
+  while (order.length < SCRUB_FRAME_COUNT) {
+    let best = 0;
+    let bestDistance = -1;
+    for (let index = 0; index < SCRUB_FRAME_COUNT; index++) {
+      const distance = Math.min(...order.map((chosen) => Math.abs(chosen - index)));
+      if (distance > bestDistance) {
+        best = index;
+        bestDistance = distance;
+      }
+    }
+    order.push(best);
+  }
+  return order;
+})();
+
+// Evicts the least recently used videos no mounted card holds until the cache fits.
+function trimCache() {
+  for (const [path, frames] of frameCache) {
+    if (frameCache.size <= MAX_CACHED_VIDEOS) return;
+    if (holders.has(path)) continue;
+    frames.forEach((url) => url && URL.revokeObjectURL(url));
+    frameCache.delete(path);
+  }
+}
+
+function cachedFrames(filePath: string): (string | undefined)[] {
+  const frames =
+    frameCache.get(filePath) ?? Array.from({ length: SCRUB_FRAME_COUNT }, () => undefined);
+  frameCache.delete(filePath);
+  frameCache.set(filePath, frames);
+  trimCache();
+  return frames;
+}
+
+function holdFrames(filePath: string) {
+  holders.set(filePath, (holders.get(filePath) ?? 0) + 1);
+}
+
+function releaseFrames(filePath: string) {
+  const count = (holders.get(filePath) ?? 1) - 1;
+  if (count > 0) {
+    holders.set(filePath, count);
+  } else {
+    holders.delete(filePath);
+    trimCache();
+  }
+}
+
+// The middle of each of SCRUB_FRAME_COUNT equal slices, so no frame is the black first one.
+export const scrubFrameTime = (index: number, durationSeconds: number) =>
+  ((index + 0.5) / SCRUB_FRAME_COUNT) * durationSeconds;
+
+export function useScrubFrames(
+  filePath: string | undefined,
+  durationSeconds: number,
+  active: boolean,
+): (string | undefined)[] {
+  // Frames live in the shared cache; this only re-renders the card as they arrive.
+  const [, setLoadedCount] = useState(0);
+
+  useEffect(() => {
+    if (!filePath) return;
+    holdFrames(filePath);
+    return () => releaseFrames(filePath);
+  }, [filePath]);
+
+  useEffect(() => {
+    if (!active || !filePath || durationSeconds <= 0) return;
+    const controller = new AbortController();
+
+    const fetchFrames = async () => {
+      const cached = cachedFrames(filePath);
+      for (const index of FETCH_ORDER) {
+        if (cached[index]) continue;
+        const time = scrubFrameTime(index, durationSeconds).toFixed(2);
+        const url = `http://localhost:2222/api/thumbnail?input=${encodeURIComponent(filePath)}&time=${time}`;
+        try {
+          const response = await fetch(url, { signal: controller.signal });
+          if (!response.ok) return;
+          const blob = await response.blob();
+          // The entry may have been evicted while this frame was being made.
+          if (frameCache.get(filePath) !== cached) return;
+          cached[index] = URL.createObjectURL(blob);
+          setLoadedCount((count) => count + 1);
+        } catch {
+          return; // Aborted when the mouse left, or the backend isn't reachable
+        }
+      }
+    };
+
+    const timer = setTimeout(fetchFrames, HOVER_DELAY_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [active, filePath, durationSeconds]);
+
+  return (filePath && frameCache.get(filePath)) || [];
+}
+
+// The fetched frame closest to a position across the video (0-1), until they've all arrived.
+export function frameAt(frames: (string | undefined)[], position: number): string | undefined {
+  const target = Math.min(SCRUB_FRAME_COUNT - 1, Math.floor(position * SCRUB_FRAME_COUNT));
+  for (let distance = 0; distance < SCRUB_FRAME_COUNT; distance++) {
+    const frame = frames[target - distance] ?? frames[target + distance];
+    if (frame) return frame;
+  }
+  return undefined;
+}
@@ -0,0 +1,267 @@
+import { RefObject, useCallback, useLayoutEffect, useMemo, useRef, useState } from 'react';
+
+// Windowing for the content grid: only the rows near the viewport are rendered, each positioned
+// absolutely inside a spacer as tall as the whole grid. Rows are measured once rendered; rows
+// never rendered use the average measured height, so the scrollbar settles as you scroll.
+
+// Tailwind's md, lg, xl and 2xl breakpoints, so the columns match a grid-cols-* layout.
+const COLUMN_BREAKPOINTS: [minViewportWidth: number, columns: number][] = [
+  [1536, 5],
+  [1280, 4],
+  [1024, 3],
+  [768, 2],
+];
+
+const columnsForViewport = (width: number) =>
+  COLUMN_BREAKPOINTS.find(([min]) => width >= min)?.[1] ?? 1;
+
+// gap-4
+export const GRID_GAP = 16;
+
+// A card is a 16:9 thumbnail plus roughly this much title and details, until one is measured.
+const CARD_BODY_ESTIMATE = 76;
+
+// Rows rendered beyond each edge of the viewport, in pixels.
+const OVERSCAN = 800;
+
+// Measured row heights, keyed by grid width and the items in the row. Shared by every grid and
+// kept across remounts, so returning to a page restores its scroll position exactly.
+const rowHeights = new Map<string, number>();
+const MAX_CACHED_ROWS = 20000;
+
+export interface VirtualGridRow {
+  index: number;
+  top: number;
+  // Range of item indexes in the row, end exclusive.
+  start: number;
+  end: number;
+}
+
+export interface GridRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// Ids of the items under a rectangle in the scroll container's content, for marquee selection.
+export type GridHitTest = (rect: GridRect) => string[];
+
+export function useVirtualGrid(scrollRef: RefObject<HTMLElement | null>, itemKeys: string[]) {
+  // Held in state so the observers attach when the grid first mounts, e.g. once content loads.
+  const [grid, attachGrid] = useState<HTMLDivElement | null>(null);
+  const rowElements = useRef(new Map<number, HTMLElement>());
+  const [columns, setColumns] = useState(() => columnsForViewport(window.innerWidth));
+  const [gridWidth, setGridWidth] = useState(0);
+  // The visible part of the scroll container, relative to the top of the grid.
+  const [viewport, setViewport] = useState({ top: 0, height: 0 });
+  const [measureVersion, setMeasureVersion] = useState(0);
+
+  // Where the grid starts inside the scroll container's content.
+  const gridOffset = useCallback(() => {
+    const container = scrollRef.current;
+    if (!grid || !container) return { left: 0, top: 0 };
+    const gridRect = grid.getBoundingClientRect();
+    const containerRect = container.getBoundingClientRect();
+    return {
+      left: gridRect.left - containerRect.left + container.scrollLeft,
+      top: gridRect.top - containerRect.top + container.scrollTop,
+    };
+  }, [grid, scrollRef]);
+
+  const updateViewport = useCallback(() => {
+    const container = scrollRef.current;
+    if (!container) return;
+    const top = container.scrollTop - gridOffset().top;
+    const height = container.clientHeight;
+    setViewport((prev) => (prev.top === top && prev.height === height ? prev : { top, height }));
+  }, [scrollRef, gridOffset]);
+
+  useLayoutEffect(() => {
+    const container = scrollRef.current;
+    if (!grid || !container) return;
+
+    const updateSize = () => {
+      setGridWidth(grid.clientWidth);
+      setColumns(columnsForViewport(window.innerWidth));
+      updateViewport();
+    };
+    updateSize();
+
+    let frame = 0;
+    const handleScroll = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(updateViewport);
+    };
+    const observer = new ResizeObserver(updateSize);
+    observer.observe(grid);
+    observer.observe(container);
+    container.addEventListener('scroll', handleScroll, { passive: true });
+    return () => {
+      cancelAnimationFrame(frame);
+      observer.disconnect();
+      container.removeEventListener('scroll', handleScroll);
+    };
+  }, [grid, scrollRef, updateViewport]);
+
+  const rowCount = Math.ceil(itemKeys.length / columns);
+  const columnWidth = Math.max(0, (gridWidth - GRID_GAP * (columns - 1)) / columns);
+
+  const layout = useMemo(() => {
+    const keys: string[] = [];
+    const tops: number[] = [];
+    const heights: number[] = [];
+    const known: number[] = [];
+    for (let row = 0; row < rowCount; row++) {
+      keys.push(`${gridWidth}|${itemKeys.slice(row * columns, (row + 1) * columns).join('|')}`);
+      const height = rowHeights.get(keys[row]);
+      if (height !== undefined) known.push(height);
+    }
+    const estimate =
+      known.length > 0
+        ? known.reduce((sum, height) => sum + height, 0) / known.length
+        : (columnWidth * 9) / 16 + CARD_BODY_ESTIMATE;
+
+    let y = 0;
+    for (let row = 0; row < rowCount; row++) {
+      tops.push(y);
+      heights.push(rowHeights.get(keys[row]) ?? estimate);
+      y += heights[row] + GRID_GAP;
+    }
+    return { keys, tops, heights, totalHeight: Math.max(0, y - GRID_GAP) };
+    // measureVersion marks new entries in the module-level height cache
+  }, [itemKeys, columns, gridWidth, columnWidth, rowCount, measureVersion]);
+
+  // First row whose bottom edge is below `y`.
+  const rowAt = useCallback(
+    (y: number) => {
+      let low = 0;
+      let high = rowCount - 1;
+      while (low < high) {
+        const mid = (low + high) >> 1;
+        if (layout.tops[mid] + layout.heights[mid] < y) low = mid + 1;
+        else high = mid;
+      }
+      return Math.max(0, low);
+    },
+    [layout, rowCount],
+  );
+
+  const rows = useMemo<VirtualGridRow[]>(() => {
+    if (gridWidth === 0 || rowCount === 0) return [];
+    const visible: VirtualGridRow[] = [];
+    const bottom = viewport.top + viewport.height + OVERSCAN;
+    for (let row = rowAt(viewport.top - OVERSCAN); row < rowCount; row++) {
+      if (layout.tops[row] > bottom) break;
+      visible.push({
+        index: row,
+        top: layout.tops[row],
+        start: row * columns,
+        end: Math.min(itemKeys.length, (row + 1) * columns),
+      });
+    }
+    return visible;
+  }, [gridWidth, rowCount, viewport, rowAt, layout, columns, itemKeys.length]);
+
+  // Measure the rendered rows after every render, since a card's height can change with its
+  // content (tags, a search match line). Rows that grew above the viewport move the scroll
+  // position along, so what's on screen stays put.
+  useLayoutEffect(() => {
+    const container = scrollRef.current;
+    let changed = false;
+    let shiftAbove = 0;
+    for (const row of rows) {
+      const element = rowElements.current.get(row.index);
+      if (!element) continue;
+      const key = layout.keys[row.index];
+      const height = element.offsetHeight;
+      if (rowHeights.get(key) === height) continue;
+      if (row.top + layout.heights[row.index] <= viewport.top) {
+        shiftAbove += height - layout.heights[row.index];
+      }
+      if (rowHeights.size >= MAX_CACHED_ROWS) rowHeights.clear();
+      rowHeights.set(key, height);
+      changed = true;
+    }
+    if (!changed) return;
+    if (container && shiftAbove !== 0) container.scrollTop += shiftAbove;
+    setMeasureVersion((version) => version + 1);
+  });
+
+  // Ref for each rendered row element, which carries its index as data-row-index.
+  const measureRow = useCallback((element: HTMLElement | null) => {
+    if (!element) return;
+    const index = Number(element.dataset.rowIndex);
+    rowElements.current.set(index, element);
+    return () => {
+      rowElements.current.delete(index);
+    };
+  }, []);
+
+  // Item indexes whose cell overlaps `area`, given in the scroll container's content coordinates.
+  const indexesInRect = useCallback(
+    (area: GridRect) => {
+      const indexes: number[] = [];
+      if (!grid || rowCount === 0 || area.width <= 0 || area.height <= 0) return indexes;
+      const offset = gridOffset();
+      const rect = { ...area, left: area.left - offset.left, top: area.top - offset.top };
+      const firstColumn = Math.max(0, Math.floor(rect.left / (columnWidth + GRID_GAP)));
+      const lastColumn = Math.min(
+        columns - 1,
+        Math.floor((rect.left + rect.width) / (columnWidth + GRID_GAP)),
+      );
+      for (let row = rowAt(rect.top); row < rowCount; row++) {
+        const top = layout.tops[row];
+        if (top >= rect.top + rect.height) break;
+        if (top + layout.heights[row] <= rect.top) continue;
+        for (let column = firstColumn; column <= lastColumn; column++) {
+          const left = column * (columnWidth + GRID_GAP);
+          const overlaps = rect.left < left + columnWidth && rect.left + rect.width > left;
+          const index = row * columns + column;
+          if (overlaps && index < itemKeys.length) indexes.push(index);
+        }
+      }
+      return indexes;
+    },
+    [grid, gridOffset, rowCount, columnWidth, columns, rowAt, layout, itemKeys.length],
+  );
+
+  // Scrolls the item's row to the middle of the viewport, rendering it if it wasn't.
+  // 'center' brings the row to the middle of the viewport; 'nearest' scrolls only as far as it
+  // takes to show the whole row, like moving focus with the keyboard.
+  const scrollToIndex = useCallback(
+    (
+      index: number,
+      behavior: ScrollBehavior = 'smooth',
+      block: 'center' | 'nearest' = 'center',
+    ) => {
+      const container = scrollRef.current;
+      const row = Math.floor(index / columns);
+      if (!container || row >= rowCount) return;
+      const rowTop = gridOffset().top + layout.tops[row];
+      if (block === 'center') {
+        const center = (container.clientHeight - layout.heights[row]) / 2;
+        container.scrollTo({ top: rowTop - center, behavior });
+        return;
+      }
+      const rowBottom = rowTop + layout.heights[row];
+      if (rowTop < container.scrollTop) {
+        container.scrollTo({ top: rowTop - GRID_GAP, behavior });
+      } else if (rowBottom > container.scrollTop + container.clientHeight) {
+        container.scrollTo({ top: rowBottom - container.clientHeight + GRID_GAP, behavior });
+      }
+    },
+    [scrollRef, columns, rowCount, layout, gridOffset],
+  );
+
+  return {
+    attachGrid,
+    rows,
+    columns,
+    totalHeight: layout.totalHeight,
+    isReady: gridWidth > 0,
+    measureRow,
+    indexesInRect,
+    scrollToIndex,
+  };
+}
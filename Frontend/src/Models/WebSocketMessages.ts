@@ -1,3 +1,77 @@
+import {
+  AiProgress,
+  AudioDevice,
+  Bookmark,
+  BookmarkSubtype,
+  BookmarkType,
+  Codec,
+  Content,
+  DeviceSetting,
+  Display,
+  GameIntegrationSettings,
+  GameListEntry,
+  GameSetting,
+  GpuVendor,
+  Keybind,
+  MenuItemPreference,
+  MigrationStatus,
+  OBSVersion,
+  PreRecording,
+  Recording,
+  RecycleBinItem,
+  SavedSearch,
+  Segment,
+  Settings,
+  State,
+} from './types';
+import {
+  Validator,
+  array,
+  boolean,
+  literal,
+  maybe,
+  merged,
+  nullable,
+  number,
+  object,
+  partial,
+  record,
+  string,
+  unknown,
+  validItems,
+} from '../Utils/MessageValidation';
+
+// ---------------------------------------------------------------------------
+// Protocol version, exchanged in the NewConnection handshake
+// ---------------------------------------------------------------------------
+
+// Bump when a message or command changes shape in a way the other side can't ignore, and keep
+// MessageService.ProtocolVersion in the backend in step. Backends from before the handshake
+// existed count as version 0.
+export const PROTOCOL_VERSION = 2;
+// Oldest backend protocol this frontend still understands.
+export const MIN_BACKEND_PROTOCOL_VERSION = 2;
+
+// Optional backend features. Unlike the protocol version, a missing capability only hides the
+// feature that needs it.
+export type BackendCapability = 'aiHighlights' | 'separateAudioTracks';
+
+// What this frontend understands, sent in NewConnection. The backend logs it for diagnostics.
+export const FRONTEND_CAPABILITIES = ['commandResults', 'binaryPreviewFrames'];
+
+// ---------------------------------------------------------------------------
+// Inbound payloads (backend -> frontend, over the WebSocket)
+// ---------------------------------------------------------------------------
+
+// First reply to NewConnection.
+export interface HandshakeMessage {
+  protocolVersion: number;
+  // Oldest frontend protocol the backend still accepts. Older frontends get no further messages.
+  minFrontendProtocolVersion: number;
+  // Unknown names from a newer backend are kept, and simply never asked about.
+  capabilities: string[];
+}
+
 export interface ModalMessage {
   title: string;
   subtitle?: string;
@@ -11,8 +85,9 @@ export interface StorageWarningMessage {
   description: string;
   confirmText: string;
   cancelText: string;
-  action: 'import';
-  actionData: any;
+  action: 'import' | 'contentFolder';
+  // Passed back unchanged in StorageWarningConfirm.
+  actionData: unknown;
 }
 
 export interface RecoveryFileData {
@@ -36,35 +111,554 @@ export interface ReleaseNote {
   releaseDate: string;
 }
 
-export interface WebSocketMessage<T = any> {
-  method: string;
-  parameters: T;
+export interface ReleaseNotesMessage {
+  releaseNotesList: ReleaseNote[];
+}
+
+export interface AppVersionMessage {
+  version: string;
+  // False on Linux (Flatpak), where the package manager owns updates.
+  canSelfUpdate: boolean;
 }
 
-export function isUpdateProgressMessage(message: WebSocketMessage<any>): boolean {
-  return message.method === 'UpdateProgress';
+export interface UpdateProgress {
+  version: string;
+  progress: number;
+  status: 'downloading' | 'downloaded' | 'ready' | 'error';
+  message: string;
 }
 
-export function isReleaseNotesMessage(message: WebSocketMessage<any>): boolean {
-  return message.method === 'ReleaseNotes';
+export interface ClippingProgress {
+  id: number;
+  progress: number;
+  segments: Segment[];
+  error?: string;
 }
 
-export function isShowReleaseNotesMessage(message: WebSocketMessage<any>): boolean {
-  return message.method === 'ShowReleaseNotes';
+export interface UploadProgress {
+  title: string;
+  fileName: string;
+  thumbnailPath?: string;
+  progress: number;
+  status: 'queued' | 'uploading' | 'processing' | 'done' | 'error';
+  message?: string;
 }
 
-export function isShowModalMessage(message: WebSocketMessage<any>): boolean {
-  return message.method === 'ShowModal';
+export interface ImportProgress {
+  id: string;
+  fileName: string;
+  progress: number;
+  status: 'importing' | 'done' | 'error';
+  totalFiles: number;
+  currentFileIndex: number;
+  message?: string;
 }
 
-export function isSelectedGameExecutableMessage(message: WebSocketMessage<any>): boolean {
-  return message.method === 'SelectedGameExecutable';
+export interface ContentMigrationProgress {
+  id: string;
+  fileName: string;
+  progress: number;
+  status: 'migrating' | 'done' | 'error';
+  totalFiles: number;
+  currentFileIndex: number;
+  message?: string;
 }
 
-export function isStorageWarningMessage(message: WebSocketMessage<any>): boolean {
-  return message.method === 'StorageWarning';
+export interface CompressionProgress {
+  filePath: string;
+  progress: number;
+  status: 'queued' | 'compressing' | 'done' | 'error' | 'skipped';
+  message?: string;
 }
 
-export function isRecoveryPromptMessage(message: WebSocketMessage<any>): boolean {
-  return message.method === 'RecoveryPrompt';
+export interface ClipboardCompressionProgress {
+  filePath: string;
+  progress: number;
+  status: 'compressing' | 'done' | 'error';
+  message?: string;
+}
+
+export interface ObsDownloadProgress {
+  progress: number;
+  status: string;
+}
+
+export interface SelectedGameExecutableMessage {
+  name: string;
+  paths: string[];
+  igdbId?: number;
+  icon?: string;
+  customIcon?: string;
+}
+
+export interface DiscordLoginResultMessage {
+  status: 'success' | 'cancelled' | 'expired';
+  accessToken?: string;
+  refreshToken?: string;
+}
+
+export interface RecordingPreviewStateMessage {
+  enabled: boolean;
+}
+
+// Replies to commands sent with rpc(). The ack arrives as soon as the backend has read the
+// command; the result once the handler has finished.
+export interface CommandAckMessage {
+  requestId: string;
+}
+
+export interface CommandResultMessage {
+  requestId: string;
+  success: boolean;
+  result?: unknown;
+  error?: string;
+}
+
+// The backend persists the signed-in session alongside the settings.
+export interface SettingsMessage extends Settings {
+  auth?: { jwt: string; refreshToken: string };
+}
+
+// State pushes carry everything except the game list and the content library, which have
+// their own messages.
+export type StateMessage = Omit<State, 'gameList' | 'content'>;
+
+// The whole library, sent once per connection and whenever the frontend asks for a resync.
+export interface ContentSnapshotMessage {
+  revision: number;
+  content: Content[];
+}
+
+// Changes since the previous revision. A revision that isn't exactly one more than the last
+// one applied means a delta was missed, and the frontend asks for a new snapshot.
+export interface ContentDeltaMessage {
+  revision: number;
+  added: Content[];
+  updated: Content[];
+  removed: string[];
+}
+
+export type EmptyMessage = Record<string, never>;
+
+// Every method the backend sends, mapped to the shape of its `content`.
+export interface BackendMessageMap {
+  pong: EmptyMessage;
+  Handshake: HandshakeMessage;
+  // Merged into the previous state, so any field may be left out.
+  State: Partial<StateMessage>;
+  ContentSnapshot: ContentSnapshotMessage;
+  ContentDelta: ContentDeltaMessage;
+  Settings: Partial<SettingsMessage>;
+  GameList: GameListEntry[];
+  AppVersion: AppVersionMessage;
+  UpdateProgress: UpdateProgress;
+  ReleaseNotes: ReleaseNotesMessage;
+  ShowReleaseNotes: string;
+  ShowModal: ModalMessage;
+  StorageWarning: StorageWarningMessage;
+  RecoveryPrompt: RecoveryPromptMessage;
+  MigrationStatus: MigrationStatus;
+  ClipProgress: ClippingProgress;
+  AiProgress: AiProgress;
+  UploadProgress: UploadProgress;
+  ImportProgress: ImportProgress;
+  ContentMigrationProgress: ContentMigrationProgress;
+  CompressionProgress: CompressionProgress;
+  ClipboardCompressionProgress: ClipboardCompressionProgress;
+  ObsDownloadProgress: ObsDownloadProgress;
+  SelectedGameExecutable: SelectedGameExecutableMessage;
+  DiscordLoginResult: DiscordLoginResultMessage;
+  BookmarkCreated: EmptyMessage;
+  ReplayBufferSaveStarted: EmptyMessage;
+  ReplayBufferSaved: EmptyMessage;
+  RecordingPreviewState: RecordingPreviewStateMessage;
+  CommandAck: CommandAckMessage;
+  CommandResult: CommandResultMessage;
+}
+
+export type BackendMethod = keyof BackendMessageMap;
+
+export type BackendMessage = {
+  [M in BackendMethod]: { method: M; content: BackendMessageMap[M] };
+}[BackendMethod];
+
+export type BackendMessageOf<M extends BackendMethod> = Extract<BackendMessage, { method: M }>;
+
+// ---------------------------------------------------------------------------
+// Outbound commands (frontend -> backend, over window.external.sendMessage)
+// ---------------------------------------------------------------------------
+
+export interface CreateClipSegment {
+  id: number;
+  contentId: string;
+  startTime: number;
+  endTime: number;
+  mutedAudioTracks?: number[];
+  audioTrackVolumes?: Record<number, number>;
+}
+
+// Every command the backend handles, mapped to its `Parameters`. `void` means no parameters.
+export interface BackendCommandMap {
+  NewConnection: { ProtocolVersion: number; Capabilities: string[] };
+  Login: { accessToken: string; refreshToken: string };
+  Logout: void;
+  LoginWithDiscord: void;
+  CancelDiscordLogin: void;
+  ToggleFullscreen: { enabled: boolean };
+  StartRecording: void;
+  StopRecording: void;
+  CreateClip: { OutputMode: 'combined' | 'separate'; Segments: CreateClipSegment[] };
+  CancelClip: { id: number };
+  CreateAiClip: { Id: string };
+  CompressVideo: { Id: string };
+  DeleteContent: { Id: string };
+  DeleteMultipleContent: { Ids: string[] };
+  RestoreFromRecycleBin: { Ids: string[] };
+  DeleteFromRecycleBin: { Ids: string[] };
+  RenameContent: { Id: string; Title: string };
+  SetFavorite: { Ids: string[]; Favorite: boolean };
+  SetContentGame: { Ids: string[]; Game: string; IgdbId?: number };
+  SetContentTags: { Ids: string[]; Add?: string[]; Remove?: string[] };
+  RenameTag: { From: string; To: string };
+  DeleteTag: { Tag: string };
+  AddBookmark: {
+    ContentId: string;
+    Type: BookmarkType;
+    Subtype?: BookmarkSubtype;
+    Time: string;
+    Id: number;
+  };
+  DeleteBookmark: { ContentId: string; Id: number };
+  UploadContent: {
+    Id: string;
+    Title: string;
+    Description: string;
+    Visibility: 'Public' | 'Unlisted';
+  };
+  CancelUpload: { fileName: string };
+  ImportFile: { sectionId: string };
+  MigrateContent: void;
+  OpenFileLocation: { FilePath: string };
+  CopyFileToClipboard: { FilePath: string };
+  CopyCompressedFileToClipboard: { FilePath: string; MaxSizeMb: number };
+  OpenInBrowser: { Url: string };
+  OpenLogsLocation: void;
+  SelectGameExecutable: void;
+  SetVideoLocation: void;
+  SetCacheLocation: void;
+  RefreshStorageStats: void;
+  ResyncContent: void;
+  UpdateSettings: Settings;
+  ApplyVideoPreset: { preset: string };
+  ApplyClipPreset: { preset: string };
+  ApplyUpdate: void;
+  CheckForUpdates: void;
+  StorageWarningConfirm: {
+    warningId: string;
+    confirmed: boolean;
+    action: StorageWarningMessage['action'];
+    actionData: unknown;
+  };
+  RecoveryConfirm: {
+    recoveryId: string;
+    action: 'recover' | 'delete' | 'skip';
+    gameOverride?: string;
+  };
+}
+
+export type BackendCommand = keyof BackendCommandMap;
+
+export type BackendCommandArgs<M extends BackendCommand> = BackendCommandMap[M] extends void
+  ? []
+  : [parameters: BackendCommandMap[M]];
+
+// What rpc() resolves with for commands whose handler reports a value. Every other command
+// resolves with undefined once the backend has dispatched it.
+export interface BackendResultMap {
+  RenameContent: Content;
+  AddBookmark: Bookmark;
+  DeleteMultipleContent: { deletedIds: string[]; failedIds: string[] };
+  RestoreFromRecycleBin: { restoredIds: string[]; failedIds: string[] };
+  DeleteFromRecycleBin: { failedIds: string[] };
+}
+
+export type BackendResult<M extends BackendCommand> = M extends keyof BackendResultMap
+  ? BackendResultMap[M]
+  : void;
+
+// ---------------------------------------------------------------------------
+// Runtime validation
+// ---------------------------------------------------------------------------
+
+const empty: Validator<EmptyMessage> = object<EmptyMessage>({});
+
+const bookmark = object<Bookmark>({
+  id: number,
+  type: literal(...Object.values(BookmarkType)),
+  subtype: maybe(literal(...Object.values(BookmarkSubtype))),
+  time: string,
+});
+
+const content = object<Content>({
+  id: string,
+  type: literal('Session', 'Buffer', 'Clip', 'Highlight'),
+  title: string,
+  game: string,
+  bookmarks: array(bookmark),
+  fileName: string,
+  filePath: string,
+  fileSize: string,
+  fileSizeKb: number,
+  duration: string,
+  createdAt: string,
+  uploadId: maybe(string),
+  igdbId: maybe(number),
+  gameExePath: maybe(string),
+  isImported: boolean,
+  compressed: boolean,
+  isFavorite: boolean,
+  tags: array(string),
+  audioTrackNames: maybe(array(string)),
+  audioTrackTypes: maybe(array(literal('mix', 'input', 'output'))),
+});
+
+const gameListEntry = object<GameListEntry>({
+  name: string,
+  executables: array(string),
+  icon: maybe(string),
+  igdbId: maybe(number),
+});
+
+const segment = partial<Segment>({
+  id: number,
+  contentId: string,
+  startTime: number,
+  endTime: number,
+});
+
+const releaseNote = object<ReleaseNote>({
+  version: string,
+  base64Markdown: string,
+  releaseDate: string,
+});
+
+const audioDevice = partial<AudioDevice>({ id: string, name: string });
+const deviceSetting = object<DeviceSetting>({ id: string, name: string, volume: number });
+
+// State and Settings are merged into the previous value, so only the fields the UI reads
+// structurally are checked; a field the backend stops sending keeps its last value.
+const state = merged<StateMessage>({
+  gpuVendor: literal(...Object.values(GpuVendor)),
+  preRecording: maybe(partial<PreRecording>({ game: string, status: string })),
+  recording: maybe(partial<Recording>({ game: string, isUsingGameHook: boolean })),
+  hasLoadedObs: boolean,
+  inputDevices: array(audioDevice),
+  outputDevices: array(audioDevice),
+  displays: array(partial<Display>({ deviceId: string, deviceName: string })),
+  codecs: array(partial<Codec>({ friendlyName: string, internalEncoderId: string })),
+  availableOBSVersions: array(partial<OBSVersion>({ version: string })),
+  isCheckingForUpdates: boolean,
+  maxDisplayHeight: number,
+  currentFolderSizeGb: number,
+  recordingDriveUsedGb: nullable(number),
+  recordingDriveFreeGb: nullable(number),
+  cacheFolder: string,
+  recycleBin: array(
+    object<RecycleBinItem>({
+      content,
+      deletedAt: string,
+      filePath: string,
+      thumbnailPath: nullable(string),
+    }),
+  ),
+  recycleBinSizeGb: number,
+});
+
+const settings = merged<SettingsMessage>({
+  contentFolder: string,
+  cacheFolder: string,
+  frameRate: number,
+  storageLimit: number,
+  inputDevices: array(deviceSetting),
+  outputDevices: array(deviceSetting),
+  enableAi: boolean,
+  airplaneMode: boolean,
+  recordingMode: literal('Session', 'Buffer', 'Hybrid'),
+  keybindings: array(partial<Keybind>({ keys: array(number), enabled: boolean })),
+  games: array(partial<GameSetting>({ name: string, paths: array(string), record: boolean })),
+  gameIntegrations: record(object<GameIntegrationSettings>({ enabled: boolean })) as Validator<
+    Settings['gameIntegrations']
+  >,
+  menuItems: array(partial<MenuItemPreference>({ visible: boolean })),
+  savedSearches: array(
+    partial<SavedSearch>({
+      id: string,
+      name: string,
+      contentType: literal('Session', 'Buffer', 'Clip', 'Highlight'),
+      query: string,
+      games: array(string),
+      facets: record(array(string)),
+      sort: literal('newest', 'oldest', 'size', 'duration', 'game'),
+      visible: boolean,
+    }),
+  ),
+  copyCompressSizesMb: array(number),
+  auth: maybe(object<NonNullable<SettingsMessage['auth']>>({ jwt: string, refreshToken: string })),
+});
+
+const progressMessage = <T extends string>(...statuses: T[]) => ({
+  progress: number,
+  status: literal(...statuses),
+  message: maybe(string),
+});
+
+const backendMessageSchemas: { [M in BackendMethod]: Validator<BackendMessageMap[M]> } = {
+  pong: empty,
+  Handshake: object<HandshakeMessage>({
+    protocolVersion: number,
+    minFrontendProtocolVersion: number,
+    capabilities: array(string),
+  }),
+  State: state,
+  // One unreadable metadata file shouldn't blank the library, so bad items are dropped.
+  ContentSnapshot: object<ContentSnapshotMessage>({
+    revision: number,
+    content: validItems(content),
+  }),
+  ContentDelta: object<ContentDeltaMessage>({
+    revision: number,
+    added: validItems(content),
+    updated: validItems(content),
+    removed: array(string),
+  }),
+  Settings: settings,
+  GameList: array(gameListEntry),
+  AppVersion: partial<AppVersionMessage>({ version: string, canSelfUpdate: boolean }),
+  UpdateProgress: object<UpdateProgress>({
+    version: string,
+    progress: number,
+    status: literal('downloading', 'downloaded', 'ready', 'error'),
+    message: string,
+  }),
+  ReleaseNotes: object<ReleaseNotesMessage>({ releaseNotesList: array(releaseNote) }),
+  ShowReleaseNotes: string,
+  ShowModal: object<ModalMessage>({
+    title: string,
+    subtitle: maybe(string),
+    description: string,
+    type: literal('info', 'warning', 'error'),
+  }),
+  StorageWarning: object<StorageWarningMessage>({
+    warningId: string,
+    title: string,
+    description: string,
+    confirmText: string,
+    cancelText: string,
+    action: literal('import', 'contentFolder'),
+    actionData: unknown,
+  }),
+  RecoveryPrompt: object<RecoveryPromptMessage>({
+    files: array(
+      object<RecoveryFileData>({
+        recoveryId: string,
+        fileName: string,
+        filePath: string,
+        type: string,
+        typeLabel: string,
+        fileSize: string,
+        detectedGame: maybe(string),
+      }),
+    ),
+    totalCount: number,
+  }),
+  MigrationStatus: object<MigrationStatus>({
+    isRunning: boolean,
+    currentMigration: nullable(string),
+  }),
+  ClipProgress: object<ClippingProgress>({
+    id: number,
+    progress: number,
+    segments: array(segment),
+    error: maybe(string),
+  }),
+  AiProgress: object<AiProgress>({
+    id: string,
+    progress: number,
+    status: literal('processing', 'done', 'error'),
+    message: string,
+    content,
+  }),
+  UploadProgress: object<UploadProgress>({
+    title: string,
+    fileName: string,
+    thumbnailPath: maybe(string),
+    ...progressMessage('queued', 'uploading', 'processing', 'done', 'error'),
+  }),
+  ImportProgress: object<ImportProgress>({
+    id: string,
+    fileName: string,
+    totalFiles: number,
+    currentFileIndex: number,
+    ...progressMessage('importing', 'done', 'error'),
+  }),
+  ContentMigrationProgress: object<ContentMigrationProgress>({
+    id: string,
+    fileName: string,
+    totalFiles: number,
+    currentFileIndex: number,
+    ...progressMessage('migrating', 'done', 'error'),
+  }),
+  CompressionProgress: object<CompressionProgress>({
+    filePath: string,
+    ...progressMessage('queued', 'compressing', 'done', 'error', 'skipped'),
+  }),
+  ClipboardCompressionProgress: object<ClipboardCompressionProgress>({
+    filePath: string,
+    ...progressMessage('compressing', 'done', 'error'),
+  }),
+  ObsDownloadProgress: object<ObsDownloadProgress>({ progress: number, status: string }),
+  SelectedGameExecutable: object<SelectedGameExecutableMessage>({
+    name: string,
+    paths: array(string),
+    igdbId: maybe(number),
+    icon: maybe(string),
+    customIcon: maybe(string),
+  }),
+  DiscordLoginResult: object<DiscordLoginResultMessage>({
+    status: literal('success', 'cancelled', 'expired'),
+    accessToken: maybe(string),
+    refreshToken: maybe(string),
+  }),
+  BookmarkCreated: empty,
+  ReplayBufferSaveStarted: empty,
+  ReplayBufferSaved: empty,
+  RecordingPreviewState: object<RecordingPreviewStateMessage>({ enabled: boolean }),
+  CommandAck: object<CommandAckMessage>({ requestId: string }),
+  CommandResult: object<CommandResultMessage>({
+    requestId: string,
+    success: boolean,
+    result: unknown,
+    error: maybe(string),
+  }),
+};
+
+const isBackendMethod = (method: unknown): method is BackendMethod =>
+  typeof method === 'string' && Object.prototype.hasOwnProperty.call(backendMessageSchemas, method);
+
+export type ParseResult = { ok: true; message: BackendMessage } | { ok: false; error: string };
+
+// Validates a decoded WebSocket payload against the schema for its method.
+export function parseBackendMessage(data: unknown): ParseResult {
+  if (typeof data !== 'object' || data === null) {
+    return { ok: false, error: 'message is not an object' };
+  }
+  const { method, content: payload } = data as { method?: unknown; content?: unknown };
+  if (!isBackendMethod(method)) {
+    return { ok: false, error: `unknown method ${JSON.stringify(method)}` };
+  }
+  const error = (backendMessageSchemas[method] as Validator<unknown>)(payload, method);
+  if (error) {
+    return { ok: false, error };
+  }
+  return { ok: true, message: data as BackendMessage };
 }
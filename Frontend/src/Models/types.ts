@@ -27,10 +27,21 @@ export interface Content {
   gameExePath?: string;
   isImported: boolean;
   compressed: boolean;
+  isFavorite: boolean;
+  tags: string[];
   audioTrackNames?: string[];
   audioTrackTypes?: AudioTrackType[];
 }
 
+// A deleted video waiting in the recycle bin. Its content keeps the path it's restored to;
+// filePath is where the video is in the meantime.
+export interface RecycleBinItem {
+  content: Content;
+  deletedAt: string;
+  filePath: string;
+  thumbnailPath: string | null;
+}
+
 export interface OBSVersion {
   version: string;
   isBeta: boolean;
@@ -55,6 +66,9 @@ export interface State {
   recordingDriveUsedGb: number | null;
   recordingDriveFreeGb: number | null;
   cacheFolder: string;
+  // Newest first. Kept in the content folder but not counted in currentFolderSizeGb.
+  recycleBin: RecycleBinItem[];
+  recycleBinSizeGb: number;
 }
 
 export enum GpuVendor {
@@ -241,7 +255,8 @@ export type ClipPreset =
 export type VideoQualityPreset = 'low' | 'standard' | 'high' | 'custom';
 export type ClipQualityPreset = 'low' | 'standard' | 'high' | 'custom';
 
-export type MenuItemId = 'Full Sessions' | 'Replay Buffer' | 'Clips' | 'Highlights' | 'Settings';
+export type MenuItemId =
+  'Full Sessions' | 'Replay Buffer' | 'Clips' | 'Highlights' | 'Stats' | 'Recycle Bin' | 'Settings';
 
 export interface MenuItemPreference {
   id: MenuItemId;
@@ -253,6 +268,8 @@ export const DEFAULT_MENU_ITEMS: MenuItemPreference[] = [
   { id: 'Replay Buffer', visible: true },
   { id: 'Clips', visible: true },
   { id: 'Highlights', visible: true },
+  { id: 'Stats', visible: true },
+  { id: 'Recycle Bin', visible: true },
   { id: 'Settings', visible: true },
 ];
 
@@ -261,6 +278,8 @@ const MENU_ITEM_CONTENT_TYPES: Record<MenuItemId, ContentType[]> = {
   'Replay Buffer': ['Buffer'],
   Clips: ['Clip'],
   Highlights: ['Highlight'],
+  Stats: [],
+  'Recycle Bin': [],
   Settings: [],
 };
 
@@ -270,6 +289,35 @@ export const menuItemHasContent = (id: MenuItemId, content: Content[]): boolean
   return content.some((c) => types.includes(c.type));
 };
 
+export type SortOption = 'newest' | 'oldest' | 'size' | 'duration' | 'game';
+
+// A named search-and-filter view shown in the sidebar below the fixed menu items. It holds what
+// a content page's search box, Filter menu and sort would, and its list updates with the library.
+export interface SavedSearch {
+  id: string;
+  name: string;
+  contentType: ContentType;
+  query: string;
+  games: string[];
+  // A FacetSelection; read through sanitizeFacetSelection, since saved facets can outlive options.
+  facets: Record<string, string[]>;
+  sort: SortOption;
+  visible: boolean;
+}
+
+// Sidebar ids for saved searches, alongside the fixed MenuItemIds.
+const SAVED_SEARCH_MENU_PREFIX = 'savedSearch:';
+
+export const savedSearchMenuId = (id: string) => `${SAVED_SEARCH_MENU_PREFIX}${id}`;
+
+export const findSavedSearchByMenuId = (
+  menuId: string,
+  savedSearches: SavedSearch[],
+): SavedSearch | undefined =>
+  menuId.startsWith(SAVED_SEARCH_MENU_PREFIX)
+    ? savedSearches.find((search) => savedSearchMenuId(search.id) === menuId)
+    : undefined;
+
 export interface Settings {
   resolution: '720p' | '1080p' | '1440p' | '4K';
   frameRate: number;
@@ -328,10 +376,12 @@ export interface Settings {
   videoQualityPreset: VideoQualityPreset;
   clipQualityPreset: ClipQualityPreset;
   confirmBeforeDeleting: boolean;
+  recycleBinRetentionDays: number;
   removeOriginalAfterCompression: boolean;
   discardSessionsWithoutBookmarks: boolean;
   menuItems: MenuItemPreference[];
   defaultMenuItem: MenuItemId;
+  savedSearches: SavedSearch[];
 }
 
 export const initialState: State = {
@@ -351,6 +401,8 @@ export const initialState: State = {
   recordingDriveUsedGb: null,
   recordingDriveFreeGb: null,
   cacheFolder: '',
+  recycleBin: [],
+  recycleBinSizeGb: 0,
 };
 
 export const initialSettings: Settings = {
@@ -408,10 +460,12 @@ export const initialSettings: Settings = {
   videoQualityPreset: 'high',
   clipQualityPreset: 'standard',
   confirmBeforeDeleting: false,
+  recycleBinRetentionDays: 30,
   removeOriginalAfterCompression: false,
   discardSessionsWithoutBookmarks: false,
   menuItems: DEFAULT_MENU_ITEMS,
   defaultMenuItem: 'Full Sessions',
+  savedSearches: [],
   keybindings: [
     { keys: [119], action: KeybindAction.CreateBookmark, enabled: true }, // 119 is F8
     { keys: [120], action: KeybindAction.ToggleRecording, enabled: true }, // 120 is F9
@@ -467,7 +521,8 @@ export interface SegmentCardProps {
 export interface AiProgress {
   id: string;
   progress: number;
-  status: 'processing' | 'done';
+  // 'error' comes with a progress of -1.
+  status: 'processing' | 'done' | 'error';
   message: string;
   content: Content;
 }
@@ -0,0 +1,270 @@
+import { useState } from 'react';
+import { Film, RotateCcw, Trash2 } from 'lucide-react';
+import { useAppState } from '../Context/AppStateContext';
+import { useSettings } from '../Context/SettingsContext';
+import { useModal } from '../Context/ModalContext';
+import { useWebSocketContext } from '../Context/WebSocketContext';
+import { useCommandFailure } from '../Hooks/useCommandFailure';
+import { ContentType, RecycleBinItem } from '../Models/types';
+import { rpc } from '../Utils/MessageUtils';
+import Button from '../Components/Button';
+import BackendActionTooltip from '../Components/BackendActionTooltip';
+import ConfirmationModal from '../Components/ConfirmationModal';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const TYPE_LABELS: Record<ContentType, string> = {
+  Session: 'Full session',
+  Buffer: 'Replay buffer',
+  Clip: 'Clip',
+  Highlight: 'Highlight',
+};
+
+const countLabel = (count: number) => `${count} ${count === 1 ? 'item' : 'items'}`;
+
+// Rounded up, so an item reads "1 day" until the backend's hourly check purges it.
+const daysUntilPurge = (item: RecycleBinItem, retentionDays: number, now: number) =>
+  Math.max(
+    0,
+    Math.ceil((new Date(item.deletedAt).getTime() + retentionDays * DAY_MS - now) / DAY_MS),
+  );
+
+// Deleted videos, kept until they're restored, deleted for good, or their retention runs out.
+export default function RecycleBin() {
+  const { recycleBin, recycleBinSizeGb } = useAppState();
+  const { recycleBinRetentionDays } = useSettings();
+  const { openModal, closeModal } = useModal();
+  const { unavailableReason } = useWebSocketContext();
+  const showCommandFailure = useCommandFailure();
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [now] = useState(Date.now);
+
+  // Items can leave the bin from elsewhere, e.g. when they're purged, so only count those still in it.
+  const selected = recycleBin.map((item) => item.content.id).filter((id) => selectedIds.has(id));
+  const allSelected = recycleBin.length > 0 && selected.length === recycleBin.length;
+
+  const toggleSelected = (id: string) =>
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (!next.delete(id)) next.add(id);
+      return next;
+    });
+
+  const deselect = (ids: string[]) =>
+    setSelectedIds((prev) => new Set([...prev].filter((id) => !ids.includes(id))));
+
+  const handleRestore = (ids: string[]) => {
+    rpc('RestoreFromRecycleBin', { Ids: ids }, { timeoutMs: 120000 })
+      .then(({ failedIds }) => {
+        if (failedIds.length > 0) {
+          showCommandFailure(
+            `Couldn't restore ${failedIds.length} of ${ids.length} items`,
+            'They may be open in another program.',
+          );
+        }
+      })
+      .catch((error) =>
+        showCommandFailure(
+          `Couldn't restore ${ids.length === 1 ? 'the item' : 'the items'}`,
+          error,
+        ),
+      );
+    deselect(ids);
+  };
+
+  // Nothing brings these back, so this asks even when confirmBeforeDeleting is off.
+  const handleDelete = (ids: string[], title: string) => {
+    openModal(
+      <ConfirmationModal
+        title={title}
+        description={`${countLabel(ids.length)} will be deleted for good.\n\nThis action cannot be undone.`}
+        confirmText="Delete for good"
+        onConfirm={() => {
+          closeModal();
+          rpc('DeleteFromRecycleBin', { Ids: ids }, { timeoutMs: 120000 })
+            .then(({ failedIds }) => {
+              if (failedIds.length > 0) {
+                showCommandFailure(
+                  `Couldn't delete ${failedIds.length} of ${ids.length} items`,
+                  'They may be open in another program.',
+                );
+              }
+            })
+            .catch((error) =>
+              showCommandFailure(
+                `Couldn't delete ${ids.length === 1 ? 'the item' : 'the items'}`,
+                error,
+              ),
+            );
+          deselect(ids);
+        }}
+        onCancel={closeModal}
+      />,
+      { size: 'md' },
+    );
+  };
+
+  const backendDisabled = !!unavailableReason;
+
+  return (
+    <div className="p-5 space-y-6 overflow-y-scroll h-full bg-base-200">
+      <div className="flex justify-between items-center mb-4 gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Recycle Bin</h1>
+          <p className="text-sm text-gray-400 mt-1">
+            Deleted videos are kept for {recycleBinRetentionDays}{' '}
+            {recycleBinRetentionDays === 1 ? 'day' : 'days'}. They count toward the storage limit,
+            and are the first to go when it&apos;s reached.
+          </p>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          {selected.length > 0 && (
+            <>
+              <BackendActionTooltip>
+                <Button
+                  variant="primary"
+                  size="sm"
+                  className="no-animation h-8 gap-1"
+                  disabled={backendDisabled}
+                  onClick={() => handleRestore(selected)}
+                >
+                  <RotateCcw size={16} />
+                  Restore {selected.length}
+                </Button>
+              </BackendActionTooltip>
+              <BackendActionTooltip>
+                <Button
+                  variant="danger"
+                  size="sm"
+                  className="no-animation h-8 gap-1"
+                  disabled={backendDisabled}
+                  onClick={() =>
+                    handleDelete(selected, `Delete ${countLabel(selected.length)} for good?`)
+                  }
+                >
+                  <Trash2 size={16} />
+                  Delete {selected.length}
+                </Button>
+              </BackendActionTooltip>
+            </>
+          )}
+          <BackendActionTooltip>
+            <Button
+              variant="danger"
+              size="sm"
+              className="no-animation h-8 gap-1"
+              disabled={recycleBin.length === 0 || backendDisabled}
+              onClick={() =>
+                handleDelete(
+                  recycleBin.map((item) => item.content.id),
+                  'Empty the recycle bin?',
+                )
+              }
+            >
+              <Trash2 size={16} />
+              Empty bin
+            </Button>
+          </BackendActionTooltip>
+        </div>
+      </div>
+
+      {recycleBin.length === 0 ? (
+        <div className="flex flex-col items-center justify-center h-64 text-gray-500">
+          <Trash2 size={60} className="mb-4" />
+          <p className="text-xl">The recycle bin is empty</p>
+        </div>
+      ) : (
+        <div className="rounded-lg border border-base-400 bg-base-300 divide-y divide-base-400">
+          <label className="flex items-center gap-4 px-4 py-2 cursor-pointer text-sm text-gray-400">
+            <input
+              type="checkbox"
+              className="checkbox checkbox-sm checkbox-primary"
+              checked={allSelected}
+              onChange={() =>
+                setSelectedIds(
+                  allSelected ? new Set() : new Set(recycleBin.map((item) => item.content.id)),
+                )
+              }
+            />
+            <span className="tabular-nums">
+              {countLabel(recycleBin.length)} &bull; {recycleBinSizeGb.toFixed(2)} GB
+            </span>
+          </label>
+          {recycleBin.map((item) => {
+            const { content } = item;
+            const daysLeft = daysUntilPurge(item, recycleBinRetentionDays, now);
+            return (
+              <label
+                key={content.id}
+                className="flex items-center gap-4 px-4 py-3 cursor-pointer hover:bg-white/5"
+              >
+                <input
+                  type="checkbox"
+                  className="checkbox checkbox-sm checkbox-primary"
+                  checked={selectedIds.has(content.id)}
+                  onChange={() => toggleSelected(content.id)}
+                />
+                <div className="w-32 aspect-video shrink-0 rounded overflow-hidden bg-base-200 flex items-center justify-center">
+                  {item.thumbnailPath ? (
+                    <img
+                      src={`http://localhost:2222/api/thumbnail?input=${encodeURIComponent(item.thumbnailPath)}`}
+                      alt=""
+                      className="w-full h-full object-cover"
+                      loading="lazy"
+                    />
+                  ) : (
+                    <Film size={24} className="text-gray-500" />
+                  )}
+                </div>
+                <div className="min-w-0 flex-1">
+                  <p className="font-medium truncate">
+                    {content.title || content.game || content.fileName}
+                  </p>
+                  <p className="text-sm text-gray-400 truncate">
+                    {[TYPE_LABELS[content.type], content.game, content.fileSize].join(' • ')}
+                  </p>
+                </div>
+                <div className="text-right text-sm shrink-0">
+                  <p className="text-gray-300">
+                    Deleted {new Date(item.deletedAt).toLocaleDateString()}
+                  </p>
+                  <p className={daysLeft <= 1 ? 'text-warning' : 'text-gray-400'}>
+                    {daysLeft === 0
+                      ? 'Deleted for good soon'
+                      : `Deleted for good in ${daysLeft} ${daysLeft === 1 ? 'day' : 'days'}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <BackendActionTooltip>
+                    <Button
+                      variant="primary"
+                      size="sm"
+                      className="no-animation h-8 gap-1"
+                      disabled={backendDisabled}
+                      onClick={() => handleRestore([content.id])}
+                    >
+                      <RotateCcw size={16} />
+                      Restore
+                    </Button>
+                  </BackendActionTooltip>
+                  <BackendActionTooltip>
+                    <Button
+                      variant="danger"
+                      size="sm"
+                      className="no-animation h-8"
+                      title="Delete for good"
+                      disabled={backendDisabled}
+                      onClick={() => handleDelete([content.id], 'Delete for good?')}
+                    >
+                      <Trash2 size={16} />
+                    </Button>
+                  </BackendActionTooltip>
+                </div>
+              </label>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import { useState, useEffect, useMemo } from 'react';
 import { useSettings, useSettingsUpdater } from '../Context/SettingsContext';
 import { useUpdate } from '../Context/UpdateContext';
+import { useWebSocketContext } from '../Context/WebSocketContext';
 import AccountSection from '../Components/Settings/AccountSection';
 import CaptureModeSection from '../Components/Settings/CaptureModeSection';
 import VideoSettingsSection from '../Components/Settings/VideoSettingsSection';
@@ -13,6 +14,7 @@ import GameIntegrationsSection from '../Components/Settings/GameIntegrationsSect
 import HighlightsSection from '../Components/Settings/HighlightsSection';
 import PreferencesSection from '../Components/Settings/PreferencesSection';
 import MenuCustomizationSection from '../Components/Settings/MenuCustomizationSection';
+import TagsSection from '../Components/Settings/TagsSection';
 import AdvancedSection from '../Components/Settings/AdvancedSection';
 
 type SectionId =
@@ -42,6 +44,7 @@ export default function Settings() {
   const { openReleaseNotesModal, checkForUpdates, canSelfUpdate } = useUpdate();
   const settings = useSettings();
   const updateSettings = useSettingsUpdater();
+  const { supports } = useWebSocketContext();
   // Airplane mode removes the Account section entirely (no login/cloud UI).
   const navItems = useMemo(
     () =>
@@ -151,7 +154,9 @@ export default function Settings() {
         {/* CLIPS */}
         <SectionHeader id="clips">Clips</SectionHeader>
         <ClipSettingsSection settings={settings} updateSettings={updateSettings} />
-        <HighlightsSection settings={settings} updateSettings={updateSettings} />
+        {supports('aiHighlights') && (
+          <HighlightsSection settings={settings} updateSettings={updateSettings} />
+        )}
 
         {/* STORAGE */}
         <SectionHeader id="storage">Storage</SectionHeader>
@@ -166,6 +171,7 @@ export default function Settings() {
         <SectionHeader id="preferences">Preferences</SectionHeader>
         <PreferencesSection settings={settings} updateSettings={updateSettings} />
         <MenuCustomizationSection settings={settings} updateSettings={updateSettings} />
+        <TagsSection />
 
         {/* ADVANCED */}
         <SectionHeader id="advanced">Advanced</SectionHeader>
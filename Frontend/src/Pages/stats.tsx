@@ -0,0 +1,353 @@
+import { ReactNode, useMemo, useState } from 'react';
+import { ChartColumn as ChartIcon } from 'lucide-react';
+import { useAppState } from '../Context/AppStateContext';
+import { useSelectedVideo } from '../Context/SelectedVideoContext';
+import { dayKey, formatPlaytime, parseDayKey } from '../Utils/ContentCalendar';
+import {
+  BucketSize,
+  CombatStats,
+  DateRange,
+  MAX_WEEKLY_SESSION_RANGE_DAYS,
+  bucketSizeFor,
+  clipsByGame,
+  combatStats,
+  filterByDateRange,
+  hasCombat,
+  headshotRate,
+  kdRatio,
+  kdaRatio,
+  playedItems,
+  playtimeOverTime,
+  sessionsOverTime,
+  statsByGame,
+} from '../Utils/ContentStats';
+import { BarList, ChartLegend, ColumnChart } from '../Components/StatsCharts';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const RANGE_PRESETS: { label: string; days: number | null }[] = [
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+  { label: 'Year', days: 365 },
+  { label: 'All time', days: null },
+];
+
+// The most played games get their own color in the playtime chart; the rest share one.
+const GAME_COLORS = ['#3987e5', '#199e70', '#d95926', '#c98500', '#8b6fd6'];
+const OTHER_COLOR = '#49515b';
+const OTHER_KEY = '\0other';
+
+// Matches clips in the storage meter.
+const CLIP_COLOR = '#199e70';
+const SESSION_COLOR = '#3987e5';
+
+// Sessions listed before "Show all".
+const SESSION_ROWS = 10;
+const CLIPPED_GAME_ROWS = 10;
+
+const presetRange = (days: number | null, now: number): DateRange => ({
+  from: days === null ? null : dayKey(new Date(now - (days - 1) * DAY_MS)),
+  to: null,
+});
+
+const formatRatio = (value: number) => value.toFixed(2);
+
+const formatRate = (rate: number | null) => (rate === null ? '–' : `${Math.round(rate * 100)}%`);
+
+function StatTile({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="rounded-lg border border-base-400 bg-base-300 px-4 py-3">
+      <p className="text-xs uppercase tracking-wide text-gray-400">{label}</p>
+      <p className="text-2xl font-semibold tabular-nums mt-1">{value}</p>
+    </div>
+  );
+}
+
+function StatsCard({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <section className="rounded-lg border border-base-400 bg-base-300 p-4">
+      <h2 className="font-semibold mb-3">{title}</h2>
+      {children}
+    </section>
+  );
+}
+
+function CombatCells({ combat }: { combat: CombatStats }) {
+  return (
+    <>
+      <td className="text-right">{combat.kills}</td>
+      <td className="text-right">{combat.deaths}</td>
+      <td className="text-right">{combat.assists}</td>
+      <td className="text-right">{formatRatio(kdRatio(combat))}</td>
+      <td className="text-right">{formatRatio(kdaRatio(combat))}</td>
+      <td className="text-right">{formatRate(headshotRate(combat))}</td>
+    </>
+  );
+}
+
+const COMBAT_HEADERS = ['Kills', 'Deaths', 'Assists', 'K/D', 'KDA', 'Headshot %'];
+
+// Playtime, sessions and combat stats from the library's recordings and their bookmarks.
+export default function Stats() {
+  const { content } = useAppState();
+  const { setSelectedVideo } = useSelectedVideo();
+  const [now] = useState(Date.now);
+  const [range, setRange] = useState<DateRange>(() => presetRange(90, now));
+  const [showAllSessions, setShowAllSessions] = useState(false);
+
+  const stats = useMemo(() => {
+    const items = filterByDateRange(content, range);
+    const played = playedItems(items);
+    // An open start begins at the first recording in range.
+    const start = range.from
+      ? parseDayKey(range.from)
+      : new Date(
+          items.reduce((min, item) => Math.min(min, new Date(item.createdAt).getTime()), now),
+        );
+    const end = range.to ? parseDayKey(range.to) : new Date(now);
+    const bucketSize = bucketSizeFor(start, end);
+    const sessionBucketSize = bucketSizeFor(start, end, MAX_WEEKLY_SESSION_RANGE_DAYS);
+    const games = statsByGame(played);
+    const sessions = played
+      .map((item) => ({ item, combat: combatStats([item]) }))
+      .filter(({ combat }) => hasCombat(combat))
+      .sort((a, b) => new Date(b.item.createdAt).getTime() - new Date(a.item.createdAt).getTime());
+
+    return {
+      items,
+      games,
+      sessions,
+      bucketSize,
+      playtime: playtimeOverTime(played, start, end, bucketSize),
+      sessionBucketSize,
+      sessionCounts: sessionsOverTime(items, start, end, sessionBucketSize),
+      clips: clipsByGame(items),
+      combat: combatStats(played),
+      playtimeSeconds: games.reduce((sum, game) => sum + game.playtimeSeconds, 0),
+    };
+  }, [content, range, now]);
+
+  const colorGames = stats.games
+    .slice(0, GAME_COLORS.length)
+    .map(({ game }, index) => ({ key: game, label: game, color: GAME_COLORS[index] }));
+  const otherGames = { key: OTHER_KEY, label: 'Other games', color: OTHER_COLOR };
+  const legend = stats.games.length > colorGames.length ? [...colorGames, otherGames] : colorGames;
+
+  const bucketLabel = (start: Date, size: BucketSize) =>
+    size === 'week'
+      ? start.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })
+      : start.toLocaleDateString(undefined, { month: 'short', year: '2-digit' });
+
+  const playtimeColumns = stats.playtime.map((bucket) => {
+    const segments = colorGames.map((game) => ({
+      ...game,
+      value: bucket.secondsByGame[game.key] ?? 0,
+    }));
+    const otherSeconds = segments.reduce((rest, { value }) => rest - value, bucket.totalSeconds);
+    return {
+      key: bucket.key,
+      label: bucketLabel(bucket.start, stats.bucketSize),
+      segments: [...segments, { ...otherGames, value: otherSeconds }],
+    };
+  });
+
+  const sessionColumns = stats.sessionCounts.map((bucket) => ({
+    key: bucket.key,
+    label: bucketLabel(bucket.start, stats.sessionBucketSize),
+    segments: [{ key: 'sessions', label: 'Sessions', color: SESSION_COLOR, value: bucket.count }],
+  }));
+
+  const combatGames = stats.games.filter((game) => hasCombat(game.combat));
+  const visibleSessions = showAllSessions ? stats.sessions : stats.sessions.slice(0, SESSION_ROWS);
+  const sessionCount = stats.items.filter((item) => item.type === 'Session').length;
+  const clipCount = stats.clips.reduce((sum, game) => sum + game.count, 0);
+
+  const isPreset = (days: number | null) => {
+    const preset = presetRange(days, now);
+    return range.from === preset.from && range.to === preset.to;
+  };
+
+  return (
+    <div className="p-5 space-y-6 overflow-y-scroll h-full bg-base-200">
+      <div className="flex flex-wrap justify-between items-center gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Stats</h1>
+          <p className="text-sm text-gray-400 mt-1">
+            Playtime counts full sessions, or a game's replay buffers on days it has no session.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="join">
+            {RANGE_PRESETS.map(({ label, days }) => (
+              <button
+                key={label}
+                type="button"
+                onClick={() => setRange(presetRange(days, now))}
+                aria-pressed={isPreset(days)}
+                className={`btn btn-sm btn-secondary join-item no-animation border border-base-400 hover:border-base-400 ${isPreset(days) ? 'text-primary' : 'text-gray-300 hover:text-primary'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-2 text-sm text-gray-400">
+            <input
+              type="date"
+              aria-label="From"
+              className="input input-sm input-bordered bg-base-300"
+              value={range.from ?? ''}
+              max={range.to ?? undefined}
+              onChange={(e) => setRange((prev) => ({ ...prev, from: e.target.value || null }))}
+            />
+            <span>to</span>
+            <input
+              type="date"
+              aria-label="To"
+              className="input input-sm input-bordered bg-base-300"
+              value={range.to ?? ''}
+              min={range.from ?? undefined}
+              onChange={(e) => setRange((prev) => ({ ...prev, to: e.target.value || null }))}
+            />
+          </div>
+        </div>
+      </div>
+
+      {stats.items.length === 0 ? (
+        <div className="flex flex-col items-center justify-center h-64 text-gray-500">
+          <ChartIcon size={60} className="mb-4" />
+          <p className="text-xl">Nothing was recorded in this range</p>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 lg:grid-cols-5 gap-4">
+            <StatTile label="Playtime" value={formatPlaytime(stats.playtimeSeconds)} />
+            <StatTile label="Sessions" value={String(sessionCount)} />
+            <StatTile label="Clips" value={String(clipCount)} />
+            <StatTile
+              label="K/D"
+              value={hasCombat(stats.combat) ? formatRatio(kdRatio(stats.combat)) : '–'}
+            />
+            <StatTile label="Headshot rate" value={formatRate(headshotRate(stats.combat))} />
+          </div>
+
+          <StatsCard
+            title={`Playtime per game by ${stats.bucketSize === 'week' ? 'week' : 'month'}`}
+          >
+            <ColumnChart
+              columns={playtimeColumns}
+              formatValue={formatPlaytime}
+              label={`${formatPlaytime(stats.playtimeSeconds)} played across ${stats.games.length} ${stats.games.length === 1 ? 'game' : 'games'}`}
+            />
+            <ChartLegend entries={legend} />
+          </StatsCard>
+
+          <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+            <StatsCard title={`Sessions per ${stats.sessionBucketSize}`}>
+              <ColumnChart
+                columns={sessionColumns}
+                formatValue={(count) => `${count} ${count === 1 ? 'session' : 'sessions'}`}
+                label={`${sessionCount} ${sessionCount === 1 ? 'session' : 'sessions'}`}
+              />
+            </StatsCard>
+
+            <StatsCard title="Most clipped games">
+              {stats.clips.length === 0 ? (
+                <p className="text-sm text-gray-400">No clips or highlights in this range.</p>
+              ) : (
+                <BarList
+                  color={CLIP_COLOR}
+                  rows={stats.clips.slice(0, CLIPPED_GAME_ROWS).map(({ game, count }) => ({
+                    key: game,
+                    label: game,
+                    value: count,
+                    valueLabel: String(count),
+                  }))}
+                />
+              )}
+            </StatsCard>
+          </div>
+
+          <StatsCard title="Kills, deaths and assists by game">
+            {combatGames.length === 0 ? (
+              <p className="text-sm text-gray-400">
+                No kill, death or assist bookmarks in this range.
+              </p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="table table-sm tabular-nums">
+                  <thead>
+                    <tr>
+                      <th>Game</th>
+                      <th className="text-right">Sessions</th>
+                      {COMBAT_HEADERS.map((header) => (
+                        <th key={header} className="text-right">
+                          {header}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {combatGames.map((game) => (
+                      <tr key={game.game}>
+                        <td className="max-w-56 truncate">{game.game}</td>
+                        <td className="text-right">{game.sessions}</td>
+                        <CombatCells combat={game.combat} />
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </StatsCard>
+
+          {stats.sessions.length > 0 && (
+            <StatsCard title="Sessions">
+              <div className="overflow-x-auto">
+                <table className="table table-sm tabular-nums">
+                  <thead>
+                    <tr>
+                      <th>Date</th>
+                      <th>Game</th>
+                      <th>Title</th>
+                      {COMBAT_HEADERS.map((header) => (
+                        <th key={header} className="text-right">
+                          {header}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {visibleSessions.map(({ item, combat }) => (
+                      <tr
+                        key={item.id}
+                        className="cursor-pointer hover:bg-white/5"
+                        onClick={() => setSelectedVideo(item)}
+                      >
+                        <td className="whitespace-nowrap">
+                          {new Date(item.createdAt).toLocaleDateString()}
+                        </td>
+                        <td className="max-w-40 truncate">{item.game}</td>
+                        <td className="max-w-56 truncate">{item.title || item.fileName}</td>
+                        <CombatCells combat={combat} />
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {stats.sessions.length > SESSION_ROWS && (
+                <button
+                  type="button"
+                  className="mt-2 text-sm text-gray-400 hover:text-primary"
+                  onClick={() => setShowAllSessions((prev) => !prev)}
+                >
+                  {showAllSessions ? 'Show fewer' : `Show all ${stats.sessions.length}`}
+                </button>
+              )}
+            </StatsCard>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,8 @@
 import React, { useRef, useState, useEffect, useLayoutEffect, useMemo, useCallback } from 'react';
 import { Content, BookmarkType, Segment, Bookmark } from '../Models/types';
-import { sendMessageToBackend } from '../Utils/MessageUtils';
+import { rpc, sendMessageToBackend } from '../Utils/MessageUtils';
 import { useSettings, useSettingsUpdater } from '../Context/SettingsContext';
-import { useAppState } from '../Context/AppStateContext';
+import { useAppState, usePatchContent } from '../Context/AppStateContext';
 import { openFileLocation, contentTypeToFolderName } from '../Utils/FileUtils';
 import { useSelectedVideo } from '../Context/SelectedVideoContext';
 import { DndProvider } from 'react-dnd';
@@ -48,7 +48,13 @@ import { useAudioTracks } from '../Hooks/useAudioTracks';
 import { AnimatePresence, motion } from 'framer-motion';
 import Button from '../Components/Button';
 import { useDeleteConfirmation } from '../Hooks/useDeleteConfirmation';
+import { useCommandFailure } from '../Hooks/useCommandFailure';
+import { useWebSocketContext } from '../Context/WebSocketContext';
+import { useUndo } from '../Context/UndoContext';
+import BackendActionTooltip from '../Components/BackendActionTooltip';
 import AudioTrackIcon from '../Components/AudioTrackIcon';
+import FavoriteButton from '../Components/FavoriteButton';
+import { useBackendMessage } from '../Hooks/useBackendMessage';
 
 const Crosshair2Dot = React.forwardRef<SVGSVGElement, React.ComponentProps<typeof Icon>>(
   (props, ref) => <Icon {...props} ref={ref} iconNode={crosshair2Dot} />,
@@ -119,6 +125,9 @@ const GAME_ICON_OVERRIDES: Record<number, Partial<Record<BookmarkType, LucideIco
   115: { Kill: Swords }, // League of Legends
 };
 
+// A random ID between 1 and MAX_INT
+const randomBookmarkId = () => Math.floor(Math.random() * 2147483647) + 1;
+
 function getIconMapping(igdbId?: number): Record<BookmarkType, LucideIcon> {
   if (igdbId && GAME_ICON_OVERRIDES[igdbId]) {
     return { ...DEFAULT_ICON_MAPPING, ...GAME_ICON_OVERRIDES[igdbId] };
@@ -128,6 +137,9 @@ function getIconMapping(igdbId?: number): Record<BookmarkType, LucideIcon> {
 
 function TopInfoBar({ video }: { video: Content }) {
   const { setSelectedVideo } = useSelectedVideo();
+  // The selected video is a snapshot, so read the favorite flag from the live library.
+  const { content } = useAppState();
+  const liveVideo = content.find((item) => item.id === video.id) ?? video;
   const created = new Date(video.createdAt);
   const isValidDate = !isNaN(created.getTime());
   const locale = Intl.DateTimeFormat().resolvedOptions().locale?.toLowerCase() || '';
@@ -175,6 +187,7 @@ function TopInfoBar({ video }: { video: Content }) {
           </a>
         </span>
       </div>
+      <FavoriteButton content={liveVideo} size={14} className="ml-auto shrink-0 px-1" />
     </div>
   );
 }
@@ -200,6 +213,10 @@ export default function VideoComponent({ video }: { video: Content }) {
   const { uploads } = useUploads();
   const { openModal, closeModal } = useModal();
   const confirmDelete = useDeleteConfirmation();
+  const showCommandFailure = useCommandFailure();
+  const { unavailableReason } = useWebSocketContext();
+  const patchContent = usePatchContent();
+  const { record } = useUndo();
   const {
     segments,
     addSegment,
@@ -1590,32 +1607,27 @@ export default function VideoComponent({ video }: { video: Content }) {
     });
   };
 
-  useEffect(() => {
-    const handler = (event: CustomEvent<{ method: string; content: any }>) => {
-      const { method, content } = event.detail;
-      if (method !== 'ClipboardCompressionProgress' || content?.filePath !== video.filePath) return;
-      if (content.status === 'compressing') {
-        const progress = content.progress ?? 0;
-        const now = performance.now();
-        const prev = compressRateRef.current;
-        const rate =
-          prev && prev.time > 0 && progress > prev.progress && now > prev.time
-            ? (progress - prev.progress) / (now - prev.time)
-            : (prev?.rate ?? 0);
-        compressRateRef.current = { progress, time: now, rate };
-        setCompressCopyProgress(progress);
-      } else {
-        compressRateRef.current = null;
-        setCompressCopyProgress(null);
-        if (content.status === 'done') {
-          setFileCopied(true);
-          setTimeout(() => setFileCopied(false), 1500);
-        }
+  useBackendMessage('ClipboardCompressionProgress', (content) => {
+    if (content.filePath !== video.filePath) return;
+    if (content.status === 'compressing') {
+      const progress = content.progress ?? 0;
+      const now = performance.now();
+      const prev = compressRateRef.current;
+      const rate =
+        prev && prev.time > 0 && progress > prev.progress && now > prev.time
+          ? (progress - prev.progress) / (now - prev.time)
+          : (prev?.rate ?? 0);
+      compressRateRef.current = { progress, time: now, rate };
+      setCompressCopyProgress(progress);
+    } else {
+      compressRateRef.current = null;
+      setCompressCopyProgress(null);
+      if (content.status === 'done') {
+        setFileCopied(true);
+        setTimeout(() => setFileCopied(false), 1500);
       }
-    };
-    window.addEventListener('websocket-message', handler as EventListener);
-    return () => window.removeEventListener('websocket-message', handler as EventListener);
-  }, [video.filePath]);
+    }
+  });
 
   // Ease the shown percent toward the extrapolated progress: catches up fast
   // when far behind, keeps crawling between updates, never passes 99 early
@@ -1729,6 +1741,15 @@ export default function VideoComponent({ video }: { video: Content }) {
     new Set(Object.values(BookmarkType)),
   );
 
+  // The selected video is a snapshot, so bookmarks are read from the library, where edits land.
+  const bookmarks =
+    appState.content.find((item) => item.id === video.id)?.bookmarks ?? video.bookmarks;
+  // Undo entries outlive this render, so they apply their change to whatever is current.
+  const bookmarksRef = useRef(bookmarks);
+  useEffect(() => {
+    bookmarksRef.current = bookmarks;
+  }, [bookmarks]);
+
   const availableBookmarkTypes = useMemo(() => {
     const order = [
       BookmarkType.Kill,
@@ -1737,12 +1758,12 @@ export default function VideoComponent({ video }: { video: Content }) {
       BookmarkType.Death,
       BookmarkType.Manual,
     ];
-    return order.filter((type) => video.bookmarks.some((b) => b.type === type));
-  }, [video.bookmarks]);
+    return order.filter((type) => bookmarks.some((b) => b.type === type));
+  }, [bookmarks]);
 
   const filteredBookmarks = useMemo(() => {
-    return video.bookmarks.filter((bookmark) => selectedBookmarkTypes.has(bookmark.type));
-  }, [video.bookmarks, selectedBookmarkTypes]);
+    return bookmarks.filter((bookmark) => selectedBookmarkTypes.has(bookmark.type));
+  }, [bookmarks, selectedBookmarkTypes]);
 
   const toggleBookmarkType = (type: BookmarkType) => {
     setSelectedBookmarkTypes((prev) => {
@@ -1756,6 +1777,37 @@ export default function VideoComponent({ video }: { video: Content }) {
     });
   };
 
+  // Show the change right away, taking it back if the backend can't save it. Undo and redo go
+  // through these too.
+  const addBookmark = (bookmark: Bookmark) => {
+    patchContent(video.id, { bookmarks: [...bookmarksRef.current, bookmark] });
+    return rpc('AddBookmark', {
+      ContentId: video.id,
+      Type: bookmark.type,
+      Subtype: bookmark.subtype,
+      Time: bookmark.time,
+      Id: bookmark.id,
+    }).catch((error) => {
+      patchContent(video.id, {
+        bookmarks: bookmarksRef.current.filter((b) => b.id !== bookmark.id),
+      });
+      throw error;
+    });
+  };
+
+  const removeBookmark = (bookmark: Bookmark) => {
+    patchContent(video.id, {
+      bookmarks: bookmarksRef.current.filter((b) => b.id !== bookmark.id),
+    });
+    return rpc('DeleteBookmark', {
+      ContentId: video.id,
+      Id: bookmark.id,
+    }).catch((error) => {
+      patchContent(video.id, { bookmarks: [...bookmarksRef.current, bookmark] });
+      throw error;
+    });
+  };
+
   const handleAddBookmark = () => {
     if (!videoRef.current) return;
 
@@ -1771,8 +1823,7 @@ export default function VideoComponent({ video }: { video: Content }) {
     // Default to Manual bookmark type if not specified
     const bookmarkType = BookmarkType.Manual;
 
-    // Generate a random ID between 1 and MAX_INT
-    const bookmarkId = Math.floor(Math.random() * 2147483647) + 1;
+    const bookmarkId = randomBookmarkId();
 
     // Create a new bookmark object
     const newBookmark: Bookmark = {
@@ -1781,44 +1832,37 @@ export default function VideoComponent({ video }: { video: Content }) {
       time: formattedTime,
     };
 
-    // Add the bookmark to the video's bookmarks array
-    video.bookmarks.push(newBookmark);
-
-    // Force a re-render to show the new bookmark
-    const bookmarks = [...video.bookmarks];
-    video.bookmarks = bookmarks;
-
-    // Send message to backend to add bookmark
-    sendMessageToBackend('AddBookmark', {
-      ContentId: video.id,
-      Type: bookmarkType,
-      Time: formattedTime,
-      Id: bookmarkId,
-    });
+    addBookmark(newBookmark)
+      .then(() =>
+        record({
+          label: `Added bookmark at ${formattedTime}`,
+          undo: () => removeBookmark(newBookmark),
+          redo: () => addBookmark(newBookmark),
+        }),
+      )
+      .catch((error) => showCommandFailure("Couldn't add bookmark", error));
   };
 
   const handleDeleteBookmark = (bookmarkId: number) => {
-    // Find the bookmark in the video's bookmarks array
-    const bookmarkIndex = video.bookmarks.findIndex((b) => b.id === bookmarkId);
-
-    if (bookmarkIndex !== -1) {
-      const bookmark = video.bookmarks[bookmarkIndex];
-      confirmDelete({
-        title: 'Delete bookmark?',
-        description: `Delete the ${bookmark.type.toLowerCase()} bookmark at ${bookmark.time}? This action cannot be undone.`,
-        onConfirm: () => {
-          video.bookmarks.splice(bookmarkIndex, 1);
-
-          const bookmarks = [...video.bookmarks];
-          video.bookmarks = bookmarks;
-
-          sendMessageToBackend('DeleteBookmark', {
-            ContentId: video.id,
-            Id: bookmarkId,
-          });
-        },
-      });
-    }
+    const bookmark = bookmarks.find((b) => b.id === bookmarkId);
+    if (!bookmark) return;
+
+    const label = `${bookmark.type.toLowerCase()} bookmark at ${bookmark.time}`;
+    confirmDelete({
+      title: 'Delete bookmark?',
+      description: `Delete the ${label}?`,
+      onConfirm: () =>
+        removeBookmark(bookmark)
+          .then(() =>
+            record({
+              label: `Deleted ${label}`,
+              destructive: true,
+              undo: () => addBookmark(bookmark),
+              redo: () => removeBookmark(bookmark),
+            }),
+          )
+          .catch((error) => showCommandFailure("Couldn't delete bookmark", error)),
+    });
   };
 
   const handleDeleteSegment = (segmentId: number) => {
@@ -2462,41 +2506,48 @@ export default function VideoComponent({ video }: { video: Content }) {
               {(video.type === 'Clip' || video.type === 'Highlight') && (
                 <>
                   {!settings.airplaneMode && (
-                    <Button
-                      variant="primary"
-                      size="sm"
-                      className="h-10 px-5 hover:text-accent"
-                      onClick={handleUpload}
-                      disabled={
-                        uploads[video.fileName + '.mp4']?.status === 'uploading' ||
-                        uploads[video.fileName + '.mp4']?.status === 'processing'
-                      }
-                    >
-                      <Upload className="w-5 h-5" />
-                      <span>Upload</span>
-                    </Button>
+                    <BackendActionTooltip>
+                      <Button
+                        variant="primary"
+                        size="sm"
+                        className="h-10 px-5 hover:text-accent"
+                        onClick={handleUpload}
+                        disabled={
+                          !!unavailableReason ||
+                          uploads[video.fileName + '.mp4']?.status === 'queued' ||
+                          uploads[video.fileName + '.mp4']?.status === 'uploading' ||
+                          uploads[video.fileName + '.mp4']?.status === 'processing'
+                        }
+                      >
+                        <Upload className="w-5 h-5" />
+                        <span>Upload</span>
+                      </Button>
+                    </BackendActionTooltip>
                   )}
                   {copyButtons}
                 </>
               )}
               {(video.type === 'Session' || video.type === 'Buffer') && (
                 <>
-                  <Button
-                    variant="primary"
-                    size="sm"
-                    className="h-10 gap-1 hover:text-accent"
-                    onClick={handleCreateClip}
-                  >
-                    <Clapperboard className="w-5 h-5" />
-                    <span className="grid justify-items-start">
-                      <span className="col-start-1 row-start-1 invisible" aria-hidden="true">
-                        Create Clips
-                      </span>
-                      <span className="col-start-1 row-start-1">
-                        {clipOutputMode === 'separate' ? 'Create Clips' : 'Create Clip'}
+                  <BackendActionTooltip>
+                    <Button
+                      variant="primary"
+                      size="sm"
+                      className="h-10 gap-1 hover:text-accent"
+                      onClick={handleCreateClip}
+                      disabled={!!unavailableReason}
+                    >
+                      <Clapperboard className="w-5 h-5" />
+                      <span className="grid justify-items-start">
+                        <span className="col-start-1 row-start-1 invisible" aria-hidden="true">
+                          Create Clips
+                        </span>
+                        <span className="col-start-1 row-start-1">
+                          {clipOutputMode === 'separate' ? 'Create Clips' : 'Create Clip'}
+                        </span>
                       </span>
-                    </span>
-                  </Button>
+                    </Button>
+                  </BackendActionTooltip>
                   <Button
                     variant="primary"
                     size="sm"
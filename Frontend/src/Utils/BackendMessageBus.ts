@@ -0,0 +1,65 @@
+import {
+  BackendMessage,
+  BackendMessageMap,
+  BackendMessageOf,
+  BackendMethod,
+} from '../Models/WebSocketMessages';
+
+// Routes validated backend messages to the listeners registered for their method, so a
+// ClipProgress update only reaches clipping state and a State push only reaches app state.
+// Components subscribe through useBackendMessage; plain modules call subscribeToBackendMessage.
+
+export type BackendMessageHandler<M extends BackendMethod> = (
+  content: BackendMessageMap[M],
+  message: BackendMessageOf<M>,
+) => void;
+
+const subscriptions = new Map<BackendMethod, Set<BackendMessageHandler<any>>>();
+
+export function subscribeToBackendMessage<M extends BackendMethod>(
+  method: M,
+  handler: BackendMessageHandler<M>,
+): () => void {
+  let handlers = subscriptions.get(method);
+  if (!handlers) {
+    handlers = new Set();
+    subscriptions.set(method, handlers);
+  }
+  handlers.add(handler);
+
+  return () => {
+    handlers.delete(handler);
+    if (handlers.size === 0 && subscriptions.get(method) === handlers) {
+      subscriptions.delete(method);
+    }
+  };
+}
+
+export function publishBackendMessage(message: BackendMessage) {
+  const handlers = subscriptions.get(message.method);
+  if (!handlers) return;
+  // Copy first, so a handler that unsubscribes (or subscribes) doesn't affect this dispatch.
+  for (const handler of [...handlers]) {
+    try {
+      handler(message.content, message);
+    } catch (error) {
+      console.error(`Error in ${message.method} handler:`, error);
+    }
+  }
+}
+
+// Listener counts per method, for the devtools hook below.
+export function getBackendMessageSubscriptions(): Partial<Record<BackendMethod, number>> {
+  return Object.fromEntries(
+    [...subscriptions].map(([method, handlers]) => [method, handlers.size]),
+  );
+}
+
+// In development, `window.__segraMessageBus` lets you inspect subscriptions from the console
+// and publish a message by hand, e.g. to try a progress card without the backend.
+if (import.meta.env.DEV) {
+  (window as any).__segraMessageBus = {
+    subscriptions: getBackendMessageSubscriptions,
+    publish: publishBackendMessage,
+  };
+}
@@ -0,0 +1,59 @@
+// Binary WebSocket frames from the backend. They skip JSON and the message bus entirely, which
+// matters for the recording preview: base64-encoding a JPEG, parsing it as JSON and decoding it
+// again several times a second is enough to stutter on lower-end machines mid-game.
+//
+// Layout (little-endian), mirrored by MessageService.SendFrontendBinary in the backend:
+//   byte 0     kind (BinaryMessageKind)
+//   byte 1     reserved, always 0
+//   bytes 2-3  width in pixels (uint16)
+//   bytes 4-5  height in pixels (uint16)
+//   bytes 6-   payload
+export const BINARY_HEADER_SIZE = 6;
+
+export enum BinaryMessageKind {
+  RecordingPreviewFrame = 1,
+}
+
+export interface PreviewFrame {
+  jpeg: Blob;
+  width: number;
+  height: number;
+}
+
+type PreviewFrameListener = (frame: PreviewFrame) => void;
+
+const previewFrameListeners = new Set<PreviewFrameListener>();
+
+export function subscribeToPreviewFrames(listener: PreviewFrameListener): () => void {
+  previewFrameListeners.add(listener);
+  return () => {
+    previewFrameListeners.delete(listener);
+  };
+}
+
+// Called by WebSocketProvider for every binary frame.
+export function handleBinaryMessage(data: ArrayBuffer) {
+  if (data.byteLength < BINARY_HEADER_SIZE) {
+    console.error('Rejected binary WebSocket message shorter than its header');
+    return;
+  }
+
+  const header = new DataView(data, 0, BINARY_HEADER_SIZE);
+  const kind = header.getUint8(0);
+  if (kind !== BinaryMessageKind.RecordingPreviewFrame) {
+    console.error('Rejected binary WebSocket message of unknown kind:', kind);
+    return;
+  }
+
+  // Nobody is showing the preview; don't bother wrapping the bytes.
+  if (previewFrameListeners.size === 0) return;
+
+  const frame: PreviewFrame = {
+    jpeg: new Blob([data.slice(BINARY_HEADER_SIZE)], { type: 'image/jpeg' }),
+    width: header.getUint16(2, true),
+    height: header.getUint16(4, true),
+  };
+  for (const listener of previewFrameListeners) {
+    listener(frame);
+  }
+}
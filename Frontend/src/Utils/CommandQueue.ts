@@ -0,0 +1,136 @@
+import { BackendCommand } from '../Models/WebSocketMessages';
+import { recordTraffic } from './TrafficLog';
+
+// Commands are held here while the WebSocket is down, and replayed in order once the
+// NewConnection handshake has resynced the backend. Replies to anything sent in between would
+// arrive on a dead socket, and the backend may still hold state from before the drop. The queue
+// is saved to localStorage, so a reload or crash doesn't lose what the user already did.
+
+// Only the newest of these matters, so a queued copy is replaced rather than kept.
+const IDEMPOTENT_COMMANDS: ReadonlySet<BackendCommand> = new Set<BackendCommand>([
+  'UpdateSettings',
+  'ToggleFullscreen',
+  'ApplyVideoPreset',
+  'ApplyClipPreset',
+  'RefreshStorageStats',
+  'ResyncContent',
+  'CheckForUpdates',
+]);
+
+// Sent as soon as the socket opens; they are what makes the backend ready again.
+const HANDSHAKE_COMMANDS: ReadonlySet<BackendCommand> = new Set<BackendCommand>([
+  'NewConnection',
+  'Login',
+]);
+
+// How long a command someone is waiting on may sit in the queue. After that it is dropped and
+// reported as not sent, so the caller's rpc() promise rejects instead of hanging.
+const AWAITED_COMMAND_TIMEOUT_MS = 60000;
+const QUEUE_STORAGE_KEY = 'commandQueue';
+
+interface QueuedCommand {
+  method: BackendCommand;
+  message: object;
+  // Date.now() after which the command is dropped. Only set for commands someone awaits.
+  expiresAt?: number;
+  // Called with whether the command reached window.external once it leaves the queue.
+  // Not saved, so commands restored after a reload are sent without anyone waiting on them.
+  onSent?: (sent: boolean) => void;
+}
+
+const isLive = (entry: QueuedCommand) => !entry.expiresAt || entry.expiresAt > Date.now();
+
+function loadQueue(): QueuedCommand[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(QUEUE_STORAGE_KEY) ?? '[]');
+    return Array.isArray(saved) ? saved.filter(isLive) : [];
+  } catch {
+    return [];
+  }
+}
+
+let queue: QueuedCommand[] = loadQueue();
+let backendReady = false;
+const listeners = new Set<() => void>();
+
+const notify = () => {
+  try {
+    localStorage.setItem(
+      QUEUE_STORAGE_KEY,
+      JSON.stringify(
+        queue.map(({ method, message, expiresAt }) => ({ method, message, expiresAt })),
+      ),
+    );
+  } catch (error) {
+    console.error('Failed to save the command queue:', error);
+  }
+  listeners.forEach((listener) => listener());
+};
+
+const expire = (entry: QueuedCommand) => {
+  if (!queue.includes(entry)) return;
+  queue = queue.filter((queued) => queued !== entry);
+  console.warn(`Dropped queued ${entry.method}, the backend didn't come back in time`);
+  entry.onSent?.(false);
+  notify();
+};
+
+export const postToBackend = (method: BackendCommand, message: object): boolean => {
+  if ((window as any).external && typeof (window as any).external.sendMessage === 'function') {
+    const messageString = JSON.stringify(message);
+    (window as any).external.sendMessage(messageString);
+    recordTraffic({ direction: 'out', method, payload: message });
+    return true;
+  }
+  console.error('window.external.sendMessage is not available.');
+  return false;
+};
+
+// Sends the command now if the backend is ready, otherwise queues it.
+export function dispatchCommand(
+  method: BackendCommand,
+  message: object,
+  onSent?: (sent: boolean) => void,
+): 'sent' | 'queued' | 'unavailable' {
+  if (backendReady || HANDSHAKE_COMMANDS.has(method)) {
+    const sent = postToBackend(method, message);
+    onSent?.(sent);
+    return sent ? 'sent' : 'unavailable';
+  }
+
+  if (IDEMPOTENT_COMMANDS.has(method)) {
+    // Callers awaiting a queued copy keep it, so their promise still settles.
+    queue = queue.filter((entry) => entry.method !== method || entry.onSent);
+  }
+  const entry: QueuedCommand = { method, message, onSent };
+  if (onSent) {
+    entry.expiresAt = Date.now() + AWAITED_COMMAND_TIMEOUT_MS;
+    setTimeout(() => expire(entry), AWAITED_COMMAND_TIMEOUT_MS);
+  }
+  queue.push(entry);
+  console.log(`Backend not connected, queued ${method} (${queue.length} waiting)`);
+  notify();
+  return 'queued';
+}
+
+// Called by WebSocketProvider: false when the socket drops, true once the handshake is done.
+export function setBackendReady(ready: boolean) {
+  if (backendReady === ready) return;
+  backendReady = ready;
+  if (!ready || queue.length === 0) return;
+
+  const pending = queue.filter(isLive);
+  queue = [];
+  console.log(`Backend resynced, replaying ${pending.length} queued command(s)`);
+  pending.forEach((entry) => entry.onSent?.(postToBackend(entry.method, entry.message)));
+  notify();
+}
+
+export const getQueuedCommandCount = () => queue.length;
+
+export function subscribeToCommandQueue(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,85 @@
+import { Content } from '../Models/types';
+import { durationToSeconds } from './ContentFacets';
+
+// Everything recorded on one local calendar day.
+export interface ContentDay {
+  key: string;
+  items: Content[];
+  durationSeconds: number;
+  sizeKb: number;
+  // Time spent playing: each game's full sessions, or its replay buffers when it has no session.
+  playtimeSeconds: number;
+}
+
+// "2025-06-03" in local time, so late-night sessions land on the day they were played.
+export const dayKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const parseDayKey = (key: string) => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export function groupByDay(items: Content[]): Map<string, ContentDay> {
+  const days = new Map<string, ContentDay>();
+  for (const item of items) {
+    const key = dayKey(new Date(item.createdAt));
+    let day = days.get(key);
+    if (!day) {
+      day = { key, items: [], durationSeconds: 0, sizeKb: 0, playtimeSeconds: 0 };
+      days.set(key, day);
+    }
+    day.items.push(item);
+    day.durationSeconds += durationToSeconds(item.duration);
+    day.sizeKb += item.fileSizeKb || 0;
+  }
+
+  for (const day of days.values()) {
+    day.items.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+    day.playtimeSeconds = playedOnDay(day.items).reduce(
+      (sum, item) => sum + durationToSeconds(item.duration),
+      0,
+    );
+  }
+  return days;
+}
+
+// What a day's playtime counts, game by game: its full sessions, or its replay buffers when
+// that game has no session that day. Clips and highlights are cut from these, so they'd count
+// the same time twice.
+export function playedOnDay(items: Content[]): Content[] {
+  const gamesWithSession = new Set(
+    items.filter((item) => item.type === 'Session').map((item) => item.game),
+  );
+  return items.filter(
+    (item) =>
+      item.type === 'Session' || (item.type === 'Buffer' && !gamesWithSession.has(item.game)),
+  );
+}
+
+// The weeks of a month, Monday first, with null for days outside it.
+export function monthWeeks(year: number, month: number): (Date | null)[][] {
+  const first = new Date(year, month, 1);
+  const daysInMonth = new Date(year, month + 1, 0).getDate();
+  const leading = (first.getDay() + 6) % 7;
+  const cells: (Date | null)[] = Array.from({ length: leading }, () => null);
+  for (let day = 1; day <= daysInMonth; day++) cells.push(new Date(year, month, day));
+  while (cells.length % 7 !== 0) cells.push(null);
+
+  const weeks: (Date | null)[][] = [];
+  for (let i = 0; i < cells.length; i += 7) weeks.push(cells.slice(i, i + 7));
+  return weeks;
+}
+
+// "2h 05m", or "45m" under an hour.
+export const formatPlaytime = (seconds: number) => {
+  const totalMinutes = Math.round(seconds / 60);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return hours > 0 ? `${hours}h ${String(minutes).padStart(2, '0')}m` : `${minutes}m`;
+};
+
+export const formatSizeKb = (sizeKb: number) => {
+  const gb = sizeKb / (1024 * 1024);
+  return gb >= 1 ? `${gb.toFixed(gb >= 10 ? 1 : 2)} GB` : `${Math.round(sizeKb / 1024)} MB`;
+};
@@ -0,0 +1,148 @@
+import { Content } from '../Models/types';
+import { durationToSeconds } from './ContentFacets';
+
+// Library metadata as CSV or JSON, for keeping track of recordings in a spreadsheet. Which
+// columns to include and the format are remembered between exports as the export template.
+
+export type ExportFormat = 'csv' | 'json';
+
+export type ExportColumn =
+  | 'title'
+  | 'game'
+  | 'type'
+  | 'createdAt'
+  | 'duration'
+  | 'durationSeconds'
+  | 'fileSize'
+  | 'fileSizeKb'
+  | 'bookmarkCount'
+  | 'bookmarks'
+  | 'tags'
+  | 'favorite'
+  | 'compressed'
+  | 'imported'
+  | 'uploadId'
+  | 'uploadUrl'
+  | 'fileName'
+  | 'filePath'
+  | 'id';
+
+interface ExportBookmark {
+  type: string;
+  subtype?: string;
+  time: string;
+  seconds: number;
+}
+
+type ExportValue = string | number | boolean | string[] | ExportBookmark[] | null;
+
+export const EXPORT_COLUMNS: {
+  key: ExportColumn;
+  label: string;
+  value: (item: Content) => ExportValue;
+}[] = [
+  { key: 'title', label: 'Title', value: (item) => item.title },
+  { key: 'game', label: 'Game', value: (item) => item.game },
+  { key: 'type', label: 'Type', value: (item) => item.type },
+  { key: 'createdAt', label: 'Recorded', value: (item) => item.createdAt },
+  { key: 'duration', label: 'Duration', value: (item) => item.duration },
+  {
+    key: 'durationSeconds',
+    label: 'Duration (seconds)',
+    value: (item) => durationToSeconds(item.duration),
+  },
+  { key: 'fileSize', label: 'Size', value: (item) => item.fileSize },
+  { key: 'fileSizeKb', label: 'Size (KB)', value: (item) => item.fileSizeKb },
+  { key: 'bookmarkCount', label: 'Bookmark count', value: (item) => item.bookmarks.length },
+  {
+    key: 'bookmarks',
+    label: 'Bookmarks',
+    value: (item) =>
+      item.bookmarks.map((bookmark) => ({
+        type: bookmark.type,
+        ...(bookmark.subtype ? { subtype: bookmark.subtype } : {}),
+        time: bookmark.time,
+        seconds: durationToSeconds(bookmark.time),
+      })),
+  },
+  { key: 'tags', label: 'Tags', value: (item) => item.tags },
+  { key: 'favorite', label: 'Favorite', value: (item) => item.isFavorite },
+  { key: 'compressed', label: 'Compressed', value: (item) => item.compressed },
+  { key: 'imported', label: 'Imported', value: (item) => item.isImported },
+  { key: 'uploadId', label: 'Upload id', value: (item) => item.uploadId ?? null },
+  {
+    key: 'uploadUrl',
+    label: 'Upload link',
+    value: (item) => (item.uploadId ? `https://segra.tv/video/${item.uploadId}` : null),
+  },
+  { key: 'fileName', label: 'File name', value: (item) => item.fileName },
+  { key: 'filePath', label: 'File path', value: (item) => item.filePath },
+  { key: 'id', label: 'Id', value: (item) => item.id },
+];
+
+export interface ExportTemplate {
+  format: ExportFormat;
+  columns: ExportColumn[];
+}
+
+export const DEFAULT_EXPORT_TEMPLATE: ExportTemplate = {
+  format: 'csv',
+  columns: ['title', 'game', 'type', 'createdAt', 'duration', 'fileSize', 'bookmarks', 'tags'],
+};
+
+const TEMPLATE_STORAGE_KEY = 'contentExportTemplate';
+
+export function loadExportTemplate(): ExportTemplate {
+  try {
+    const saved = JSON.parse(localStorage.getItem(TEMPLATE_STORAGE_KEY) ?? 'null');
+    if (!saved) return DEFAULT_EXPORT_TEMPLATE;
+    const columns = EXPORT_COLUMNS.map(({ key }) => key).filter((key) =>
+      saved.columns?.includes(key),
+    );
+    return {
+      format: saved.format === 'json' ? 'json' : 'csv',
+      columns: columns.length > 0 ? columns : DEFAULT_EXPORT_TEMPLATE.columns,
+    };
+  } catch {
+    return DEFAULT_EXPORT_TEMPLATE;
+  }
+}
+
+export const saveExportTemplate = (template: ExportTemplate) =>
+  localStorage.setItem(TEMPLATE_STORAGE_KEY, JSON.stringify(template));
+
+// One spreadsheet cell. Lists are joined, bookmarks as "Kill 00:01:23".
+function csvCell(value: ExportValue): string {
+  let text: string;
+  if (value === null) text = '';
+  else if (Array.isArray(value)) {
+    text = value
+      .map((entry) =>
+        typeof entry === 'string'
+          ? entry
+          : `${entry.type}${entry.subtype ? ` (${entry.subtype})` : ''} ${entry.time}`,
+      )
+      .join('; ');
+  } else text = String(value);
+
+  // Spreadsheets run text starting with these as a formula, so no cell can become one. That
+  // includes joined lists, whose first entry could be a tag like "=cmd".
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Columns in the order they're listed in EXPORT_COLUMNS, whatever order they were picked in.
+export function exportContent(items: Content[], template: ExportTemplate): string {
+  const columns = EXPORT_COLUMNS.filter(({ key }) => template.columns.includes(key));
+  if (template.format === 'json') {
+    const rows = items.map((item) =>
+      Object.fromEntries(columns.map(({ key, value }) => [key, value(item)])),
+    );
+    return JSON.stringify(rows, null, 2);
+  }
+  const lines = [
+    columns.map(({ label }) => csvCell(label)).join(','),
+    ...items.map((item) => columns.map(({ value }) => csvCell(value(item))).join(',')),
+  ];
+  return lines.join('\r\n');
+}
@@ -0,0 +1,261 @@
+import { BookmarkType, Content } from '../Models/types';
+import { normalizeTag } from './ContentTags';
+
+// Filter facets in the content grid's Filter menu, next to the game checklist. Options within a
+// facet are alternatives (any may match); facets combine (all must match). Each option's count
+// is how many items it would show given every other active filter, so picking it never lands
+// on an empty grid by surprise. Tags are the one facet whose options come from the library.
+
+export type FacetKey =
+  | 'favorite'
+  | 'date'
+  | 'duration'
+  | 'size'
+  | 'bookmarks'
+  | 'uploaded'
+  | 'compressed'
+  | 'imported'
+  | 'audioTracks'
+  | 'tags';
+
+// Selected option values per facet, persisted per page as `${sectionId}-facets`.
+export type FacetSelection = Partial<Record<FacetKey, string[]>>;
+
+export type FacetCounts = Record<FacetKey, Record<string, number>>;
+
+interface FacetOption {
+  value: string;
+  label: string;
+  test: (item: Content, now: number) => boolean;
+}
+
+export interface FacetDefinition {
+  key: FacetKey;
+  label: string;
+  options: FacetOption[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MB_IN_KB = 1024;
+const GB_IN_KB = 1024 * 1024;
+
+// Parses the "HH:MM:SS.fff" TimeSpan the backend sends.
+export const durationToSeconds = (duration: string) =>
+  duration.split(':').reduce((acc, t) => 60 * acc + (parseInt(t, 10) || 0), 0);
+
+const age = (item: Content, now: number) => now - new Date(item.createdAt).getTime();
+const audioTrackCount = (item: Content) => item.audioTrackNames?.length || 1;
+
+const yesNo = (test: (item: Content) => boolean, yes: string, no: string): FacetOption[] => [
+  { value: 'yes', label: yes, test },
+  { value: 'no', label: no, test: (item) => !test(item) },
+];
+
+export const FACETS: FacetDefinition[] = [
+  {
+    key: 'favorite',
+    label: 'Favorites',
+    options: yesNo((item) => item.isFavorite, 'Favorites', 'Not favorites'),
+  },
+  {
+    key: 'date',
+    label: 'Date',
+    options: [
+      { value: 'day', label: 'Last 24 hours', test: (item, now) => age(item, now) < DAY_MS },
+      { value: 'week', label: 'Last 7 days', test: (item, now) => age(item, now) < 7 * DAY_MS },
+      { value: 'month', label: 'Last 30 days', test: (item, now) => age(item, now) < 30 * DAY_MS },
+      { value: 'year', label: 'Last year', test: (item, now) => age(item, now) < 365 * DAY_MS },
+      {
+        value: 'older',
+        label: 'Over a year ago',
+        test: (item, now) => age(item, now) >= 365 * DAY_MS,
+      },
+    ],
+  },
+  {
+    key: 'duration',
+    label: 'Duration',
+    options: [
+      {
+        value: 'under1m',
+        label: 'Under 1 minute',
+        test: (item) => durationToSeconds(item.duration) < 60,
+      },
+      {
+        value: '1to10m',
+        label: '1–10 minutes',
+        test: (item) => {
+          const seconds = durationToSeconds(item.duration);
+          return seconds >= 60 && seconds < 600;
+        },
+      },
+      {
+        value: '10to60m',
+        label: '10–60 minutes',
+        test: (item) => {
+          const seconds = durationToSeconds(item.duration);
+          return seconds >= 600 && seconds < 3600;
+        },
+      },
+      {
+        value: 'over1h',
+        label: 'Over an hour',
+        test: (item) => durationToSeconds(item.duration) >= 3600,
+      },
+    ],
+  },
+  {
+    key: 'size',
+    label: 'File size',
+    options: [
+      {
+        value: 'under100mb',
+        label: 'Under 100 MB',
+        test: (item) => item.fileSizeKb < 100 * MB_IN_KB,
+      },
+      {
+        value: '100mbto1gb',
+        label: '100 MB – 1 GB',
+        test: (item) => item.fileSizeKb >= 100 * MB_IN_KB && item.fileSizeKb < GB_IN_KB,
+      },
+      {
+        value: '1to5gb',
+        label: '1 – 5 GB',
+        test: (item) => item.fileSizeKb >= GB_IN_KB && item.fileSizeKb < 5 * GB_IN_KB,
+      },
+      { value: 'over5gb', label: 'Over 5 GB', test: (item) => item.fileSizeKb >= 5 * GB_IN_KB },
+    ],
+  },
+  {
+    key: 'bookmarks',
+    label: 'Bookmarks',
+    options: [
+      ...Object.values(BookmarkType).map((type) => ({
+        value: type,
+        label: type,
+        test: (item: Content) => item.bookmarks.some((bookmark) => bookmark.type === type),
+      })),
+      { value: 'none', label: 'No bookmarks', test: (item) => item.bookmarks.length === 0 },
+    ],
+  },
+  {
+    key: 'uploaded',
+    label: 'Upload',
+    options: yesNo((item) => !!item.uploadId, 'Uploaded', 'Not uploaded'),
+  },
+  {
+    key: 'compressed',
+    label: 'Compression',
+    options: yesNo((item) => item.compressed, 'Compressed', 'Not compressed'),
+  },
+  {
+    key: 'imported',
+    label: 'Source',
+    options: yesNo((item) => item.isImported, 'Imported', 'Recorded in Segra'),
+  },
+  {
+    key: 'audioTracks',
+    label: 'Audio tracks',
+    options: [
+      { value: '1', label: '1 track', test: (item) => audioTrackCount(item) === 1 },
+      { value: '2', label: '2 tracks', test: (item) => audioTrackCount(item) === 2 },
+      { value: '3', label: '3 tracks', test: (item) => audioTrackCount(item) === 3 },
+      { value: '4+', label: '4 or more', test: (item) => audioTrackCount(item) >= 4 },
+    ],
+  },
+];
+
+// Tag options, plus "No tags" under the empty value, which no tag can have.
+const tagFacet = (tags: string[]): FacetDefinition => ({
+  key: 'tags',
+  label: 'Tags',
+  options: [
+    ...tags.map((tag) => ({
+      value: tag,
+      label: tag,
+      test: (item: Content) => item.tags.includes(tag),
+    })),
+    { value: '', label: 'No tags', test: (item) => item.tags.length === 0 },
+  ],
+});
+
+// Every facet, with tag options for `tags`.
+export const contentFacets = (tags: string[]): FacetDefinition[] => [tagFacet(tags), ...FACETS];
+
+// Drops facets and options that no longer exist, e.g. from an older saved selection. Selected
+// tags are kept even when nothing carries them right now, like a game that has no videos left.
+export function sanitizeFacetSelection(raw: unknown): FacetSelection {
+  if (typeof raw !== 'object' || raw === null) return {};
+  const selection: FacetSelection = {};
+  for (const facet of FACETS) {
+    const values = (raw as Record<string, unknown>)[facet.key];
+    if (!Array.isArray(values)) continue;
+    const valid = values.filter((value) => facet.options.some((option) => option.value === value));
+    if (valid.length > 0) selection[facet.key] = valid;
+  }
+  const tags = (raw as Record<string, unknown>).tags;
+  if (Array.isArray(tags)) {
+    const valid = tags
+      .filter((tag): tag is string => typeof tag === 'string')
+      .map((tag) => (tag === '' ? tag : normalizeTag(tag)))
+      .filter((tag, index, all) => all.indexOf(tag) === index);
+    if (valid.length > 0) selection.tags = valid;
+  }
+  return selection;
+}
+
+// Uploads are hidden in airplane mode, so the upload facet is neither shown nor applied there.
+export const visibleFacetSelection = (
+  selection: FacetSelection,
+  airplaneMode: boolean,
+): FacetSelection => (airplaneMode ? { ...selection, uploaded: undefined } : selection);
+
+export const countSelectedFacetOptions = (selection: FacetSelection) =>
+  Object.values(selection).reduce((sum, values) => sum + (values?.length ?? 0), 0);
+
+// The Filter menu's game checklist. "Imported" is listed with the games and matches imported
+// items whatever their game.
+export function filterByGames(items: Content[], games: string[]): Content[] {
+  if (games.length === 0) return items;
+  return items.filter((item) => {
+    if (games.includes('Imported') && item.isImported) {
+      return true;
+    }
+    return games.filter((g) => g !== 'Imported').includes(item.game);
+  });
+}
+
+// Items matching every selected facet, ignoring `except` (used for that facet's own counts).
+export function applyFacets(
+  items: Content[],
+  selection: FacetSelection,
+  except?: FacetKey,
+  now = Date.now(),
+): Content[] {
+  const selectedTags = (selection.tags ?? []).filter((tag) => tag !== '');
+  const active = contentFacets(selectedTags)
+    .filter((facet) => facet.key !== except && (selection[facet.key]?.length ?? 0) > 0)
+    .map((facet) => facet.options.filter((option) => selection[facet.key]!.includes(option.value)));
+  if (active.length === 0) return items;
+  return items.filter((item) =>
+    active.every((options) => options.some((option) => option.test(item, now))),
+  );
+}
+
+// `tags` are the page's tags, so each gets a count even when the search leaves none of it.
+export function countFacetOptions(
+  items: Content[],
+  selection: FacetSelection,
+  tags: string[],
+): FacetCounts {
+  const now = Date.now();
+  const counts = {} as FacetCounts;
+  for (const facet of contentFacets(tags)) {
+    const base = applyFacets(items, selection, facet.key, now);
+    counts[facet.key] = {};
+    for (const option of facet.options) {
+      counts[facet.key][option.value] = base.filter((item) => option.test(item, now)).length;
+    }
+  }
+  return counts;
+}
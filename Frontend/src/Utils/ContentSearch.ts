@@ -0,0 +1,420 @@
+import { BookmarkSubtype, BookmarkType, Content, ContentType } from '../Models/types';
+
+// Library search behind the search box on every content page. A query is a mix of free terms,
+// which must all match somewhere in an item, and field filters:
+//
+//   game:cs2  type:clip  title:"last round"  file:2025-06  has:headshot  has:favorite
+//   tag:"for edit"  on:2025-06-03  before:yesterday  after:tuesday  -has:death
+//
+// Free terms look at the title, game, file name, bookmark types, tags and the recording date
+// (weekday, month or date as typed, e.g. "tuesday", "june" or "2025-06-03"). Matching is
+// forgiving: a term can be a substring, the initials of words ("cs2" finds "Counter-Strike 2") or
+// one typo away from a word ("cluth" finds "Clutch").
+
+export type SearchField = 'title' | 'game' | 'fileName';
+
+// Start and end (exclusive) of a matched span, in the field's original text.
+export type MatchRange = [start: number, end: number];
+
+export interface ContentSearchMatch {
+  score: number;
+  ranges: Partial<Record<SearchField, MatchRange[]>>;
+}
+
+const FILTER_KEYS = [
+  'game',
+  'type',
+  'title',
+  'file',
+  'has',
+  'tag',
+  'on',
+  'before',
+  'after',
+] as const;
+type FilterKey = (typeof FILTER_KEYS)[number];
+
+interface QueryPart {
+  // null for free terms.
+  key: FilterKey | null;
+  value: string;
+  negated: boolean;
+}
+
+export interface SearchQuery {
+  parts: QueryPart[];
+  // Filters whose value can't mean anything, e.g. `type:video` or `before:someday`. They are
+  // left out of the search and shown to the user instead.
+  invalid: string[];
+}
+
+const TYPE_ALIASES: Record<string, ContentType> = {
+  session: 'Session',
+  full: 'Session',
+  buffer: 'Buffer',
+  replay: 'Buffer',
+  clip: 'Clip',
+  highlight: 'Highlight',
+};
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const MONTHS = [
+  'january',
+  'february',
+  'march',
+  'april',
+  'may',
+  'june',
+  'july',
+  'august',
+  'september',
+  'october',
+  'november',
+  'december',
+];
+
+// Flags `has:` can test besides bookmark types, e.g. has:uploaded.
+const HAS_FLAGS: Record<string, (item: Content) => boolean> = {
+  bookmark: (item) => item.bookmarks.length > 0,
+  upload: (item) => !!item.uploadId,
+  compressed: (item) => item.compressed,
+  imported: (item) => item.isImported,
+  favorite: (item) => item.isFavorite,
+};
+
+const BOOKMARK_WORDS = [...Object.values(BookmarkType), ...Object.values(BookmarkSubtype)].map(
+  (word) => word.toLowerCase(),
+);
+
+// Plurals read naturally in queries: has:kills, headshots.
+const singular = (value: string) => value.replace(/s$/, '');
+
+const hasFlag = (value: string) =>
+  Object.keys(HAS_FLAGS).find((flag) => singular(value).startsWith(flag));
+
+// Free terms shorter than this only match as substrings or initials, not with a typo.
+const MIN_TYPO_LENGTH = 4;
+
+const isAlphanumeric = (char: string) => /[\p{L}\p{N}]/u.test(char);
+const isDigit = (char: string) => char >= '0' && char <= '9';
+
+// Whether `text[i]` starts a word: after a separator, at a letter/digit switch ("cs2") or at a
+// capital following a lowercase letter ("ReplayBuffer").
+const isWordStart = (text: string, i: number) => {
+  if (i === 0) return true;
+  const previous = text[i - 1];
+  const char = text[i];
+  if (!isAlphanumeric(previous)) return true;
+  if (isDigit(char) !== isDigit(previous)) return true;
+  return char !== char.toLowerCase() && previous === previous.toLowerCase();
+};
+
+const dateKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+interface IndexedContent {
+  fields: Record<SearchField, { text: string; lower: string }>;
+  bookmarkWords: string[];
+  tags: string[];
+  dateWords: string[];
+  createdAt: number;
+}
+
+// Built once per item. applyContentDelta keeps unchanged items as the same object, so a
+// delta only re-indexes what it touched.
+const indexCache = new WeakMap<Content, IndexedContent>();
+
+const indexContent = (item: Content): IndexedContent => {
+  const cached = indexCache.get(item);
+  if (cached) return cached;
+
+  const field = (text: string) => ({ text, lower: text.toLowerCase() });
+  const created = new Date(item.createdAt);
+  const bookmarkWords = new Set<string>();
+  for (const bookmark of item.bookmarks) {
+    bookmarkWords.add(bookmark.type.toLowerCase());
+    if (bookmark.subtype) bookmarkWords.add(bookmark.subtype.toLowerCase());
+  }
+
+  const indexed: IndexedContent = {
+    fields: {
+      title: field(item.title ?? ''),
+      game: field(item.game ?? ''),
+      fileName: field(item.fileName ?? ''),
+    },
+    bookmarkWords: [...bookmarkWords],
+    tags: item.tags,
+    dateWords: [
+      WEEKDAYS[created.getDay()],
+      MONTHS[created.getMonth()],
+      dateKey(created),
+      created.toLocaleDateString().toLowerCase(),
+    ],
+    createdAt: created.getTime(),
+  };
+  indexCache.set(item, indexed);
+  return indexed;
+};
+
+function levenshteinAtMostOne(a: string, b: string): boolean {
+  if (Math.abs(a.length - b.length) > 1) return false;
+  let i = 0;
+  let j = 0;
+  let edits = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      i++;
+      j++;
+      continue;
+    }
+    if (++edits > 1) return false;
+    if (a.length > b.length) i++;
+    else if (b.length > a.length) j++;
+    else {
+      i++;
+      j++;
+    }
+  }
+  return edits + (a.length - i) + (b.length - j) <= 1;
+}
+
+// Positions of `term` in `text` where every character either follows the previous match or
+// starts a word, e.g. "cs2" in "Counter-Strike 2".
+function matchInitials(text: string, lower: string, term: string): number[] | null {
+  const failed = new Set<string>();
+  const positions: number[] = [];
+
+  const search = (termIndex: number, from: number): boolean => {
+    if (termIndex === term.length) return true;
+    const state = `${termIndex}:${from}`;
+    if (failed.has(state)) return false;
+    for (let i = from; i < lower.length; i++) {
+      if (lower[i] !== term[termIndex]) continue;
+      const continues = positions.length > 0 && positions[positions.length - 1] === i - 1;
+      if (!continues && !isWordStart(text, i)) continue;
+      positions.push(i);
+      if (search(termIndex + 1, i + 1)) return true;
+      positions.pop();
+    }
+    failed.add(state);
+    return false;
+  };
+
+  return search(0, 0) ? positions : null;
+}
+
+const positionsToRanges = (positions: number[]): MatchRange[] => {
+  const ranges: MatchRange[] = [];
+  for (const position of positions) {
+    const last = ranges[ranges.length - 1];
+    if (last && last[1] === position) last[1]++;
+    else ranges.push([position, position + 1]);
+  }
+  return ranges;
+};
+
+function matchText(
+  { text, lower }: { text: string; lower: string },
+  term: string,
+): { score: number; ranges: MatchRange[] } | null {
+  if (!lower) return null;
+
+  const index = lower.indexOf(term);
+  if (index !== -1) {
+    return {
+      score: isWordStart(text, index) ? 3 : 2,
+      ranges: [[index, index + term.length]],
+    };
+  }
+
+  // Numbers are matched exactly: "2024" shouldn't find 2025, nor "06-01" a file from 06-03.
+  if (!/\p{L}/u.test(term)) return null;
+
+  const initials = matchInitials(text, lower, term);
+  if (initials) return { score: 1.5, ranges: positionsToRanges(initials) };
+
+  if (term.length >= MIN_TYPO_LENGTH) {
+    for (const word of lower.matchAll(/[\p{L}\p{N}]+/gu)) {
+      // Compare against the start of longer words too, so a half-typed word still matches.
+      if (
+        levenshteinAtMostOne(word[0], term) ||
+        levenshteinAtMostOne(word[0].slice(0, term.length), term)
+      ) {
+        return { score: 1, ranges: [[word.index, word.index + word[0].length]] };
+      }
+    }
+  }
+
+  return null;
+}
+
+const matchWordList = (words: string[], term: string) =>
+  words.some((word) => word === term || (term.length >= 3 && word.startsWith(term)));
+
+// Start and end of the day (or month, or year) a date filter refers to, in local time.
+function parseDateRange(value: string, now = new Date()): [number, number] | null {
+  const startOfDay = (date: Date) =>
+    new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+  const day = (start: number): [number, number] => {
+    const end = new Date(start);
+    end.setDate(end.getDate() + 1);
+    return [start, end.getTime()];
+  };
+
+  if (value === 'today') return day(startOfDay(now));
+  if (value === 'yesterday') {
+    const date = new Date(now);
+    date.setDate(date.getDate() - 1);
+    return day(startOfDay(date));
+  }
+
+  // The most recent such weekday, today included.
+  const weekday = WEEKDAYS.findIndex((name) => value.length >= 3 && name.startsWith(value));
+  if (weekday !== -1) {
+    const date = new Date(now);
+    date.setDate(date.getDate() - ((date.getDay() - weekday + 7) % 7));
+    return day(startOfDay(date));
+  }
+
+  const match = /^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/.exec(value);
+  if (!match) return null;
+  const [, year, month, date] = match.map(Number);
+  if (date) return day(new Date(year, month - 1, date).getTime());
+  if (month) return [new Date(year, month - 1, 1).getTime(), new Date(year, month, 1).getTime()];
+  return [new Date(year, 0, 1).getTime(), new Date(year + 1, 0, 1).getTime()];
+}
+
+export function parseSearchQuery(query: string): SearchQuery {
+  const parts: QueryPart[] = [];
+  const invalid: string[] = [];
+
+  for (const token of query.matchAll(/(-)?(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi)) {
+    const [raw, minus, key, quoted, bare] = token;
+    const value = (quoted ?? bare ?? '').trim().toLowerCase();
+    const filterKey = FILTER_KEYS.find((k) => k === key?.toLowerCase()) ?? null;
+
+    if (key && !filterKey) {
+      // Not a filter, so search for the whole thing, e.g. "de_dust2:b". Quotes only group the
+      // words, so map:"de dust" looks for "map:de dust".
+      parts.push({ key: null, value: `${key.toLowerCase()}:${value}`, negated: !!minus });
+      continue;
+    }
+    if (!value) continue;
+
+    const isValid =
+      filterKey === 'type'
+        ? Object.keys(TYPE_ALIASES).some((alias) => value.startsWith(alias))
+        : filterKey === 'has'
+          ? !!hasFlag(value) || matchWordList(BOOKMARK_WORDS, singular(value))
+          : filterKey === 'on' || filterKey === 'before' || filterKey === 'after'
+            ? parseDateRange(value) !== null
+            : true;
+    if (!isValid) {
+      invalid.push(raw);
+      continue;
+    }
+
+    parts.push({ key: filterKey, value, negated: !!minus });
+  }
+
+  return { parts, invalid };
+}
+
+export const isEmptySearchQuery = (query: SearchQuery) => query.parts.length === 0;
+
+const addRanges = (match: ContentSearchMatch, field: SearchField, ranges: MatchRange[]) => {
+  match.ranges[field] = [...(match.ranges[field] ?? []), ...ranges];
+};
+
+// Whether the item was recorded within the day (or month, or year) `value` names.
+const matchDay = (indexed: IndexedContent, value: string) => {
+  const [start, end] = parseDateRange(value)!;
+  return indexed.createdAt >= start && indexed.createdAt < end;
+};
+
+// Score of one part against one item, recording highlight ranges in `match`. 0 means no match.
+function matchPart(
+  item: Content,
+  indexed: IndexedContent,
+  part: QueryPart,
+  match: ContentSearchMatch,
+) {
+  const { key, value } = part;
+
+  const matchField = (field: SearchField, weight: number) => {
+    const result = matchText(indexed.fields[field], value);
+    if (!result) return 0;
+    if (!part.negated) addRanges(match, field, result.ranges);
+    return result.score * weight;
+  };
+
+  switch (key) {
+    case 'game':
+      return matchField('game', 1);
+    case 'title':
+      return matchField('title', 1);
+    case 'file':
+      return matchField('fileName', 1);
+    case 'type': {
+      const alias = Object.keys(TYPE_ALIASES).find((a) => value.startsWith(a))!;
+      return item.type === TYPE_ALIASES[alias] ? 1 : 0;
+    }
+    case 'has': {
+      const flag = hasFlag(value);
+      if (flag) return HAS_FLAGS[flag](item) ? 1 : 0;
+      return matchWordList(indexed.bookmarkWords, singular(value)) ? 1 : 0;
+    }
+    case 'tag':
+      return matchWordList(indexed.tags, value) ? 1 : 0;
+    case 'on':
+    case 'before':
+    case 'after': {
+      if (key === 'on') return matchDay(indexed, value) ? 1 : 0;
+      const [start, end] = parseDateRange(value)!;
+      const inRange = key === 'before' ? indexed.createdAt < start : indexed.createdAt >= end;
+      return inRange ? 1 : 0;
+    }
+    case null: {
+      // Every field is tried so all of them get highlighted, but the best one scores.
+      const scores = [
+        matchField('title', 1),
+        matchField('game', 0.9),
+        matchField('fileName', 0.6),
+        matchWordList(indexed.bookmarkWords, singular(value)) ? 1.4 : 0,
+        matchWordList(indexed.tags, value) ? 1.4 : 0,
+        matchWordList(indexed.dateWords, value) ? 1.4 : 0,
+        // today and yesterday move, so they can't be indexed like weekday names
+        (value === 'today' || value === 'yesterday') && matchDay(indexed, value) ? 1.4 : 0,
+      ];
+      return Math.max(...scores);
+    }
+  }
+}
+
+// Items matching every part of the query, keyed by id, with a relevance score and the spans to
+// highlight. Items missing from the map didn't match.
+export function searchContent(
+  items: Content[],
+  query: SearchQuery,
+): Map<string, ContentSearchMatch> {
+  const results = new Map<string, ContentSearchMatch>();
+
+  for (const item of items) {
+    const indexed = indexContent(item);
+    const match: ContentSearchMatch = { score: 0, ranges: {} };
+    let matchesAll = true;
+
+    for (const part of query.parts) {
+      const score = matchPart(item, indexed, part, match);
+      if (part.negated ? score > 0 : score === 0) {
+        matchesAll = false;
+        break;
+      }
+      match.score += score;
+    }
+
+    if (matchesAll) results.set(item.id, match);
+  }
+
+  return results;
+}
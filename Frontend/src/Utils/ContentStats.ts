@@ -0,0 +1,187 @@
+import { BookmarkSubtype, BookmarkType, Content } from '../Models/types';
+import { dayKey, groupByDay, playedOnDay } from './ContentCalendar';
+import { durationToSeconds } from './ContentFacets';
+
+// Aggregates for the stats page. Playtime and combat stats count what was played, by the same
+// rule as the calendar's playtime, so bookmarks copied into clips aren't counted twice.
+
+// Local day keys, inclusive. null leaves that end open.
+export interface DateRange {
+  from: string | null;
+  to: string | null;
+}
+
+export interface CombatStats {
+  kills: number;
+  deaths: number;
+  assists: number;
+  headshots: number;
+}
+
+export interface GameStats {
+  game: string;
+  // Full sessions only; replay buffers add playtime but aren't sessions.
+  sessions: number;
+  playtimeSeconds: number;
+  combat: CombatStats;
+}
+
+export type BucketSize = 'week' | 'month';
+
+// One column of a chart over time: a week starting on Monday, or a calendar month.
+export interface TimeBucket {
+  key: string;
+  start: Date;
+}
+
+export interface PlaytimeBucket extends TimeBucket {
+  totalSeconds: number;
+  secondsByGame: Record<string, number>;
+}
+
+export interface CountBucket extends TimeBucket {
+  count: number;
+}
+
+export interface ClipCount {
+  game: string;
+  count: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Ranges longer than this chart playtime by month, so the columns stay readable.
+const MAX_WEEKLY_RANGE_DAYS = 120;
+// Session counts are single columns, so they stay weekly for longer.
+export const MAX_WEEKLY_SESSION_RANGE_DAYS = 366;
+
+export function filterByDateRange(items: Content[], { from, to }: DateRange): Content[] {
+  if (!from && !to) return items;
+  return items.filter((item) => {
+    const key = dayKey(new Date(item.createdAt));
+    return (!from || key >= from) && (!to || key <= to);
+  });
+}
+
+export function playedItems(items: Content[]): Content[] {
+  return [...groupByDay(items).values()].flatMap((day) => playedOnDay(day.items));
+}
+
+export function combatStats(items: Content[]): CombatStats {
+  const stats: CombatStats = { kills: 0, deaths: 0, assists: 0, headshots: 0 };
+  for (const item of items) {
+    for (const bookmark of item.bookmarks) {
+      if (bookmark.type === BookmarkType.Kill) {
+        stats.kills++;
+        if (bookmark.subtype === BookmarkSubtype.Headshot) stats.headshots++;
+      } else if (bookmark.type === BookmarkType.Death) stats.deaths++;
+      else if (bookmark.type === BookmarkType.Assist) stats.assists++;
+    }
+  }
+  return stats;
+}
+
+export const hasCombat = ({ kills, deaths, assists }: CombatStats) => kills + deaths + assists > 0;
+
+// A deathless session's ratio is its kills, the way games show it.
+export const kdRatio = ({ kills, deaths }: CombatStats) => kills / Math.max(1, deaths);
+
+export const kdaRatio = ({ kills, deaths, assists }: CombatStats) =>
+  (kills + assists) / Math.max(1, deaths);
+
+// null without kills, where there's nothing to compare to.
+export const headshotRate = ({ kills, headshots }: CombatStats) =>
+  kills > 0 ? headshots / kills : null;
+
+// Most played first.
+export function statsByGame(played: Content[]): GameStats[] {
+  const games = new Map<string, Content[]>();
+  for (const item of played) {
+    const items = games.get(item.game);
+    if (items) items.push(item);
+    else games.set(item.game, [item]);
+  }
+  return [...games]
+    .map(([game, items]) => ({
+      game,
+      sessions: items.filter((item) => item.type === 'Session').length,
+      playtimeSeconds: items.reduce((sum, item) => sum + durationToSeconds(item.duration), 0),
+      combat: combatStats(items),
+    }))
+    .sort((a, b) => b.playtimeSeconds - a.playtimeSeconds);
+}
+
+// Clips and highlights, most first.
+export function clipsByGame(items: Content[]): ClipCount[] {
+  const games = new Map<string, ClipCount>();
+  for (const item of items) {
+    if (item.type !== 'Clip' && item.type !== 'Highlight') continue;
+    const entry = games.get(item.game) ?? { game: item.game, count: 0 };
+    entry.count++;
+    games.set(item.game, entry);
+  }
+  return [...games.values()].sort((a, b) => b.count - a.count || a.game.localeCompare(b.game));
+}
+
+export const bucketSizeFor = (
+  start: Date,
+  end: Date,
+  maxWeeklyDays = MAX_WEEKLY_RANGE_DAYS,
+): BucketSize => ((end.getTime() - start.getTime()) / DAY_MS <= maxWeeklyDays ? 'week' : 'month');
+
+const bucketStart = (date: Date, size: BucketSize) =>
+  size === 'week'
+    ? new Date(date.getFullYear(), date.getMonth(), date.getDate() - ((date.getDay() + 6) % 7))
+    : new Date(date.getFullYear(), date.getMonth(), 1);
+
+// Every bucket from start to end, empty ones included, so gaps show as gaps.
+export function timeBuckets(start: Date, end: Date, size: BucketSize): TimeBucket[] {
+  const buckets: TimeBucket[] = [];
+  const last = bucketStart(end, size);
+  for (let date = bucketStart(start, size); date <= last;) {
+    buckets.push({ key: dayKey(date), start: date });
+    date =
+      size === 'week'
+        ? new Date(date.getFullYear(), date.getMonth(), date.getDate() + 7)
+        : new Date(date.getFullYear(), date.getMonth() + 1, 1);
+  }
+  return buckets;
+}
+
+export function playtimeOverTime(
+  played: Content[],
+  start: Date,
+  end: Date,
+  size: BucketSize,
+): PlaytimeBucket[] {
+  const buckets = timeBuckets(start, end, size).map((bucket) => ({
+    ...bucket,
+    totalSeconds: 0,
+    secondsByGame: {} as Record<string, number>,
+  }));
+  const byKey = new Map(buckets.map((bucket) => [bucket.key, bucket]));
+  for (const item of played) {
+    const bucket = byKey.get(dayKey(bucketStart(new Date(item.createdAt), size)));
+    if (!bucket) continue;
+    const seconds = durationToSeconds(item.duration);
+    bucket.totalSeconds += seconds;
+    bucket.secondsByGame[item.game] = (bucket.secondsByGame[item.game] ?? 0) + seconds;
+  }
+  return buckets;
+}
+
+export function sessionsOverTime(
+  items: Content[],
+  start: Date,
+  end: Date,
+  size: BucketSize,
+): CountBucket[] {
+  const buckets = timeBuckets(start, end, size).map((bucket) => ({ ...bucket, count: 0 }));
+  const byKey = new Map(buckets.map((bucket) => [bucket.key, bucket]));
+  for (const item of items) {
+    if (item.type !== 'Session') continue;
+    const bucket = byKey.get(dayKey(bucketStart(new Date(item.createdAt), size)));
+    if (bucket) bucket.count++;
+  }
+  return buckets;
+}
@@ -0,0 +1,33 @@
+import { Content } from '../Models/types';
+
+// Free-form labels users put on content, e.g. "tournament" or "for-edit". The backend stores
+// them normalized (Content.NormalizeTag in Backend/Core/Models/Settings.cs); this mirrors it so
+// editors show a tag the way it will be saved.
+
+export const MAX_TAG_LENGTH = 32;
+
+export function normalizeTag(tag: string): string {
+  const normalized = tag.replace(/,/g, ' ').trim().split(/\s+/).join(' ').toLowerCase();
+  return normalized.slice(0, MAX_TAG_LENGTH).trimEnd();
+}
+
+// Tags typed into a tag input, which accepts several separated by commas.
+export const parseTagInput = (input: string) => [
+  ...new Set(input.split(',').map(normalizeTag).filter(Boolean)),
+];
+
+export interface TagUsage {
+  tag: string;
+  count: number;
+}
+
+// Every tag on the given items with how many carry it, most used first.
+export function countTags(items: Content[]): TagUsage[] {
+  const counts = new Map<string, number>();
+  for (const item of items) {
+    for (const tag of item.tags) counts.set(tag, (counts.get(tag) ?? 0) + 1);
+  }
+  return [...counts]
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
@@ -0,0 +1,37 @@
+// Stand-in for the desktop host's window.external.sendMessage, so `npm run dev` works in a
+// plain browser against the simulator (`npm run simulator`). Commands travel over their own
+// WebSocket; the simulator recognizes it by ?role=external and never sends it backend messages.
+export function installDevBackendShim() {
+  const external = (window as any).external;
+  if (external && typeof external.sendMessage === 'function') return;
+
+  let socket: WebSocket | null = null;
+  const pending: string[] = [];
+
+  const connect = () => {
+    socket = new WebSocket('ws://localhost:44030/?role=external');
+    socket.onopen = () => {
+      pending.splice(0).forEach((message) => socket?.send(message));
+    };
+    socket.onclose = () => {
+      socket = null;
+      setTimeout(connect, 3000);
+    };
+  };
+  connect();
+
+  const sendMessage = (message: string) => {
+    if (socket?.readyState === WebSocket.OPEN) {
+      socket.send(message);
+    } else {
+      pending.push(message);
+    }
+  };
+
+  if (external) {
+    external.sendMessage = sendMessage;
+  } else {
+    (window as any).external = { sendMessage };
+  }
+  console.log('Running outside the desktop host; sending commands to the simulator');
+}
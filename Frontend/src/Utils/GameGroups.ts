@@ -0,0 +1,33 @@
+import { BookmarkType, Content } from '../Models/types';
+import { durationToSeconds } from './ContentFacets';
+
+// A page's items for one game, with the totals shown in its header.
+export interface GameGroup {
+  game: string;
+  items: Content[];
+  durationSeconds: number;
+  sizeKb: number;
+  bookmarkCounts: Partial<Record<BookmarkType, number>>;
+  // igdbId from any of the items, for looking up the game's icon.
+  igdbId?: number;
+}
+
+// Groups in game-name order; items keep the order they were given in.
+export function groupByGame(items: Content[]): GameGroup[] {
+  const groups = new Map<string, GameGroup>();
+  for (const item of items) {
+    let group = groups.get(item.game);
+    if (!group) {
+      group = { game: item.game, items: [], durationSeconds: 0, sizeKb: 0, bookmarkCounts: {} };
+      groups.set(item.game, group);
+    }
+    group.items.push(item);
+    group.durationSeconds += durationToSeconds(item.duration);
+    group.sizeKb += item.fileSizeKb || 0;
+    group.igdbId ??= item.igdbId;
+    for (const bookmark of item.bookmarks) {
+      group.bookmarkCounts[bookmark.type] = (group.bookmarkCounts[bookmark.type] ?? 0) + 1;
+    }
+  }
+  return [...groups.values()].sort((a, b) => a.game.localeCompare(b.game));
+}
@@ -0,0 +1,104 @@
+import type { GridHitTest } from '../Hooks/useVirtualGrid';
+
+// Moving keyboard focus through a page's grids. A page shows one grid, or one per game when
+// grouped, and focus flows from one into the next as if they were a single list.
+
+// A mounted grid, registered with its page for marquee selection and keyboard focus.
+export interface GridSection {
+  // Cells in grid order; null for cells that aren't items, like the progress card.
+  ids: (string | null)[];
+  columns: number;
+  hitTest: GridHitTest;
+  // Scrolls just far enough to show the cell, for following focus.
+  scrollToIndex: (index: number) => void;
+}
+
+export type GridMove = 'left' | 'right' | 'up' | 'down' | 'first' | 'last';
+
+export const GRID_MOVE_KEYS: Record<string, GridMove> = {
+  ArrowLeft: 'left',
+  ArrowRight: 'right',
+  ArrowUp: 'up',
+  ArrowDown: 'down',
+  Home: 'first',
+  End: 'last',
+};
+
+export interface GridPosition {
+  section: number;
+  index: number;
+}
+
+export function findInSections(sections: GridSection[], id: string): GridPosition | null {
+  for (const [section, { ids }] of sections.entries()) {
+    const index = ids.indexOf(id);
+    if (index >= 0) return { section, index };
+  }
+  return null;
+}
+
+// Item ids of every section in order, for selecting a range with Shift.
+export const sectionItemIds = (sections: GridSection[]) =>
+  sections.flatMap(({ ids }) => ids.filter((id): id is string => id !== null));
+
+// Where focus lands after a move, or null to stay put. Left and right wrap between rows and
+// sections; up and down keep the column, landing on the nearest item in a shorter row.
+export function moveInSections(
+  sections: GridSection[],
+  from: GridPosition,
+  move: GridMove,
+): GridPosition | null {
+  const items = (position: GridPosition | null, step: number): GridPosition | null => {
+    // Skips cells that aren't items in the direction of travel.
+    while (position && sections[position.section].ids[position.index] === null) {
+      position = step > 0 ? next(position) : previous(position);
+    }
+    return position;
+  };
+  const next = ({ section, index }: GridPosition): GridPosition | null => {
+    if (index + 1 < sections[section].ids.length) return { section, index: index + 1 };
+    return section + 1 < sections.length ? { section: section + 1, index: 0 } : null;
+  };
+  const previous = ({ section, index }: GridPosition): GridPosition | null => {
+    if (index > 0) return { section, index: index - 1 };
+    return section > 0
+      ? { section: section - 1, index: sections[section - 1].ids.length - 1 }
+      : null;
+  };
+
+  const { ids, columns } = sections[from.section];
+  const column = from.index % columns;
+  switch (move) {
+    case 'left':
+      return items(previous(from), -1);
+    case 'right':
+      return items(next(from), 1);
+    case 'first':
+      return items({ section: 0, index: 0 }, 1);
+    case 'last': {
+      const section = sections.length - 1;
+      return items({ section, index: sections[section].ids.length - 1 }, -1);
+    }
+    case 'up': {
+      if (from.index - columns >= 0) return items({ ...from, index: from.index - columns }, -1);
+      if (from.section === 0) return null;
+      const above = sections[from.section - 1];
+      const lastRowStart = Math.floor((above.ids.length - 1) / above.columns) * above.columns;
+      const index = Math.min(lastRowStart + column, above.ids.length - 1);
+      return items({ section: from.section - 1, index }, -1);
+    }
+    case 'down': {
+      if (from.index + columns < ids.length) {
+        return items({ ...from, index: from.index + columns }, 1);
+      }
+      // From the second-last row into a shorter last row, land on its last item.
+      const lastRow = Math.floor((ids.length - 1) / columns);
+      if (Math.floor(from.index / columns) < lastRow) {
+        return items({ ...from, index: ids.length - 1 }, -1);
+      }
+      if (from.section + 1 >= sections.length) return null;
+      const below = sections[from.section + 1];
+      return items({ section: from.section + 1, index: Math.min(column, below.ids.length - 1) }, 1);
+    }
+  }
+}
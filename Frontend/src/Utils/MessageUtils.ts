@@ -1,9 +1,126 @@
-export const sendMessageToBackend = (method: string, parameters?: any) => {
-  const message = { Method: method, Parameters: parameters };
-  if ((window as any).external && typeof (window as any).external.sendMessage === 'function') {
-    const messageString = JSON.stringify(message);
-    (window as any).external.sendMessage(messageString);
+import {
+  BackendCommand,
+  BackendCommandArgs,
+  BackendCommandMap,
+  BackendResult,
+  CommandAckMessage,
+  CommandResultMessage,
+} from '../Models/WebSocketMessages';
+import { subscribeToBackendMessage } from './BackendMessageBus';
+import { dispatchCommand } from './CommandQueue';
+
+// Held in the command queue while the backend is disconnected; see CommandQueue.ts.
+export const sendMessageToBackend = <M extends BackendCommand>(
+  method: M,
+  ...[parameters]: BackendCommandArgs<M>
+) => {
+  dispatchCommand(method, { Method: method, Parameters: parameters });
+};
+
+export type RpcErrorCode = 'unavailable' | 'timeout' | 'failed';
+
+// Rejection reason for rpc(). `message` is the backend's explanation when code is 'failed'.
+export class RpcError extends Error {
+  constructor(
+    readonly method: BackendCommand,
+    readonly code: RpcErrorCode,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'RpcError';
+  }
+}
+
+export interface RpcOptions {
+  // How long the backend has to acknowledge the command before it counts as lost.
+  ackTimeoutMs?: number;
+  // How long the handler has to finish once acknowledged.
+  timeoutMs?: number;
+}
+
+interface PendingRequest {
+  method: BackendCommand;
+  timeoutMs: number;
+  timer: ReturnType<typeof setTimeout>;
+  resolve: (result: unknown) => void;
+  reject: (error: RpcError) => void;
+}
+
+const pendingRequests = new Map<string, PendingRequest>();
+let requestCounter = 0;
+let listening = false;
+
+const expire = (requestId: string, reason: string) => {
+  const request = pendingRequests.get(requestId);
+  if (!request) return;
+  pendingRequests.delete(requestId);
+  request.reject(new RpcError(request.method, 'timeout', reason));
+};
+
+const handleAck = ({ requestId }: CommandAckMessage) => {
+  const request = pendingRequests.get(requestId);
+  if (!request) return;
+
+  clearTimeout(request.timer);
+  request.timer = setTimeout(
+    () => expire(requestId, `${request.method} did not finish in time.`),
+    request.timeoutMs,
+  );
+};
+
+const handleResult = ({ requestId, success, result, error }: CommandResultMessage) => {
+  const request = pendingRequests.get(requestId);
+  if (!request) return;
+
+  clearTimeout(request.timer);
+  pendingRequests.delete(requestId);
+  if (success) {
+    request.resolve(result ?? undefined);
   } else {
-    console.error('window.external.sendMessage is not available.');
+    request.reject(new RpcError(request.method, 'failed', error || `${request.method} failed.`));
+  }
+};
+
+// Sends a command and resolves with its result, or rejects with an RpcError when the backend
+// reports a failure or stops answering. Replies come back over the WebSocket, so this only
+// settles while WebSocketProvider is mounted. While the backend is disconnected the command
+// waits in the queue for up to a minute, rejecting as unavailable if it's still there; the ack
+// timeout only starts once it has actually been sent.
+export const rpc = <M extends BackendCommand>(
+  method: M,
+  parameters: BackendCommandMap[M] extends void ? undefined : BackendCommandMap[M],
+  { ackTimeoutMs = 5000, timeoutMs = 30000 }: RpcOptions = {},
+): Promise<BackendResult<M>> => {
+  if (!listening) {
+    subscribeToBackendMessage('CommandAck', handleAck);
+    subscribeToBackendMessage('CommandResult', handleResult);
+    listening = true;
   }
+
+  return new Promise<BackendResult<M>>((resolve, reject) => {
+    const requestId = `${Date.now().toString(36)}-${++requestCounter}`;
+    dispatchCommand(
+      method,
+      { Method: method, Parameters: parameters, RequestId: requestId },
+      (sent) => {
+        if (!sent) {
+          reject(new RpcError(method, 'unavailable', 'The backend is not available.'));
+          return;
+        }
+        pendingRequests.set(requestId, {
+          method,
+          timeoutMs,
+          timer: setTimeout(
+            () => expire(requestId, `${method} was not acknowledged by the backend.`),
+            ackTimeoutMs,
+          ),
+          resolve: resolve as (result: unknown) => void,
+          reject,
+        });
+      },
+    );
+  });
 };
+
+export const rpcErrorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
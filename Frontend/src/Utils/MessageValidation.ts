@@ -0,0 +1,127 @@
+// Small runtime validators for backend payloads. Each validator returns null when the value
+// matches, or a short description of the first mismatch (with its path) when it does not.
+// Only validItems changes the value, by removing the items it rejects.
+// The phantom type parameter ties a validator to the TypeScript type it checks, so `object<T>`
+// refuses to compile when a field of T is missing from the schema or checked as the wrong type.
+// It is never set. T appears as both parameter and result, which makes Validator<T> assignable
+// only to Validator<T>; a Validator<string> can't stand in for a field typed string | undefined.
+export type Validator<T> = ((value: unknown, path: string) => string | null) & {
+  readonly __type?: (value: T) => T;
+};
+
+const describe = (value: unknown): string =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+const primitive =
+  <T>(expected: string): Validator<T> =>
+  (value, path) =>
+    typeof value === expected ? null : `${path}: expected ${expected}, got ${describe(value)}`;
+
+export const string = primitive<string>('string');
+export const number = primitive<number>('number');
+export const boolean = primitive<boolean>('boolean');
+
+// Accepts anything; for fields typed `unknown`, whose shape the frontend does not depend on.
+export const unknown: Validator<unknown> = () => null;
+
+export const literal =
+  <T extends string>(...values: T[]): Validator<T> =>
+  (value, path) =>
+    values.includes(value as T)
+      ? null
+      : `${path}: expected one of ${values.join(', ')}, got ${JSON.stringify(value)}`;
+
+// The backend serializes missing values as null, so optional fields accept null as well.
+export const maybe =
+  <T>(validator: Validator<T>): Validator<T | undefined> =>
+  (value, path) =>
+    value === undefined || value === null ? null : validator(value, path);
+
+export const nullable =
+  <T>(validator: Validator<T>): Validator<T | null> =>
+  (value, path) =>
+    value === null ? null : validator(value, path);
+
+export const array =
+  <T>(item: Validator<T>): Validator<T[]> =>
+  (value, path) => {
+    if (!Array.isArray(value)) return `${path}: expected array, got ${describe(value)}`;
+    for (let i = 0; i < value.length; i++) {
+      const error = item(value[i], `${path}[${i}]`);
+      if (error) return error;
+    }
+    return null;
+  };
+
+// Like array, but an item that doesn't match is logged and removed from the array instead of
+// failing the whole value. For lists where one bad entry shouldn't cost the rest, such as the
+// content library, where each item comes from its own metadata file.
+export const validItems =
+  <T>(item: Validator<T>): Validator<T[]> =>
+  (value, path) => {
+    if (!Array.isArray(value)) return `${path}: expected array, got ${describe(value)}`;
+    for (let i = value.length - 1; i >= 0; i--) {
+      const error = item(value[i], `${path}[${i}]`);
+      if (error) {
+        console.warn('Dropped malformed item:', error, value[i]);
+        value.splice(i, 1);
+      }
+    }
+    return null;
+  };
+
+export const record =
+  <T>(item: Validator<T>): Validator<Record<string, T>> =>
+  (value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return `${path}: expected object, got ${describe(value)}`;
+    }
+    for (const [key, entry] of Object.entries(value)) {
+      const error = item(entry, `${path}.${key}`);
+      if (error) return error;
+    }
+    return null;
+  };
+
+type Fields<T> = { [K in keyof T]-?: Validator<T[K]> };
+
+const checkFields = (
+  fields: Partial<Record<string, Validator<unknown>>>,
+  value: unknown,
+  path: string,
+): string | null => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return `${path}: expected object, got ${describe(value)}`;
+  }
+  for (const [key, validator] of Object.entries(fields)) {
+    const error = validator?.((value as Record<string, unknown>)[key], `${path}.${key}`);
+    if (error) return error;
+  }
+  return null;
+};
+
+// Every field of T must be listed. Unknown extra fields from the backend are allowed.
+export const object =
+  <T>(fields: Fields<T>): Validator<T> =>
+  (value, path) =>
+    checkFields(fields as Record<string, Validator<unknown>>, value, path);
+
+// Only the listed fields are checked; for objects where the frontend reads a few fields.
+export const partial =
+  <T>(fields: Partial<Fields<T>>): Validator<T> =>
+  (value, path) =>
+    checkFields(fields as Record<string, Validator<unknown>>, value, path);
+
+// For payloads merged into existing state (Settings, State), where a field the backend leaves
+// out keeps its previous value. Listed fields are checked when present.
+export const merged =
+  <T>(fields: Partial<Fields<T>>): Validator<Partial<T>> =>
+  (value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return `${path}: expected object, got ${describe(value)}`;
+    }
+    const present = Object.entries(fields as Record<string, Validator<unknown>>).filter(
+      ([key]) => key in value,
+    );
+    return checkFields(Object.fromEntries(present), value, path);
+  };
@@ -0,0 +1,34 @@
+import { Content } from '../Models/types';
+import { dayKey } from './ContentCalendar';
+
+// Titles built from a template for renaming several items at once, e.g. "{game} #{n}" gives
+// "Valorant #1", "Valorant #2", ... in the order the items were selected.
+
+export const RENAME_TOKENS: { token: string; description: string }[] = [
+  { token: '{title}', description: 'Current title' },
+  { token: '{game}', description: 'Game' },
+  { token: '{type}', description: 'Clip, Highlight, Session or Buffer' },
+  { token: '{date}', description: 'Recording date, e.g. 2025-06-03' },
+  { token: '{time}', description: 'Recording time, e.g. 21.45' },
+  { token: '{n}', description: 'Position in the selection, from 1' },
+];
+
+// Characters Windows doesn't allow in file names, which titles may become.
+export const INVALID_TITLE_CHARS = /[<>:"/\\|?*]/;
+
+export function applyRenameTemplate(template: string, item: Content, index: number): string {
+  const created = new Date(item.createdAt);
+  const values: Record<string, string> = {
+    title: item.title || '',
+    game: item.game,
+    type: item.type,
+    date: dayKey(created),
+    time: `${String(created.getHours()).padStart(2, '0')}.${String(created.getMinutes()).padStart(2, '0')}`,
+    n: String(index + 1),
+  };
+  return template
+    .replace(/\{(\w+)\}/g, (match, name: string) => values[name.toLowerCase()] ?? match)
+    .split(/\s+/)
+    .join(' ')
+    .trim();
+}
@@ -0,0 +1,72 @@
+import { Content, SavedSearch, SortOption } from '../Models/types';
+import { isEmptySearchQuery, parseSearchQuery, searchContent } from './ContentSearch';
+import {
+  FacetSelection,
+  applyFacets,
+  filterByGames,
+  sanitizeFacetSelection,
+  visibleFacetSelection,
+} from './ContentFacets';
+
+// What a content page is currently showing, in the shape a saved search stores it.
+export interface SearchCriteria {
+  query: string;
+  games: string[];
+  facets: FacetSelection;
+  sort: SortOption;
+}
+
+export const hasSearchCriteria = ({ query, games, facets }: SearchCriteria) =>
+  query.trim() !== '' || games.length > 0 || Object.values(facets).some((v) => v?.length);
+
+const normalizeFacets = (facets: FacetSelection) =>
+  Object.fromEntries(
+    Object.entries(facets)
+      .filter(([, values]) => values && values.length > 0)
+      .map(([key, values]) => [key, [...values!].sort()])
+      .sort(([a], [b]) => String(a).localeCompare(String(b))),
+  );
+
+export const sameSearchCriteria = (a: SearchCriteria, b: SearchCriteria) =>
+  a.query.trim() === b.query.trim() &&
+  a.sort === b.sort &&
+  [...a.games].sort().join('\n') === [...b.games].sort().join('\n') &&
+  JSON.stringify(normalizeFacets(a.facets)) === JSON.stringify(normalizeFacets(b.facets));
+
+export const savedSearchCriteria = (search: SavedSearch): SearchCriteria => ({
+  query: search.query,
+  games: search.games,
+  facets: sanitizeFacetSelection(search.facets),
+  sort: search.sort,
+});
+
+export const createSavedSearch = (
+  name: string,
+  contentType: SavedSearch['contentType'],
+  criteria: SearchCriteria,
+): SavedSearch => ({
+  id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  name,
+  contentType,
+  query: criteria.query.trim(),
+  games: criteria.games,
+  facets: normalizeFacets(criteria.facets),
+  sort: criteria.sort,
+  visible: true,
+});
+
+// Items a saved search shows, the same way its page filters them (unsorted).
+export function matchSavedSearch(
+  content: Content[],
+  search: SavedSearch,
+  airplaneMode: boolean,
+): Content[] {
+  const items = content.filter((item) => item.type === search.contentType);
+  const query = parseSearchQuery(search.query);
+  const matches = isEmptySearchQuery(query) ? null : searchContent(items, query);
+  const searched = matches ? items.filter((item) => matches.has(item.id)) : items;
+  return applyFacets(
+    filterByGames(searched, search.games),
+    visibleFacetSelection(sanitizeFacetSelection(search.facets), airplaneMode),
+  );
+}
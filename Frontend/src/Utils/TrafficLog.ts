@@ -0,0 +1,188 @@
+import { parseBackendMessage } from '../Models/WebSocketMessages';
+import { publishBackendMessage } from './BackendMessageBus';
+
+// Recent backend traffic for the developer traffic inspector (Ctrl+Shift+D). Inbound messages
+// are recorded by WebSocketProvider and outbound commands by CommandQueue, so the log shows
+// exactly what crossed the wire. Binary preview frames are left out; they would push
+// everything else out of the buffer within minutes. Outside of development, messages are only
+// recorded while the inspector is open, so payloads don't pile up in memory for the session.
+
+export type TrafficDirection = 'in' | 'out';
+
+export interface TrafficEntry {
+  id: number;
+  direction: TrafficDirection;
+  method: string;
+  // Date.now() when the message was sent or received.
+  at: number;
+  payload: unknown;
+  // Why the message was dropped, for inbound messages that failed validation.
+  error?: string;
+  // Published by replayTraffic rather than received from the backend.
+  replayed?: boolean;
+}
+
+// Bumped whenever the export format changes.
+const EXPORT_VERSION = 1;
+const CAPACITY = 2000;
+// Where each message carries the user's login, so a capture can be attached to a bug report
+// without leaking it. Only these paths are masked; everything else is kept as sent.
+const SENSITIVE_PATHS: Record<string, string[][]> = {
+  Login: [
+    ['Parameters', 'accessToken'],
+    ['Parameters', 'refreshToken'],
+  ],
+  Settings: [
+    ['auth', 'jwt'],
+    ['auth', 'refreshToken'],
+  ],
+  // The frontend's settings include the session the backend last sent, so they go back out.
+  UpdateSettings: [
+    ['Parameters', 'auth', 'jwt'],
+    ['Parameters', 'auth', 'refreshToken'],
+  ],
+  DiscordLoginResult: [['accessToken'], ['refreshToken']],
+};
+const REDACTED = '-REDACTED-';
+
+// Ring buffer: `next` is where the next entry goes once the buffer is full.
+const buffer: TrafficEntry[] = [];
+let next = 0;
+let nextId = 1;
+let recording = true;
+let inspectorOpen = false;
+// Changes on every update, so useSyncExternalStore subscribers know to re-read.
+let version = 0;
+const listeners = new Set<() => void>();
+
+const notify = () => {
+  version++;
+  listeners.forEach((listener) => listener());
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// A copy of `value` with the field at `path` masked, or `value` itself if it has no such field.
+function redactPath(value: unknown, [key, ...rest]: string[]): unknown {
+  if (!isObject(value) || value[key] == null) return value;
+  return { ...value, [key]: rest.length > 0 ? redactPath(value[key], rest) : REDACTED };
+}
+
+const redact = (method: string, payload: unknown) =>
+  Object.prototype.hasOwnProperty.call(SENSITIVE_PATHS, method)
+    ? SENSITIVE_PATHS[method].reduce(redactPath, payload)
+    : payload;
+
+export function recordTraffic(entry: Omit<TrafficEntry, 'id' | 'at'>) {
+  if (!recording || !(inspectorOpen || import.meta.env.DEV)) return;
+  const stored = {
+    ...entry,
+    payload: redact(entry.method, entry.payload),
+    id: nextId++,
+    at: Date.now(),
+  };
+  if (buffer.length < CAPACITY) {
+    buffer.push(stored);
+  } else {
+    buffer[next] = stored;
+    next = (next + 1) % CAPACITY;
+  }
+  notify();
+}
+
+// Oldest first.
+export function getTrafficEntries(): TrafficEntry[] {
+  return [...buffer.slice(next), ...buffer.slice(0, next)];
+}
+
+export const getTrafficVersion = () => version;
+
+export function subscribeToTraffic(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function clearTraffic() {
+  buffer.length = 0;
+  next = 0;
+  notify();
+}
+
+export const isRecordingTraffic = () => recording;
+
+export function setRecordingTraffic(enabled: boolean) {
+  recording = enabled;
+  notify();
+}
+
+// Set by the inspector. In release builds, closing it pauses the capture but keeps what it holds.
+export function setTrafficInspectorOpen(open: boolean) {
+  inspectorOpen = open;
+}
+
+export function exportTraffic(entries: TrafficEntry[]): string {
+  return JSON.stringify(
+    { version: EXPORT_VERSION, exportedAt: new Date().toISOString(), entries },
+    null,
+    2,
+  );
+}
+
+// Reads a file written by exportTraffic. Throws with a readable message if it isn't one.
+export function importTraffic(text: string): TrafficEntry[] {
+  const data = JSON.parse(text);
+  if (data?.version !== EXPORT_VERSION || !Array.isArray(data.entries)) {
+    throw new Error('Not a traffic capture exported by this version of Segra.');
+  }
+  return data.entries.filter(
+    (entry: Partial<TrafficEntry>): entry is TrafficEntry =>
+      (entry.direction === 'in' || entry.direction === 'out') &&
+      typeof entry.method === 'string' &&
+      typeof entry.at === 'number',
+  );
+}
+
+// A replayed Settings message would otherwise sign the app in with the capture's masked tokens.
+function replayPayload({ method, payload }: TrafficEntry): unknown {
+  if (method !== 'Settings' || !isObject(payload)) return payload;
+  const withoutAuth = { ...payload };
+  delete withoutAuth.auth;
+  return withoutAuth;
+}
+
+// Publishes the captured inbound messages to the app again, spaced out as they originally
+// arrived (divided by `speed`). Outbound commands are not resent. Returns a function that
+// stops the replay. Replayed content deltas usually don't follow the live revision, so expect
+// AppStateContext to ask the backend for a resync afterwards.
+export function replayTraffic(
+  entries: TrafficEntry[],
+  { speed = 1, onDone }: { speed?: number; onDone?: () => void } = {},
+): () => void {
+  const inbound = entries.filter((entry) => entry.direction === 'in' && !entry.error);
+  const start = inbound[0]?.at ?? 0;
+  const timers = inbound.map((entry) =>
+    setTimeout(
+      () => {
+        const result = parseBackendMessage({ method: entry.method, content: replayPayload(entry) });
+        if (!result.ok) {
+          recordTraffic({ ...entry, replayed: true, error: result.error });
+          return;
+        }
+        recordTraffic({ ...entry, replayed: true });
+        publishBackendMessage(result.message);
+      },
+      (entry.at - start) / speed,
+    ),
+  );
+  const end = inbound[inbound.length - 1]?.at ?? start;
+  const done = setTimeout(() => onDone?.(), (end - start) / speed + 1);
+
+  return () => {
+    timers.forEach(clearTimeout);
+    clearTimeout(done);
+    onDone?.();
+  };
+}
@@ -0,0 +1,79 @@
+import type { UndoAction } from '../Context/UndoContext';
+import { rpc } from './MessageUtils';
+
+// Undo entries for library edits, each pairing a command with the one that reverses it.
+
+export interface TitleChange {
+  id: string;
+  from: string;
+  to: string;
+}
+
+export interface GameAssignment {
+  id: string;
+  game: string;
+  igdbId?: number;
+}
+
+const failIfAny = (failedIds: string[], total: number, verb: string) => {
+  if (failedIds.length > 0) {
+    throw new Error(
+      `Couldn't ${verb} ${failedIds.length} of ${total} items. They may be open in another program.`,
+    );
+  }
+};
+
+const renameAll = async (changes: TitleChange[], side: 'from' | 'to') => {
+  for (const change of changes) {
+    await rpc('RenameContent', { Id: change.id, Title: change[side] });
+  }
+};
+
+// Deleting moves to the recycle bin, so undoing restores from there.
+export const deleteContentAction = (ids: string[], label: string): UndoAction => ({
+  label,
+  destructive: true,
+  undo: async () => {
+    const { failedIds } = await rpc('RestoreFromRecycleBin', { Ids: ids }, { timeoutMs: 120000 });
+    failIfAny(failedIds, ids.length, 'restore');
+  },
+  redo: async () => {
+    const { failedIds } = await rpc('DeleteMultipleContent', { Ids: ids }, { timeoutMs: 120000 });
+    failIfAny(failedIds, ids.length, 'delete');
+  },
+});
+
+export const renameContentAction = (changes: TitleChange[], label: string): UndoAction => ({
+  label,
+  destructive: true,
+  undo: () => renameAll(changes, 'from'),
+  redo: () => renameAll(changes, 'to'),
+});
+
+// The items may have come from different games, so undoing sends one command per game.
+export const setContentGameAction = (
+  previous: GameAssignment[],
+  game: string,
+  igdbId: number | undefined,
+  label: string,
+): UndoAction => ({
+  label,
+  destructive: true,
+  undo: async () => {
+    const groups = new Map<string, GameAssignment[]>();
+    for (const item of previous) {
+      const key = `${item.game}\n${item.igdbId ?? ''}`;
+      groups.set(key, [...(groups.get(key) ?? []), item]);
+    }
+    for (const items of groups.values()) {
+      const { game, igdbId } = items[0];
+      await rpc('SetContentGame', {
+        Ids: items.map((item) => item.id),
+        Game: game,
+        IgdbId: igdbId,
+      });
+    }
+  },
+  redo: () =>
+    rpc('SetContentGame', { Ids: previous.map((item) => item.id), Game: game, IgdbId: igdbId }),
+});
@@ -11,6 +11,12 @@ import App from './App.tsx';
 import { SelectedVideoProvider } from './Context/SelectedVideoContext.tsx';
 import { SelectedMenuProvider } from './Context/SelectedMenuContext';
 import { AuthProvider, onSignOut } from './Hooks/useAuth.tsx';
+import { installDevBackendShim } from './Utils/DevBackendShim';
+
+// In a plain browser there is no desktop host; route commands to the simulator instead.
+if (import.meta.env.DEV) {
+  installDevBackendShim();
+}
 
 // Create a React Query client
 const queryClient = new QueryClient({
@@ -10,14 +10,21 @@ import { useClipping } from './Context/ClippingContext';
 import { useUpdate } from './Context/UpdateContext';
 import { useObsDownload } from './Context/ObsDownloadContext';
 import { useAiHighlights } from './Context/AiHighlightsContext';
+import { useBulkJobs } from './Context/BulkJobsContext';
+import { useWebSocketContext } from './Context/WebSocketContext';
 import UploadCard from './Components/UploadCard';
 import ImportCard from './Components/ImportCard';
 import ContentMigrationCard from './Components/ContentMigrationCard';
+import BulkJobCard from './Components/BulkJobCard';
 import ClippingCard from './Components/ClippingCard';
 import UpdateCard from './Components/UpdateCard';
 import UnavailableDeviceCard from './Components/UnavailableDeviceCard';
+import QueuedCommandsCard from './Components/QueuedCommandsCard';
+import ConnectionStatus from './Components/ConnectionStatus';
+import BackendActionTooltip from './Components/BackendActionTooltip';
 import AnimatedCard from './Components/AnimatedCard';
 import {
+  ChartColumn,
   Clapperboard,
   OctagonX,
   Settings,
@@ -25,12 +32,20 @@ import {
   Crown,
   Monitor,
   Play,
+  ListFilter,
   LucideIcon,
+  Trash2,
 } from 'lucide-react';
 import { AnimatePresence, motion } from 'framer-motion';
 import { useRef, useEffect, useLayoutEffect, useState, useMemo } from 'react';
 import Button from './Components/Button';
-import { MenuItemId, DEFAULT_MENU_ITEMS, menuItemHasContent } from './Models/types';
+import {
+  MenuItemId,
+  DEFAULT_MENU_ITEMS,
+  menuItemHasContent,
+  savedSearchMenuId,
+} from './Models/types';
+import { matchSavedSearch } from './Utils/SavedSearches';
 
 interface MenuProps {
   selectedMenu: string;
@@ -42,6 +57,8 @@ const MENU_ICONS: Record<MenuItemId, LucideIcon> = {
   'Replay Buffer': History,
   Clips: Clapperboard,
   Highlights: Crown,
+  Stats: ChartColumn,
+  'Recycle Bin': Trash2,
   Settings: Settings,
 };
 
@@ -53,6 +70,8 @@ export default function Menu({ selectedMenu, onSelectMenu }: MenuProps) {
   const { aiProgress } = useAiHighlights();
   const { obsDownloadProgress } = useObsDownload();
   const { migrations: contentMigrations, isMigrating } = useContentMigration();
+  const { jobs: bulkJobs } = useBulkJobs();
+  const { queuedCommandCount, unavailableReason } = useWebSocketContext();
   const [buttonCooldown, setButtonCooldown] = useState(false);
   // Only show the "Starting OBS" indicator once OBS has been starting for a while,
   // so a fast start doesn't cause a flash of the spinner.
@@ -80,8 +99,26 @@ export default function Menu({ selectedMenu, onSelectMenu }: MenuProps) {
     );
   }, [settings.menuItems, appState.content]);
 
+  // Saved searches follow the fixed items, each with a live count of what it matches.
+  const visibleSavedSearches = useMemo(
+    () =>
+      settings.savedSearches
+        .filter((search) => search.visible)
+        .map((search) => ({
+          menuId: savedSearchMenuId(search.id),
+          name: search.name,
+          count: matchSavedSearch(appState.content, search, settings.airplaneMode).length,
+        })),
+    [settings.savedSearches, settings.airplaneMode, appState.content],
+  );
+
   const computeIndicatorPosition = () => {
-    if (!visibleMenuItems.some((item) => item.id === selectedMenu)) return;
+    if (
+      !visibleMenuItems.some((item) => item.id === selectedMenu) &&
+      !visibleSavedSearches.some((search) => search.menuId === selectedMenu)
+    ) {
+      return;
+    }
     const rowEl = buttonRefs.current[selectedMenu];
     if (!rowEl) return;
     const buttonEl = rowEl.firstElementChild as HTMLElement | null;
@@ -99,7 +136,7 @@ export default function Menu({ selectedMenu, onSelectMenu }: MenuProps) {
     // offsetTop only at the end — this second pass corrects the indicator to match.
     const timeoutId = setTimeout(computeIndicatorPosition, 220);
     return () => clearTimeout(timeoutId);
-  }, [selectedMenu, visibleMenuItems]);
+  }, [selectedMenu, visibleMenuItems, visibleSavedSearches.length]);
 
   // Enable the slide transition only after the first paint, so the initial render
   // snaps the indicator to the correct row without animating from the default top.
@@ -185,12 +222,19 @@ export default function Menu({ selectedMenu, onSelectMenu }: MenuProps) {
               ) : (
                 <Button
                   variant="nav"
-                  className={isActive ? 'text-primary' : ''}
+                  className={`justify-between ${isActive ? 'text-primary' : ''}`}
                   disabled={isDisabled}
                   onMouseDown={() => onSelectMenu(id)}
                 >
-                  <Icon className="w-5 h-5" />
-                  {id}
+                  <span className="flex items-center gap-2">
+                    <Icon className="w-5 h-5" />
+                    {id}
+                  </span>
+                  {id === 'Recycle Bin' && appState.recycleBin.length > 0 && (
+                    <span className="text-xs text-gray-400 tabular-nums">
+                      {appState.recycleBin.length}
+                    </span>
+                  )}
                 </Button>
               );
 
@@ -211,6 +255,33 @@ export default function Menu({ selectedMenu, onSelectMenu }: MenuProps) {
               </motion.div>
             );
           })}
+          {visibleSavedSearches.map(({ menuId, name, count }) => (
+            <motion.div
+              key={menuId}
+              ref={(el) => {
+                buttonRefs.current[menuId] = el;
+              }}
+              layout
+              initial={{ opacity: 0, height: 0 }}
+              animate={{ opacity: 1, height: 'auto' }}
+              exit={{ opacity: 0, height: 0 }}
+              transition={{ duration: 0.2, ease: 'easeInOut' }}
+              className="overflow-hidden pb-2 last:pb-0"
+            >
+              <Button
+                variant="nav"
+                className={`justify-between ${selectedMenu === menuId ? 'text-primary' : ''}`}
+                disabled={isMigrating}
+                onMouseDown={() => onSelectMenu(menuId)}
+              >
+                <span className="flex items-center gap-2 min-w-0">
+                  <ListFilter className="w-5 h-5 shrink-0" />
+                  <span className="truncate">{name}</span>
+                </span>
+                <span className="text-xs text-gray-400 tabular-nums">{count}</span>
+              </Button>
+            </motion.div>
+          ))}
         </AnimatePresence>
       </div>
 
@@ -251,6 +322,22 @@ export default function Menu({ selectedMenu, onSelectMenu }: MenuProps) {
           ))}
         </AnimatePresence>
 
+        <AnimatePresence>
+          {bulkJobs.map((job) => (
+            <AnimatedCard key={job.id}>
+              <BulkJobCard job={job} />
+            </AnimatedCard>
+          ))}
+        </AnimatePresence>
+
+        <AnimatePresence>
+          {queuedCommandCount > 0 && (
+            <AnimatedCard key="queued-commands-card">
+              <QueuedCommandsCard count={queuedCommandCount} />
+            </AnimatedCard>
+          )}
+        </AnimatePresence>
+
         {/* Show warning if there are unavailable audio devices */}
         <AnimatePresence>
           {hasUnavailableDevices() && (
@@ -308,35 +395,41 @@ export default function Menu({ selectedMenu, onSelectMenu }: MenuProps) {
 
       {/* Start and Stop Buttons */}
       <div className="mb-4 px-4">
-        <div className="flex flex-col items-center z-50">
-          <Button
-            variant="primary"
-            className="w-full h-12"
-            disabled={
-              buttonCooldown ||
-              !appState.hasLoadedObs ||
-              (appState.recording && recording && recording.endTime !== null)
-            }
-            onClick={() => {
-              setButtonCooldown(true);
-              setTimeout(() => setButtonCooldown(false), 1000);
-              sendMessageToBackend(
-                appState.recording || appState.preRecording ? 'StopRecording' : 'StartRecording',
-              );
-            }}
-          >
-            {appState.recording || appState.preRecording ? (
-              <>
-                <OctagonX className="w-4 h-4" />
-                Stop
-              </>
-            ) : (
-              <>
-                <Monitor className="w-4 h-4" />
-                Display Capture
-              </>
-            )}
-          </Button>
+        <div className="flex flex-col items-center gap-2 z-50">
+          <BackendActionTooltip className="w-full">
+            <Button
+              variant="primary"
+              className="w-full h-12"
+              disabled={
+                buttonCooldown ||
+                !!unavailableReason ||
+                !appState.hasLoadedObs ||
+                (appState.recording && recording && recording.endTime !== null)
+              }
+              onClick={() => {
+                setButtonCooldown(true);
+                setTimeout(() => setButtonCooldown(false), 1000);
+                sendMessageToBackend(
+                  appState.recording || appState.preRecording ? 'StopRecording' : 'StartRecording',
+                );
+              }}
+            >
+              {appState.recording || appState.preRecording ? (
+                <>
+                  <OctagonX className="w-4 h-4" />
+                  Stop
+                </>
+              ) : (
+                <>
+                  <Monitor className="w-4 h-4" />
+                  Display Capture
+                </>
+              )}
+            </Button>
+          </BackendActionTooltip>
+          <div className="w-full">
+            <ConnectionStatus />
+          </div>
         </div>
       </div>
     </div>